@@ -0,0 +1,261 @@
+import { AnswerRuleName, checkAnswerRules, RuleResult } from '@/lib/answerRules';
+import { buildAnswerContext, buildSystemInstruction } from '@/lib/answerPrompt';
+import { CHAT_TOOL_DECLARATIONS, runChatTurn } from '@/lib/chatTools';
+import { deriveConversationState, formatConversationState, updateConversationFacts } from '@/lib/conversationState';
+import { findDeliveryLocation, parseDeliveryZones } from '@/lib/delivery';
+import { parseDocument } from '@/lib/documentCache';
+import { createLocalDocumentStore } from '@/lib/documentStore';
+import { latestDocumentNames } from '@/lib/documentVersions';
+import { LibrarianKnowledge, selectContext } from '@/lib/librarian';
+import { createMockProvider, getLLMProvider, LLMMessage, LLMProvider } from '@/lib/llm';
+import { buildProductIndex } from '@/lib/productResolver';
+import { GuardEvent, guardAnswer } from '@/lib/safetyGuard';
+
+const fs = require('fs');
+const path = require('path');
+require('dotenv').config({ path: '.env.local', quiet: true });
+
+// Offline evaluation of librarian routing and the system prompt's hard rules.
+//
+//   npm run eval                     replay the recorded replies through the mock provider
+//   npm run eval -- --live           run against the configured provider (LLM_PROVIDER)
+//   npm run eval -- --record         run live and save the replies as the new recordings
+//   npm run eval -- --case <id>      run a single case
+
+type EvalCase = {
+    id: string;
+    description?: string;
+    history?: LLMMessage[];
+    message: string;
+    expect: {
+        // A librarian keyword (USECARE, GUIDE, DELIVERY, CLARIFY, NONE, GENERAL), COMPARE or a bucket file name
+        route: string;
+        // Whether the question is classified as first aid, which decides the disclaimer and the SDS fallback
+        firstAid?: boolean;
+        rules?: AnswerRuleName[];
+    };
+    recorded?: {
+        librarian?: string;
+        answer?: string;
+    };
+};
+
+type CaseResult = {
+    id: string;
+    route: { expected: string; actual: string; passed: boolean };
+    firstAid: { expected?: boolean; actual: boolean; passed: boolean };
+    rules: RuleResult[];
+    // Repairs the safety guard made before the rules were checked
+    guard: GuardEvent[];
+    passed: boolean;
+    answer: string;
+};
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const CASES_PATH = path.join(FIXTURES_DIR, 'conversations.json');
+// Bucket snapshot in the document store layout. Document texts are abbreviated fixtures, not the official SDS sheets.
+const BUCKET_DIR = path.join(FIXTURES_DIR, 'bucket');
+
+const readJson = (file: string) => JSON.parse(fs.readFileSync(file, 'utf-8'));
+
+const args = process.argv.slice(2);
+const record = args.includes('--record');
+const live = record || args.includes('--live');
+const verbose = args.includes('--verbose');
+const onlyCase = args.includes('--case') ? args[args.indexOf('--case') + 1] : null;
+
+const loadKnowledge = async () => {
+    const bucket = createLocalDocumentStore(BUCKET_DIR);
+    const catalog = { files: (await bucket.list()).map((document) => document.name) };
+    const productMetadata = readJson(path.join(process.cwd(), 'src/data/product_metadata.json'));
+    const knowledge: LibrarianKnowledge = {
+        fileList: latestDocumentNames(catalog.files).join('\n'),
+        productGuide: fs.readFileSync(path.join(process.cwd(), 'product_guide_harvested.txt'), 'utf-8'),
+        useCases: fs.readFileSync(path.join(process.cwd(), 'src/data/use_cases.json'), 'utf-8'),
+        productMetadata,
+        productIndex: buildProductIndex(productMetadata, catalog.files),
+    };
+    const loadDocument = async (name: string) => {
+        const content = await bucket.read(name);
+        if (!content) throw new Error(`No fixture text for ${name}`);
+        return parseDocument(name, 'fixture', content.toString());
+    };
+    const deliveryZones = parseDeliveryZones(fs.readFileSync(path.join(process.cwd(), 'delivery_zipcodes.json'), 'utf-8'));
+    return { catalog, knowledge, loadDocument, deliveryZones };
+};
+
+// Replays a case's recorded librarian and answer replies
+const recordedProvider = (testCase: EvalCase): LLMProvider =>
+    createMockProvider({
+        rules: [{ kind: 'generate', reply: testCase.recorded?.librarian ?? 'NONE' }],
+        fallback: testCase.recorded?.answer ?? '',
+    });
+
+const runCase = async (testCase: EvalCase, env: Awaited<ReturnType<typeof loadKnowledge>>, liveProvider: LLMProvider | null): Promise<CaseResult> => {
+    const { catalog, knowledge, loadDocument, deliveryZones } = env;
+    const history = testCase.history || [];
+
+    let librarianReply: string | undefined;
+    const base = liveProvider || recordedProvider(testCase);
+    const llm: LLMProvider = {
+        ...base,
+        generate: async (prompt) => (librarianReply = await base.generate(prompt)),
+    };
+
+    // Cases carry no stored state, so it is rebuilt from the history as the route does for stateless requests
+    const state = updateConversationFacts(deriveConversationState(history, knowledge.productIndex), testCase.message, knowledge.productIndex);
+    const selection = await selectContext(testCase.message, history, knowledge, llm, state);
+    const { contextData, sdsUrl, sdsText, mixingCheck, packSizeCheck } = await buildAnswerContext({
+        selection,
+        message: testCase.message,
+        history,
+        knowledge,
+        fileNames: catalog.files,
+        deliveryZones,
+        loadDocument,
+    });
+
+    const systemInstruction = buildSystemInstruction(contextData, history.length, formatConversationState(state));
+    const toolContext = {
+        productIndex: knowledge.productIndex,
+        productMetadata: knowledge.productMetadata,
+        useCases: JSON.parse(knowledge.useCases),
+        deliveryZones,
+        loadDocument,
+    };
+    const generate = async (instruction: string) => {
+        let text = '';
+        const session = llm.chat({ systemInstruction: instruction, history, tools: CHAT_TOOL_DECLARATIONS });
+        await runChatTurn(session, testCase.message, toolContext, (chunk) => { text += chunk; });
+        return text;
+    };
+
+    // Rules are checked on what the customer would see, i.e. after the safety guard
+    const answer = await generate(systemInstruction);
+    const guarded = await guardAnswer(answer, {
+        message: testCase.message,
+        firstAid: state.firstAid,
+        clarifying: selection.selectedFile === 'CLARIFY',
+        sdsUrl,
+        sdsText,
+    }, (correction) =>
+        generate(`${systemInstruction}\n      CORRECTION: ${correction}`)
+    );
+
+    if (record) {
+        testCase.recorded = { ...(librarianReply !== undefined ? { librarian: librarianReply.trim() } : {}), answer };
+    }
+
+    const userTexts = [testCase.message, ...history.filter((msg) => msg.role === 'user').map((msg) => msg.content).reverse()];
+    const rules = checkAnswerRules(guarded.text, testCase.expect.rules || [], {
+        message: testCase.message,
+        history,
+        sdsUrl,
+        firstAid: state.firstAid,
+        productIndex: knowledge.productIndex,
+        deliveryLookup: selection.selectedFile === 'DELIVERY' ? findDeliveryLocation(userTexts, deliveryZones) : null,
+        comparedProducts: selection.comparedProducts?.map((product) => product.displayName),
+        mixingCheck,
+        packSizeCheck,
+    });
+
+    const route = {
+        expected: testCase.expect.route,
+        actual: selection.selectedFile,
+        passed: selection.selectedFile === testCase.expect.route,
+    };
+    const firstAid = {
+        expected: testCase.expect.firstAid,
+        actual: Boolean(state.firstAid),
+        passed: testCase.expect.firstAid === undefined || testCase.expect.firstAid === Boolean(state.firstAid),
+    };
+    return {
+        id: testCase.id,
+        route,
+        firstAid,
+        rules,
+        guard: guarded.events,
+        passed: route.passed && firstAid.passed && rules.every((r) => r.passed),
+        answer: guarded.text,
+    };
+};
+
+const printResult = (result: CaseResult) => {
+    console.info(`${result.passed ? 'PASS' : 'FAIL'}  ${result.id}`);
+    if (!result.route.passed) {
+        console.info(`      route: expected ${result.route.expected}, got ${result.route.actual}`);
+    }
+    if (!result.firstAid.passed) {
+        console.info(`      first aid: expected ${result.firstAid.expected}, got ${result.firstAid.actual}`);
+    }
+    for (const event of result.guard) {
+        console.info(`      guard ${event.action} ${event.check}: ${event.detail.slice(0, 160)}`);
+    }
+    for (const rule of result.rules.filter((r) => !r.passed)) {
+        console.info(`      ${rule.rule}: ${rule.detail}`);
+    }
+    if (!result.passed || verbose) {
+        console.info(`      answer: ${JSON.stringify(result.answer.slice(0, 300))}`);
+    }
+};
+
+const main = async () => {
+    const cases: EvalCase[] = readJson(CASES_PATH);
+    const selected = onlyCase ? cases.filter((c) => c.id === onlyCase) : cases;
+    if (selected.length === 0) {
+        console.error(onlyCase ? `No eval case "${onlyCase}".` : 'No eval cases found.');
+        process.exitCode = 1;
+        return;
+    }
+
+    const liveProvider = live ? getLLMProvider() : null;
+    if (live && !liveProvider) {
+        console.error('--live needs a configured LLM provider (see LLM_PROVIDER in .env.example).');
+        process.exitCode = 1;
+        return;
+    }
+
+    // Pipeline progress logs are noise in the report (guard repairs are listed per case instead)
+    const { log, warn } = console;
+    if (verbose) {
+        process.env.CHAT_DEBUG = '1';
+    } else {
+        console.log = () => {};
+        console.warn = () => {};
+    }
+
+    const env = await loadKnowledge();
+    const results: CaseResult[] = [];
+    for (const testCase of selected) {
+        try {
+            const result = await runCase(testCase, env, liveProvider);
+            results.push(result);
+            printResult(result);
+        } catch (err) {
+            console.info(`FAIL  ${testCase.id}\n      error: ${err instanceof Error ? err.message : err}`);
+            results.push({
+                id: testCase.id,
+                route: { expected: testCase.expect.route, actual: 'ERROR', passed: false },
+                firstAid: { expected: testCase.expect.firstAid, actual: false, passed: false },
+                rules: [],
+                guard: [],
+                passed: false,
+                answer: '',
+            });
+        }
+    }
+    console.log = log;
+    console.warn = warn;
+
+    if (record) {
+        fs.writeFileSync(CASES_PATH, JSON.stringify(cases, null, 4) + '\n');
+        console.info(`\nRecorded replies written to ${path.relative(process.cwd(), CASES_PATH)}.`);
+    }
+
+    const failed = results.filter((r) => !r.passed).length;
+    const repaired = results.filter((r) => r.guard.length > 0).length;
+    console.info(`\n${results.length - failed}/${results.length} passed, ${repaired} repaired by the safety guard (${live ? `live: ${liveProvider?.name} ${liveProvider?.model}` : 'recorded'})`);
+    process.exitCode = failed > 0 ? 1 : 0;
+};
+
+main();
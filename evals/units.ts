@@ -0,0 +1,55 @@
+import { answerRuleChecks } from './units/answerRules';
+import { catalogConsistencyChecks } from './units/catalogConsistency';
+import { catalogStoreChecks } from './units/catalogStore';
+import type { UnitCheck } from './units/check';
+import { dilutionChecks } from './units/dilution';
+import { ingestionChecks } from './units/ingestion';
+import { leadChecks } from './units/leads';
+import { llmErrorChecks } from './units/llmErrors';
+import { orderRequestChecks } from './units/orderRequests';
+import { productDocumentChecks } from './units/productDocuments';
+import { productResolverChecks } from './units/productResolver';
+import { sessionChecks } from './units/sessions';
+
+// Function-level checks for the pure library modules, alongside the conversation replay in run.ts.
+//
+//   npm run eval:units                   run every check
+//   npm run eval:units -- <module>       run one module's checks (e.g. dilution)
+
+const MODULES: Record<string, UnitCheck[]> = {
+    answerRules: answerRuleChecks,
+    catalogConsistency: catalogConsistencyChecks,
+    catalogStore: catalogStoreChecks,
+    dilution: dilutionChecks,
+    ingestion: ingestionChecks,
+    leads: leadChecks,
+    llmErrors: llmErrorChecks,
+    orderRequests: orderRequestChecks,
+    productDocuments: productDocumentChecks,
+    productResolver: productResolverChecks,
+    sessions: sessionChecks,
+};
+
+const main = async () => {
+    const only = process.argv[2];
+    let failed = 0;
+    let total = 0;
+    for (const [module, checks] of Object.entries(MODULES)) {
+        if (only && module !== only) continue;
+        for (const check of checks) {
+            total++;
+            try {
+                await check.run();
+                console.log(`PASS ${module}: ${check.name}`);
+            } catch (error) {
+                failed++;
+                console.log(`FAIL ${module}: ${check.name}`);
+                console.log(`    ${error instanceof Error ? error.message.split('\n').join('\n    ') : String(error)}`);
+            }
+        }
+    }
+    console.log(`\n${total - failed}/${total} checks passed`);
+    process.exitCode = failed > 0 ? 1 : 0;
+};
+
+main();
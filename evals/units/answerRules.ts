@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { continuesFirstAid, isFirstAidQuestion } from '@/lib/answerRules';
+import type { UnitCheck } from './check';
+
+export const answerRuleChecks: UnitCheck[] = [
+    {
+        name: 'injuries are first aid',
+        run: () => {
+            for (const message of [
+                'I splashed Bio-Maxx in my eyes, what should I do?',
+                'Bio-Maxx got on my skin, what do I do?',
+                'What if someone swallowed Bio-Maxx?',
+                'My hands are burning after using Delta Green',
+                'What should I do after skin exposure?',
+                'Do I need to see a doctor?',
+            ]) {
+                assert.equal(isFirstAidQuestion(message), true, message);
+            }
+        },
+    },
+    {
+        name: 'exposure, burn and splash without a body part are not',
+        run: () => {
+            for (const message of [
+                'What are the exposure limits for Bio-Maxx?',
+                'Will Delta Green Concentrate burn off baked-on grease?',
+                'Does it splash when I pour it into the bucket?',
+                'Is it approved for medical facilities?',
+                'Can I use it on the floor mats? It needs long contact time.',
+            ]) {
+                assert.equal(isFirstAidQuestion(message), false, message);
+            }
+        },
+    },
+    {
+        name: 'a body part in another sentence does not make exposure an injury',
+        run: () => assert.equal(isFirstAidQuestion('What are the exposure limits? I want to clean my face mask shelf.'), false),
+    },
+    {
+        name: 'follow-ups stay first aid only after a first-aid question',
+        run: () => {
+            assert.equal(continuesFirstAid('what about skin contact?', true), true);
+            assert.equal(continuesFirstAid('and for a dog?', false), false);
+        },
+    },
+];
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { checkCatalogConsistency, ConsistencyInput } from '@/lib/catalogConsistency';
+import type { UnitCheck } from './check';
+
+const checksFor = (input: Partial<ConsistencyInput>, subject: string) =>
+    checkCatalogConsistency({ products: {}, useCases: [], files: [], ...input })
+        .issues.filter((issue) => issue.subject === subject)
+        .map((issue) => issue.check);
+
+export const catalogConsistencyChecks: UnitCheck[] = [
+    {
+        name: 'keys that are not slugs are errors',
+        run: () => assert.ok(checksFor({ products: { 'Delta Green': { displayName: 'Delta Green' } } }, 'Delta Green').includes('invalid-slug')),
+    },
+    {
+        name: 'pack-size spellings are compared through the resolver normalization',
+        run: () => {
+            const products = { 'bio-maxx': { variants: ['bio-maxx-4x1-gallon', 'bio-maxx-4x1-gal'] } };
+            assert.ok(checksFor({ products }, 'bio-maxx').includes('duplicate-variant'));
+        },
+    },
+    {
+        name: 'use cases must name catalog products',
+        run: () => {
+            const report = checkCatalogConsistency({
+                products: { 'bio-maxx': {} },
+                useCases: [{ issue: 'Grease traps', solution: 'Dose weekly', products: ['bio-max'] }],
+                files: [],
+            });
+            assert.ok(report.issues.some((issue) => issue.check === 'unknown-use-case-product' && issue.severity === 'error'));
+        },
+    },
+    {
+        name: 'files with no matching product are orphans, entity-encoded slugs still match',
+        run: () => {
+            const products = { 'r-r-degreaser': { variants: ['r-r-degreaser-5-gal'] } };
+            const orphan = 'sku_master/sku_master__unknown-thing__v1.txt';
+            const encoded = 'sku_master/sku_master__r&amp;r-degreaser-5-gal__v1.txt';
+            assert.ok(checksFor({ products, files: [orphan, encoded] }, orphan).includes('orphan-file'));
+            assert.ok(!checksFor({ products, files: [orphan, encoded] }, encoded).includes('orphan-file'));
+        },
+    },
+];
@@ -0,0 +1,16 @@
+import assert from 'node:assert/strict';
+import { currentCatalogVersion, getCatalogStore, loadBundledCatalog } from '@/lib/catalogStore';
+import type { UnitCheck } from './check';
+
+export const catalogStoreChecks: UnitCheck[] = [
+    {
+        name: 'the live version is read from the store, not from this process\'s saves',
+        run: async () => {
+            const before = await currentCatalogVersion();
+            assert.equal(typeof before, 'number');
+            // Written straight to the store, as another server instance would
+            await getCatalogStore().save(loadBundledCatalog(), { author: 'units', summary: 'version check' }, before as number);
+            assert.equal(await currentCatalogVersion(), (before as number) + 1);
+        },
+    },
+];
@@ -0,0 +1,5 @@
+// A function-level check: throws (node:assert) on failure. Grouped per module in evals/units/.
+export type UnitCheck = {
+    name: string;
+    run: () => void | Promise<void>;
+};
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { calculateDilution, parseDilutionRatios } from '@/lib/dilution';
+import type { UnitCheck } from './check';
+
+const ouncesPerGallon = (text: string) => parseDilutionRatios(text).map((r) => (r.kind === 'ozPerGallon' ? r.ozPerGallon : null));
+
+export const dilutionChecks: UnitCheck[] = [
+    {
+        name: 'oz per gallon with its label',
+        run: () => {
+            const [ratio] = parseDilutionRatios('Damp Mopping: 1 oz per gallon of water');
+            assert.deepEqual(ratio, { kind: 'ozPerGallon', ozPerGallon: 1, text: '1 oz per gallon of water', label: 'Damp Mopping' });
+        },
+    },
+    {
+        name: 'a range is both ends, never the number after the hyphen',
+        run: () => {
+            assert.deepEqual(ouncesPerGallon('Add 3-8 oz per gallon of water'), [3, 8]);
+            assert.deepEqual(parseDilutionRatios('Add 3-8 oz per gallon of water').map((r) => r.label), ['Add (low end)', 'Add (high end)']);
+            assert.deepEqual(parseDilutionRatios('Heavy soil: 3 to 8 oz. per gal').map((r) => r.text), ['3 oz. per gal', '8 oz. per gal']);
+        },
+    },
+    {
+        name: 'reversed ranges are refused',
+        run: () => assert.deepEqual(parseDilutionRatios('Model 12-4 oz per gallon'), []),
+    },
+    {
+        name: 'fractions and mixed numbers',
+        run: () => {
+            assert.deepEqual(ouncesPerGallon('1/2 oz per gallon'), [0.5]);
+            assert.deepEqual(ouncesPerGallon('Use 1 1/2 oz per gallon'), [1.5]);
+            assert.deepEqual(parseDilutionRatios('1/0 oz per gallon'), []);
+        },
+    },
+    {
+        name: 'parts and ppm ratios in document order',
+        run: () => {
+            const ratios = parseDilutionRatios('Sanitize at 200 ppm.\nGeneral cleaning 1:64');
+            assert.deepEqual(ratios.map((r) => r.kind), ['ppm', 'parts']);
+        },
+    },
+    {
+        name: '1:64 for 5 gallons of use-solution',
+        run: () => {
+            const [ratio] = parseDilutionRatios('1:64');
+            const result = calculateDilution(ratio, { solution: { amount: 5, unit: 'gal' } });
+            assert.ok(!('error' in result));
+            assert.equal(result.concentrate.ounces, 9.85);
+        },
+    },
+    {
+        name: 'ppm targets are refused',
+        run: () => {
+            const [ratio] = parseDilutionRatios('200 ppm');
+            assert.ok('error' in calculateDilution(ratio, { solution: { amount: 1, unit: 'gal' } }));
+        },
+    },
+];
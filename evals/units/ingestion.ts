@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { buildProductMetadata, checkProductSlugs, toSkuSlug } from '@/lib/ingestion';
+import type { ProductMetadata } from '@/lib/productResolver';
+import type { UnitCheck } from './check';
+
+const bundled: ProductMetadata = require('../../src/data/product_metadata.json');
+
+const row = (SKU: string, description = '') => ({ SKU, Name: SKU, 'Short description': description, Description: '', Categories: '' });
+
+export const ingestionChecks: UnitCheck[] = [
+    {
+        name: 'SKUs are decoded and slugified',
+        run: () => {
+            assert.equal(toSkuSlug('r&amp;r-degreaser-5-gal'), 'r-r-degreaser-5-gal');
+            assert.equal(toSkuSlug('Delta Green'), 'delta-green');
+            assert.equal(toSkuSlug('bio-maxx-4x1-gal'), 'bio-maxx-4x1-gal');
+        },
+    },
+    {
+        name: 'pack rows link to the longest product they extend',
+        run: () => {
+            const { products } = buildProductMetadata([
+                row('dynamo-x', 'Concentrated cleaner'),
+                row('dynamo-x-commercial', 'Commercial cleaner'),
+                row('dynamo-x-commercial-5-gal'),
+                row('r&amp;r-degreaser-5-gal', "'\\n\\n"),
+                row('r&r-degreaser', 'Foaming degreaser'),
+            ]);
+            assert.deepEqual(products['dynamo-x-commercial'].variants, ['dynamo-x-commercial-5-gal']);
+            assert.deepEqual(products['r-r-degreaser'].variants, ['r-r-degreaser-5-gal']);
+            assert.equal(products['r&amp;r-degreaser-5-gal'], undefined);
+        },
+    },
+    {
+        name: 'existing keys that are not slugs are renamed',
+        run: () => {
+            const { products, renamedSlugs } = buildProductMetadata([], { 'Delta Green': { displayName: 'Delta Green', variants: ['Delta Green 5 Gal'] } });
+            assert.deepEqual(products, { 'delta-green': { displayName: 'Delta Green', variants: ['delta-green-5-gal'] } });
+            assert.deepEqual(renamedSlugs, ['Delta Green -> delta-green', 'Delta Green 5 Gal -> delta-green-5-gal']);
+        },
+    },
+    {
+        name: 'invalid keys and variants are reported',
+        run: () => {
+            assert.equal(checkProductSlugs({ 'Delta Green': { variants: ['ok-5-gal', 'r&r-5-gal'] } }).length, 2);
+        },
+    },
+    {
+        name: 'bundled metadata passes the slug check',
+        run: () => assert.deepEqual(checkProductSlugs(bundled), []),
+    },
+];
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { createMemoryLeadStore, normalizeEmail, normalizeName, parseLeadRequest, upsertLead } from '@/lib/leads';
+import type { UnitCheck } from './check';
+
+const ids = () => {
+    let next = 0;
+    return () => `lead-${++next}`;
+};
+
+export const leadChecks: UnitCheck[] = [
+    {
+        name: 'emails are normalized and validated',
+        run: () => {
+            assert.equal(normalizeEmail(' Jane@Example.COM '), 'jane@example.com');
+            assert.equal(normalizeEmail('not an email'), null);
+        },
+    },
+    {
+        name: 'names are cleaned up, sentences are not names',
+        run: () => {
+            assert.equal(normalizeName('my name is jane doe!'), 'Jane Doe');
+            assert.equal(normalizeName('McDonald'), 'McDonald');
+            assert.equal(normalizeName('I need a degreaser for my kitchen floors'), null);
+        },
+    },
+    {
+        name: 'an email needs a consent choice',
+        run: () => {
+            assert.ok('error' in parseLeadRequest({ sessionId: 'session-0001', email: 'jane@example.com' }));
+            assert.ok('input' in parseLeadRequest({ sessionId: 'session-0001', email: 'jane@example.com', consent: { catalogueEmail: false } }));
+        },
+    },
+    {
+        name: 'one lead per session, updated in place',
+        run: async () => {
+            const store = createMemoryLeadStore();
+            const newId = ids();
+            await upsertLead(store, { sessionId: 'session-0001', name: 'Jane' }, newId);
+            const lead = await upsertLead(store, { sessionId: 'session-0001', products: ['bio-maxx'], zip: '59401' }, newId);
+            assert.equal(store.leads.size, 1);
+            assert.equal(lead.name, 'Jane');
+            assert.deepEqual(lead.products, ['bio-maxx']);
+        },
+    },
+    {
+        name: 'the same email from a new session joins the existing lead',
+        run: async () => {
+            const store = createMemoryLeadStore();
+            const newId = ids();
+            await upsertLead(store, { sessionId: 'session-0001', name: 'Jane', email: 'jane@example.com', consent: { catalogueEmail: true } }, newId);
+            await upsertLead(store, { sessionId: 'session-0002', products: ['bio-maxx'] }, newId);
+            const lead = await upsertLead(store, { sessionId: 'session-0002', email: 'jane@example.com', consent: { catalogueEmail: false } }, newId);
+            assert.equal(store.leads.size, 1);
+            assert.deepEqual(lead.sessionIds, ['session-0001', 'session-0002']);
+            assert.deepEqual(lead.products, ['bio-maxx']);
+        },
+    },
+    {
+        name: 'a session attached by email cannot change name or consent',
+        run: async () => {
+            const store = createMemoryLeadStore();
+            const newId = ids();
+            await upsertLead(store, { sessionId: 'session-0001', name: 'Jane', email: 'jane@example.com', consent: { catalogueEmail: true } }, newId);
+            await upsertLead(store, { sessionId: 'session-0002', name: 'Mallory', email: 'jane@example.com', consent: { catalogueEmail: false } }, newId);
+            const lead = await upsertLead(store, { sessionId: 'session-0002', name: 'Mallory Again' }, newId);
+            assert.equal(lead.name, 'Jane');
+            assert.equal(lead.consent?.catalogueEmail, true);
+        },
+    },
+];
@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { classifyLLMError } from '@/lib/llm';
+import type { UnitCheck } from './check';
+
+export const llmErrorChecks: UnitCheck[] = [
+    {
+        name: 'a 429 or exhausted quota is a rate limit',
+        run: () => {
+            assert.equal(classifyLLMError(Object.assign(new Error('[429 Too Many Requests] Resource has been exhausted'), { status: 429 })), 'RATE_LIMITED');
+            assert.equal(classifyLLMError(new Error('LLM request failed (429): rate limit reached')), 'RATE_LIMITED');
+        },
+    },
+    {
+        name: 'aborts, 504s and network timeouts are upstream timeouts',
+        run: () => {
+            assert.equal(classifyLLMError(Object.assign(new Error('LLM request failed (504): gateway'), { status: 504 })), 'UPSTREAM_TIMEOUT');
+            assert.equal(classifyLLMError(Object.assign(new Error('aborted'), { name: 'AbortError' })), 'UPSTREAM_TIMEOUT');
+            const cause = Object.assign(new Error('Connect Timeout Error'), { code: 'UND_ERR_CONNECT_TIMEOUT' });
+            assert.equal(classifyLLMError(new TypeError('fetch failed', { cause })), 'UPSTREAM_TIMEOUT');
+        },
+    },
+    {
+        name: 'anything else stays unclassified',
+        run: () => {
+            assert.equal(classifyLLMError(Object.assign(new Error('LLM request failed (500): boom'), { status: 500 })), null);
+            assert.equal(classifyLLMError('not an error'), null);
+        },
+    },
+];
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { lookupZip } from '@/lib/delivery';
+import { createOrderRequest, emptyContact, parseOrderRequest } from '@/lib/orderRequests';
+import type { UnitCheck } from './check';
+
+const metadata = { 'bio-maxx': { displayName: 'Bio-Maxx' } };
+const zones = [{ zip: '59401', city: 'Great Falls', county: 'Cascade County' }];
+
+export const orderRequestChecks: UnitCheck[] = [
+    {
+        name: 'an email or phone is required',
+        run: () => {
+            const body = { lines: [{ slug: 'bio-maxx', quantity: 2 }], zip: '59401' };
+            assert.ok('error' in parseOrderRequest(body, metadata, zones));
+            assert.ok('input' in parseOrderRequest({ ...body, contact: { phone: '406-727-4144' } }, metadata, zones));
+        },
+    },
+    {
+        name: 'the sales notification names the county once',
+        run: () => {
+            const request = createOrderRequest(
+                {
+                    sessionId: null,
+                    lines: [{ slug: 'bio-maxx', product: 'Bio-Maxx', sku: null, pack: null, quantity: 2 }],
+                    zip: '59401',
+                    delivery: lookupZip('59401', zones),
+                    contact: { ...emptyContact(), email: 'jane@example.com' },
+                    notes: null,
+                },
+                { id: 'abcdef12-0000', leadId: null, recipients: ['sales@example.com'] },
+            );
+            assert.match(request.notification.text, /Great Falls \(Cascade County\)/);
+            assert.doesNotMatch(request.notification.text, /County County/);
+        },
+    },
+];
@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import { formatProductDocuments } from '@/lib/productDocuments';
+import type { UnitCheck } from './check';
+
+export const productDocumentChecks: UnitCheck[] = [
+    {
+        name: 'source headers name the family and product, never the bucket file',
+        run: () => {
+            const text = formatProductDocuments([{
+                family: 'grounding',
+                name: 'grounding/grounding__bio-maxx_v2.txt',
+                label: 'SDS / SAFETY DATA',
+                version: 'v2',
+                text: '## SECTION 4: FIRST-AID MEASURES',
+                truncated: false,
+                sections: [4],
+            }], 'Bio-Maxx');
+            assert.equal(text.split('\n')[0], '=== SOURCE: SDS / SAFETY DATA — Bio-Maxx — v2 — SDS Sections 4 ===');
+            assert.ok(!text.includes('grounding__'));
+        },
+    },
+];
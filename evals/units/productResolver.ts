@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { buildProductIndex, resolveProduct, RESOLVER_CONFIDENCE_THRESHOLD } from '@/lib/productResolver';
+import type { UnitCheck } from './check';
+
+const index = buildProductIndex(
+    {
+        'bio-maxx': { displayName: 'Bio-Maxx', variants: ['bio-maxx-5-gal', 'bio-maxx-12x1-qt'] },
+        'delta-green': { displayName: 'Delta Green' },
+        'delta-green-concentrate': { displayName: 'Delta Green Concentrate' },
+    },
+    ['sku_master/sku_master__bio-maxx-5-gal__v1.txt', 'grounding/grounding__bio-maxx.txt'],
+);
+
+export const productResolverChecks: UnitCheck[] = [
+    {
+        name: 'a pack size resolves to its variant and its own files first',
+        run: () => {
+            const match = resolveProduct('do you have Bio-Maxx 5 gallon?', index);
+            assert.equal(match?.slug, 'bio-maxx');
+            assert.equal(match?.variant, 'bio-maxx-5-gal');
+            assert.deepEqual(match?.files, ['sku_master/sku_master__bio-maxx-5-gal__v1.txt', 'grounding/grounding__bio-maxx.txt']);
+        },
+    },
+    {
+        name: 'the longer product name wins',
+        run: () => assert.equal(resolveProduct('Is Delta Green Concentrate safe on tile?', index)?.slug, 'delta-green-concentrate'),
+    },
+    {
+        name: 'unrelated text stays under the confidence threshold',
+        run: () => {
+            const match = resolveProduct('what are your opening hours', index);
+            assert.ok(!match || match.score < RESOLVER_CONFIDENCE_THRESHOLD);
+        },
+    },
+];
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { emptyConversationState } from '@/lib/conversationState';
+import { appendMessages, createMemorySessionStore, isValidSessionId, MAX_SESSION_MESSAGES, newSession, SessionMessage } from '@/lib/sessions';
+import type { UnitCheck } from './check';
+
+const message = (i: number): SessionMessage => ({ role: i % 2 ? 'assistant' : 'user', content: `message ${i}`, createdAt: new Date(0).toISOString() });
+
+export const sessionChecks: UnitCheck[] = [
+    {
+        name: 'session IDs are checked',
+        run: () => {
+            assert.ok(isValidSessionId('a1b2c3d4-e5f6'));
+            assert.ok(!isValidSessionId('short'));
+            assert.ok(!isValidSessionId('../../etc/passwd'));
+        },
+    },
+    {
+        name: 'the transcript is capped and the summary count follows it',
+        run: () => {
+            const session = appendMessages(newSession('session-0001'), Array.from({ length: MAX_SESSION_MESSAGES }, (_, i) => message(i)), {
+                ...emptyConversationState(),
+                summarizedCount: 10,
+            });
+            const next = appendMessages(session, [message(100), message(101)]);
+            assert.equal(next.messages.length, MAX_SESSION_MESSAGES);
+            assert.equal(next.messages[0].content, 'message 2');
+            assert.equal(next.state?.summarizedCount, 8);
+        },
+    },
+    {
+        name: 'appending to an unknown session fails',
+        run: async () => {
+            const store = createMemorySessionStore();
+            assert.equal(await store.append('session-0001', [message(0)]), null);
+            await store.create('session-0001');
+            assert.equal((await store.append('session-0001', [message(0)]))?.messages.length, 1);
+        },
+    },
+];
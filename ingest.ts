@@ -0,0 +1,70 @@
+import { getCatalogStore } from '@/lib/catalogStore';
+import { createCatalogTarget, createDocumentStoreTarget, createLocalTarget, runIngestion } from '@/lib/ingestion';
+
+const fs = require('fs');
+const path = require('path');
+require('dotenv').config({ path: '.env.local', quiet: true });
+
+// Knowledge-base ingestion (src/lib/ingestion): enrichment CSV -> product_metadata.json,
+// SDS Intake App exports -> grounding/ documents, and the librarian guide.
+//
+//   npm run ingest -- --dry-run                       diff against the document store and src/data, write nothing
+//
+// Once the admin area has saved a catalog version (CATALOG_STORE), the chat reads that instead of
+// src/data, so the metadata is diffed against it and saved as its next version.
+//   npm run ingest -- --sds-dir <exports>             also rebuild grounding docs (or set SDS_EXPORTS_DIR)
+//   npm run ingest -- --out build/knowledge           write everything to a local directory instead
+//   npm run ingest -- --csv <file> | --no-csv         enrichment CSV (defaults to UF Product Enrichment/)
+//   npm run ingest -- --json                          print the report as JSON
+//
+// Exits non-zero if any output fails its schema (nothing is written in that case).
+
+const DEFAULT_CSV = path.join(__dirname, 'UF Product Enrichment', 'UF Chemist enrichment.csv');
+const HARVESTED_GUIDE = path.join(__dirname, 'product_guide_harvested.txt');
+const DATA_DIR = path.join(__dirname, 'src', 'data');
+
+const args = process.argv.slice(2);
+const option = (name: string) => (args.includes(name) ? args[args.indexOf(name) + 1] : undefined);
+const dryRun = args.includes('--dry-run');
+const json = args.includes('--json');
+const out = option('--out');
+const csvPath = args.includes('--no-csv') ? null : option('--csv') || DEFAULT_CSV;
+const sdsExportsDir = option('--sds-dir') || process.env.SDS_EXPORTS_DIR;
+
+const readIfExists = (file: string | null) => (file && fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : undefined);
+
+const main = async () => {
+    if (sdsExportsDir && !fs.existsSync(sdsExportsDir)) throw new Error(`SDS exports directory not found: ${sdsExportsDir}`);
+    if (csvPath && !fs.existsSync(csvPath)) throw new Error(`Enrichment CSV not found: ${csvPath}`);
+
+    const documentTarget = out ? createLocalTarget(out) : createDocumentStoreTarget();
+    // Not loadCatalog(): its fallback to the bundled files would hide a store outage and write to src/data
+    const catalog = out ? null : await getCatalogStore().current();
+    const report = await runIngestion({
+        csv: readIfExists(csvPath),
+        sdsExportsDir,
+        harvestedGuide: readIfExists(HARVESTED_GUIDE),
+        metadataTarget: out ? documentTarget : catalog ? createCatalogTarget(catalog) : createLocalTarget(DATA_DIR),
+        documentTarget,
+        dryRun,
+    });
+
+    if (json) {
+        console.log(JSON.stringify(report, null, 2));
+    } else {
+        for (const change of report.changes.filter((c) => c.status !== 'unchanged')) {
+            console.log(`\n${change.status.toUpperCase()} ${change.target}/${change.name}`);
+            for (const line of change.diff) console.log(`    ${line}`);
+        }
+        const unchanged = report.changes.filter((c) => c.status === 'unchanged').length;
+        for (const note of report.notes) console.log(`\nNOTE ${note}`);
+        for (const error of report.errors) console.log(`\nERROR ${error}`);
+        console.log(`\n${report.changes.length - unchanged} changed, ${unchanged} unchanged, ${report.written} written${dryRun ? ' (dry run)' : ''}`);
+    }
+    process.exit(report.errors.length > 0 ? 1 : 0);
+};
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,411 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Icon } from '@iconify/react';
+import type { CatalogIssue, CatalogVersion } from '@/lib/catalog';
+import type { UseCase } from '@/lib/chatTools';
+import type { ProductMetadata } from '@/lib/productResolver';
+
+// Catalog admin: edit product metadata, variants and use-case mappings through /api/admin.
+// The token is kept in sessionStorage and sent as a bearer token; every save is a new catalog version.
+
+const TOKEN_KEY = 'uf_admin_token';
+const AUTHOR_KEY = 'uf_admin_author';
+
+type Tab = 'products' | 'useCases' | 'history';
+
+type ProductForm = {
+    slug: string;
+    displayName: string;
+    category: string;
+    canonicalDescription: string;
+    variants: string;
+};
+
+type UseCaseForm = {
+    issue: string;
+    solution: string;
+    products: string;
+};
+
+const EMPTY_PRODUCT: ProductForm = { slug: '', displayName: '', category: '', canonicalDescription: '', variants: '' };
+
+const inputClass = 'w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-slate-400';
+const buttonClass = 'inline-flex items-center gap-1.5 rounded-lg px-3 py-2 text-sm font-bold disabled:opacity-50';
+
+const toUseCaseForms = (useCases: UseCase[]): UseCaseForm[] =>
+    useCases.map((useCase) => ({ ...useCase, products: useCase.products.join(', ') }));
+
+const splitList = (text: string) => text.split(/[\n,]/).map((item) => item.trim()).filter(Boolean);
+
+export default function AdminPage() {
+    const [token, setToken] = useState('');
+    const [author, setAuthor] = useState('');
+    const [signedIn, setSignedIn] = useState(false);
+    const [tab, setTab] = useState<Tab>('products');
+    const [version, setVersion] = useState(0);
+    const [products, setProducts] = useState<ProductMetadata>({});
+    const [useCases, setUseCases] = useState<UseCaseForm[]>([]);
+    const [history, setHistory] = useState<CatalogVersion[]>([]);
+    const [issues, setIssues] = useState<CatalogIssue[]>([]);
+    const [search, setSearch] = useState('');
+    const [form, setForm] = useState<ProductForm>(EMPTY_PRODUCT);
+    const [isNew, setIsNew] = useState(true);
+    const [busy, setBusy] = useState(false);
+    const [message, setMessage] = useState<{ kind: 'ok' | 'error'; text: string } | null>(null);
+
+    const api = useCallback(async (url: string, init: RequestInit = {}) => {
+        const res = await fetch(url, {
+            ...init,
+            headers: {
+                'Content-Type': 'application/json',
+                Authorization: `Bearer ${token}`,
+                'X-Admin-User': author,
+                ...init.headers,
+            },
+        });
+        const data = await res.json().catch(() => ({}));
+        return { ok: res.ok, status: res.status, data };
+    }, [token, author]);
+
+    const loadCatalog = useCallback(async () => {
+        const [catalog, versions] = await Promise.all([api('/api/admin/catalog'), api('/api/admin/versions')]);
+        if (!catalog.ok) {
+            setMessage({ kind: 'error', text: catalog.data.error || 'Could not load the catalog' });
+            if (catalog.status === 401) setSignedIn(false);
+            return false;
+        }
+        setVersion(catalog.data.version);
+        setProducts(catalog.data.products);
+        setUseCases(toUseCaseForms(catalog.data.useCases));
+        setIssues(catalog.data.issues);
+        if (versions.ok) setHistory(versions.data.versions);
+        return true;
+    }, [api]);
+
+    useEffect(() => {
+        setToken(sessionStorage.getItem(TOKEN_KEY) || '');
+        setAuthor(localStorage.getItem(AUTHOR_KEY) || '');
+    }, []);
+
+    const signIn = async () => {
+        sessionStorage.setItem(TOKEN_KEY, token);
+        localStorage.setItem(AUTHOR_KEY, author);
+        if (await loadCatalog()) {
+            setSignedIn(true);
+            setMessage(null);
+        }
+    };
+
+    // Runs a save and reloads the catalog; a 409 means someone else saved first
+    const save = async (request: Promise<{ ok: boolean; status: number; data: any }>, success: string) => {
+        setBusy(true);
+        try {
+            const { ok, status, data } = await request;
+            if (ok) {
+                setMessage({ kind: 'ok', text: `${success} (version ${data.version.version})` });
+                await loadCatalog();
+                return true;
+            }
+            if (data.issues) setIssues(data.issues);
+            setMessage({ kind: 'error', text: status === 409 ? data.details : `${data.error}: ${data.details}` });
+            return false;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const selectProduct = (slug: string) => {
+        const entry = products[slug];
+        setForm({
+            slug,
+            displayName: entry.displayName || '',
+            category: entry.category || '',
+            canonicalDescription: entry.canonicalDescription || '',
+            variants: (entry.variants || []).join('\n'),
+        });
+        setIsNew(false);
+        setMessage(null);
+    };
+
+    const productBody = () => ({
+        displayName: form.displayName,
+        category: form.category,
+        canonicalDescription: form.canonicalDescription,
+        variants: splitList(form.variants),
+    });
+
+    const saveProduct = async () => {
+        const request = isNew
+            ? api('/api/admin/products', { method: 'POST', body: JSON.stringify({ slug: form.slug, product: productBody(), baseVersion: version }) })
+            : api(`/api/admin/products/${encodeURIComponent(form.slug)}`, { method: 'PUT', body: JSON.stringify({ product: productBody(), baseVersion: version }) });
+        if (await save(request, isNew ? `Added ${form.slug}` : `Saved ${form.slug}`)) setIsNew(false);
+    };
+
+    const deleteProduct = async () => {
+        if (!confirm(`Delete ${form.slug} from the catalog?`)) return;
+        const request = api(`/api/admin/products/${encodeURIComponent(form.slug)}?baseVersion=${version}`, { method: 'DELETE' });
+        if (await save(request, `Deleted ${form.slug}`)) {
+            setForm(EMPTY_PRODUCT);
+            setIsNew(true);
+        }
+    };
+
+    const validate = async () => {
+        const body = tab === 'products'
+            ? { product: { slug: form.slug, ...productBody() } }
+            : { useCases: useCases.map((useCase) => ({ ...useCase, products: splitList(useCase.products) })) };
+        const { ok, data } = await api('/api/admin/validate', { method: 'POST', body: JSON.stringify(body) });
+        if (!ok) {
+            setMessage({ kind: 'error', text: `${data.error}: ${data.details}` });
+            return;
+        }
+        setIssues(data.issues);
+        setMessage(data.valid
+            ? { kind: 'ok', text: 'No new errors' }
+            : { kind: 'error', text: data.introduced.map((issue: CatalogIssue) => `${issue.path}: ${issue.message}`).join('; ') });
+    };
+
+    const saveUseCases = () => save(
+        api('/api/admin/use-cases', {
+            method: 'PUT',
+            body: JSON.stringify({ useCases: useCases.map((useCase) => ({ ...useCase, products: splitList(useCase.products) })), baseVersion: version }),
+        }),
+        'Saved use cases',
+    );
+
+    const restore = async (restored: number) => {
+        if (!confirm(`Restore the catalog as it was in version ${restored}?`)) return;
+        await save(api(`/api/admin/versions/${restored}`, { method: 'POST', body: JSON.stringify({ baseVersion: version }) }), `Restored version ${restored}`);
+    };
+
+    const updateUseCase = (index: number, field: keyof UseCaseForm, value: string) =>
+        setUseCases((current) => current.map((useCase, i) => (i === index ? { ...useCase, [field]: value } : useCase)));
+
+    const filteredSlugs = useMemo(() => {
+        const query = search.trim().toLowerCase();
+        return Object.keys(products)
+            .filter((slug) => !query || slug.includes(query) || products[slug].displayName?.toLowerCase().includes(query))
+            .sort();
+    }, [products, search]);
+
+    const errorCount = issues.filter((issue) => issue.severity === 'error').length;
+
+    if (!signedIn) {
+        return (
+            <main className="flex min-h-screen items-center justify-center bg-slate-50 p-8">
+                <div className="w-full max-w-sm space-y-3 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+                    <div className="flex items-center gap-2 text-sm font-black uppercase tracking-wider text-slate-900">
+                        <Icon icon="ph:lock-key-bold" className="text-lg text-emerald-500" />
+                        Catalog admin
+                    </div>
+                    <input className={inputClass} placeholder="Your name" value={author} onChange={(e) => setAuthor(e.target.value)} />
+                    <input
+                        className={inputClass}
+                        type="password"
+                        placeholder="Admin token"
+                        value={token}
+                        onChange={(e) => setToken(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && signIn()}
+                    />
+                    <button className={`${buttonClass} w-full justify-center bg-slate-900 text-white`} onClick={signIn} disabled={!token}>
+                        Sign in
+                    </button>
+                    {message && <p className="text-sm text-red-600">{message.text}</p>}
+                </div>
+            </main>
+        );
+    }
+
+    return (
+        <main className="min-h-screen bg-slate-50 p-6 text-slate-700">
+            <div className="mx-auto max-w-6xl space-y-4">
+                <header className="flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                        <h1 className="text-xl font-black tracking-tight text-slate-900">Catalog admin</h1>
+                        <p className="text-xs text-slate-500">
+                            {version === 0 ? 'Serving the bundled catalog; the first save creates version 1' : `Version ${version}`}
+                            {' · '}
+                            {Object.keys(products).length} products · {useCases.length} use cases · {errorCount} errors
+                        </p>
+                    </div>
+                    <nav className="flex gap-1 rounded-xl bg-white p-1 shadow-sm">
+                        {(['products', 'useCases', 'history'] as Tab[]).map((name) => (
+                            <button
+                                key={name}
+                                onClick={() => { setTab(name); setMessage(null); }}
+                                className={`rounded-lg px-3 py-1.5 text-sm font-bold ${tab === name ? 'bg-slate-900 text-white' : 'text-slate-500 hover:text-slate-900'}`}
+                            >
+                                {name === 'products' ? 'Products' : name === 'useCases' ? 'Use cases' : 'History'}
+                            </button>
+                        ))}
+                    </nav>
+                </header>
+
+                {message && (
+                    <div className={`rounded-xl px-4 py-2 text-sm ${message.kind === 'ok' ? 'bg-emerald-50 text-emerald-800' : 'bg-red-50 text-red-800'}`}>
+                        {message.text}
+                    </div>
+                )}
+
+                {tab === 'products' && (
+                    <div className="grid gap-4 md:grid-cols-[260px_1fr]">
+                        <aside className="space-y-2 rounded-2xl border border-slate-200 bg-white p-3 shadow-sm">
+                            <input className={inputClass} placeholder="Search products" value={search} onChange={(e) => setSearch(e.target.value)} />
+                            <button
+                                className={`${buttonClass} w-full justify-center bg-emerald-600 text-white`}
+                                onClick={() => { setForm(EMPTY_PRODUCT); setIsNew(true); setMessage(null); }}
+                            >
+                                <Icon icon="ph:plus-bold" /> New product
+                            </button>
+                            <ul className="max-h-[60vh] overflow-y-auto text-sm">
+                                {filteredSlugs.map((slug) => (
+                                    <li key={slug}>
+                                        <button
+                                            onClick={() => selectProduct(slug)}
+                                            className={`w-full rounded-lg px-2 py-1.5 text-left ${!isNew && form.slug === slug ? 'bg-slate-100 font-bold text-slate-900' : 'hover:bg-slate-50'}`}
+                                        >
+                                            {products[slug].displayName || slug}
+                                            <span className="block text-[11px] text-slate-400">{slug}</span>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </aside>
+
+                        <section className="space-y-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+                            <label className="block space-y-1 text-xs font-bold uppercase tracking-wider text-slate-400">
+                                <span>Slug</span>
+                                <input
+                                    className={inputClass}
+                                    value={form.slug}
+                                    disabled={!isNew}
+                                    placeholder="e.g. bio-maxx"
+                                    onChange={(e) => setForm({ ...form, slug: e.target.value })}
+                                />
+                            </label>
+                            <label className="block space-y-1 text-xs font-bold uppercase tracking-wider text-slate-400">
+                                <span>Display name</span>
+                                <input className={inputClass} value={form.displayName} onChange={(e) => setForm({ ...form, displayName: e.target.value })} />
+                            </label>
+                            <label className="block space-y-1 text-xs font-bold uppercase tracking-wider text-slate-400">
+                                <span>Category</span>
+                                <input className={inputClass} value={form.category} onChange={(e) => setForm({ ...form, category: e.target.value })} />
+                            </label>
+                            <label className="block space-y-1 text-xs font-bold uppercase tracking-wider text-slate-400">
+                                <span>Description</span>
+                                <textarea
+                                    className={`${inputClass} h-32`}
+                                    value={form.canonicalDescription}
+                                    onChange={(e) => setForm({ ...form, canonicalDescription: e.target.value })}
+                                />
+                            </label>
+                            <label className="block space-y-1 text-xs font-bold uppercase tracking-wider text-slate-400">
+                                <span>Variants (one pack-size slug per line)</span>
+                                <textarea
+                                    className={`${inputClass} h-28 font-mono`}
+                                    value={form.variants}
+                                    onChange={(e) => setForm({ ...form, variants: e.target.value })}
+                                />
+                            </label>
+                            <div className="flex flex-wrap gap-2">
+                                <button className={`${buttonClass} bg-slate-900 text-white`} onClick={saveProduct} disabled={busy || !form.slug}>
+                                    <Icon icon="ph:floppy-disk-bold" /> {isNew ? 'Add product' : 'Save'}
+                                </button>
+                                <button className={`${buttonClass} border border-slate-200 text-slate-700`} onClick={validate} disabled={busy || !form.slug}>
+                                    <Icon icon="ph:check-circle-bold" /> Validate
+                                </button>
+                                {!isNew && (
+                                    <button className={`${buttonClass} ml-auto text-red-600 hover:bg-red-50`} onClick={deleteProduct} disabled={busy}>
+                                        <Icon icon="ph:trash-bold" /> Delete
+                                    </button>
+                                )}
+                            </div>
+                        </section>
+                    </div>
+                )}
+
+                {tab === 'useCases' && (
+                    <section className="space-y-3">
+                        {useCases.map((useCase, i) => (
+                            <div key={i} className="grid gap-2 rounded-2xl border border-slate-200 bg-white p-3 shadow-sm md:grid-cols-[200px_1fr_220px_auto]">
+                                <input className={inputClass} placeholder="Issue" value={useCase.issue} onChange={(e) => updateUseCase(i, 'issue', e.target.value)} />
+                                <textarea className={`${inputClass} h-20`} placeholder="Solution" value={useCase.solution} onChange={(e) => updateUseCase(i, 'solution', e.target.value)} />
+                                <input
+                                    className={`${inputClass} font-mono`}
+                                    placeholder="product-slug, other-slug"
+                                    value={useCase.products}
+                                    onChange={(e) => updateUseCase(i, 'products', e.target.value)}
+                                />
+                                <button
+                                    className={`${buttonClass} text-red-600 hover:bg-red-50`}
+                                    onClick={() => setUseCases((current) => current.filter((_, j) => j !== i))}
+                                    aria-label="Remove use case"
+                                >
+                                    <Icon icon="ph:trash-bold" />
+                                </button>
+                            </div>
+                        ))}
+                        <div className="flex flex-wrap gap-2">
+                            <button
+                                className={`${buttonClass} border border-slate-200 bg-white text-slate-700`}
+                                onClick={() => setUseCases((current) => [...current, { issue: '', solution: '', products: '' }])}
+                            >
+                                <Icon icon="ph:plus-bold" /> Add use case
+                            </button>
+                            <button className={`${buttonClass} border border-slate-200 bg-white text-slate-700`} onClick={validate} disabled={busy}>
+                                <Icon icon="ph:check-circle-bold" /> Validate
+                            </button>
+                            <button className={`${buttonClass} bg-slate-900 text-white`} onClick={saveUseCases} disabled={busy}>
+                                <Icon icon="ph:floppy-disk-bold" /> Save use cases
+                            </button>
+                        </div>
+                    </section>
+                )}
+
+                {tab === 'history' && (
+                    <section className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm">
+                        {history.length === 0 ? (
+                            <p className="p-4 text-sm text-slate-400">No saved versions yet.</p>
+                        ) : (
+                            <table className="w-full text-left text-sm">
+                                <tbody>
+                                    {history.map((entry) => (
+                                        <tr key={entry.version} className="border-b border-slate-100 last:border-0">
+                                            <td className="px-4 py-2 font-mono font-bold text-slate-900">v{entry.version}</td>
+                                            <td className="px-4 py-2">{entry.summary}</td>
+                                            <td className="px-4 py-2 text-slate-500">{entry.author}</td>
+                                            <td className="px-4 py-2 text-slate-500">{new Date(entry.createdAt).toLocaleString()}</td>
+                                            <td className="px-4 py-2 text-right">
+                                                {entry.version !== version && (
+                                                    <button className={`${buttonClass} text-blue-600 hover:bg-blue-50`} onClick={() => restore(entry.version)} disabled={busy}>
+                                                        <Icon icon="ph:clock-counter-clockwise-bold" /> Restore
+                                                    </button>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </section>
+                )}
+
+                {tab !== 'history' && issues.length > 0 && (
+                    <details className="rounded-2xl border border-slate-200 bg-white p-4 text-sm shadow-sm">
+                        <summary className="cursor-pointer font-bold text-slate-900">Validation issues ({issues.length})</summary>
+                        <ul className="mt-2 space-y-1">
+                            {issues.map((issue, i) => (
+                                <li key={i} className="flex gap-2">
+                                    <span className={`font-bold uppercase ${issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}>{issue.severity}</span>
+                                    <span className="font-mono text-slate-500">{issue.path}</span>
+                                    <span>{issue.message}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </details>
+                )}
+            </div>
+        </main>
+    );
+}
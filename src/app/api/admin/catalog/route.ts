@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminServerError, requireAdmin } from '@/lib/adminAuth';
+import { validateCatalog } from '@/lib/catalog';
+import { loadCatalog } from '@/lib/catalogStore';
+
+// GET /api/admin/catalog returns the live catalog, its version and every validation issue in it
+export async function GET(req: NextRequest) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const catalog = await loadCatalog();
+        return NextResponse.json({
+            version: catalog.version,
+            products: catalog.data.products,
+            useCases: catalog.data.useCases,
+            issues: validateCatalog(catalog.data),
+        });
+    } catch (error: any) {
+        return adminServerError(error, 'Catalog could not be loaded');
+    }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    adminServerError,
+    catalogChange,
+    catalogSaveResponse,
+    parseBaseVersion,
+    requireAdmin,
+    validationError,
+    versionConflict,
+} from '@/lib/adminAuth';
+import { parseProductEntry } from '@/lib/catalog';
+import { loadCatalog, saveCatalog } from '@/lib/catalogStore';
+
+type Params = { params: Promise<{ slug: string }> };
+
+const productNotFound = (slug: string) => NextResponse.json(
+    { error: 'Product not found', code: 'NOT_FOUND', details: `"${slug}" is not in the catalog` },
+    { status: 404 }
+);
+
+// GET /api/admin/products/:slug returns the product and the use cases that map to it
+export async function GET(req: NextRequest, { params }: Params) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const { slug } = await params;
+        const catalog = await loadCatalog();
+        const product = catalog.data.products[slug];
+        if (!product) return productNotFound(slug);
+
+        const useCases = catalog.data.useCases.filter((useCase) => useCase.products.includes(slug));
+        return NextResponse.json({ version: catalog.version, product: { slug, ...product }, useCases });
+    } catch (error: any) {
+        return adminServerError(error, 'Product could not be loaded');
+    }
+}
+
+// PUT /api/admin/products/:slug { product, baseVersion } replaces the entry, variants included
+export async function PUT(req: NextRequest, { params }: Params) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const { slug } = await params;
+        const body = await req.json().catch(() => null);
+        const baseVersion = parseBaseVersion(body?.baseVersion);
+        if (baseVersion === null) return validationError('baseVersion must be a non-negative integer');
+        const parsed = parseProductEntry(body.product);
+        if ('error' in parsed) return validationError(parsed.error);
+
+        const catalog = await loadCatalog();
+        if (catalog.version !== baseVersion) return versionConflict(catalog.version);
+        if (!catalog.data.products[slug]) return productNotFound(slug);
+
+        const result = await saveCatalog(
+            catalog,
+            { ...catalog.data, products: { ...catalog.data.products, [slug]: parsed.entry } },
+            catalogChange(req, `Edited product ${slug}`),
+        );
+        return catalogSaveResponse(result);
+    } catch (error: any) {
+        return adminServerError(error, 'Product could not be saved');
+    }
+}
+
+// DELETE /api/admin/products/:slug?baseVersion=N; blocked while a use case still maps to the product
+export async function DELETE(req: NextRequest, { params }: Params) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const { slug } = await params;
+        const rawVersion = req.nextUrl.searchParams.get('baseVersion');
+        const baseVersion = parseBaseVersion(rawVersion === null ? null : Number(rawVersion));
+        if (baseVersion === null) return validationError('baseVersion must be a non-negative integer');
+
+        const catalog = await loadCatalog();
+        if (catalog.version !== baseVersion) return versionConflict(catalog.version);
+        if (!catalog.data.products[slug]) return productNotFound(slug);
+
+        const { [slug]: _removed, ...products } = catalog.data.products;
+        const result = await saveCatalog(catalog, { ...catalog.data, products }, catalogChange(req, `Deleted product ${slug}`));
+        return catalogSaveResponse(result);
+    } catch (error: any) {
+        return adminServerError(error, 'Product could not be deleted');
+    }
+}
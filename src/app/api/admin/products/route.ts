@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    adminServerError,
+    catalogChange,
+    catalogSaveResponse,
+    parseBaseVersion,
+    requireAdmin,
+    validationError,
+    versionConflict,
+} from '@/lib/adminAuth';
+import { isValidSlug, parseProductEntry } from '@/lib/catalog';
+import { loadCatalog, saveCatalog } from '@/lib/catalogStore';
+
+// GET /api/admin/products lists products with their variants
+export async function GET(req: NextRequest) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const catalog = await loadCatalog();
+        const products = Object.entries(catalog.data.products).map(([slug, entry]) => ({ slug, ...entry }));
+        return NextResponse.json({ version: catalog.version, products });
+    } catch (error: any) {
+        return adminServerError(error, 'Products could not be loaded');
+    }
+}
+
+// POST /api/admin/products { slug, product: { displayName, category?, canonicalDescription?, variants? }, baseVersion }
+export async function POST(req: NextRequest) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const body = await req.json().catch(() => null);
+        const baseVersion = parseBaseVersion(body?.baseVersion);
+        if (baseVersion === null) return validationError('baseVersion must be a non-negative integer');
+        if (!isValidSlug(body.slug)) return validationError('slug must be lowercase letters, digits and single hyphens');
+        const parsed = parseProductEntry(body.product);
+        if ('error' in parsed) return validationError(parsed.error);
+
+        const catalog = await loadCatalog();
+        if (catalog.version !== baseVersion) return versionConflict(catalog.version);
+        if (catalog.data.products[body.slug]) {
+            return NextResponse.json(
+                { error: 'Product already exists', code: 'CONFLICT', details: `"${body.slug}" is already in the catalog` },
+                { status: 409 }
+            );
+        }
+
+        const result = await saveCatalog(
+            catalog,
+            { ...catalog.data, products: { ...catalog.data.products, [body.slug]: parsed.entry } },
+            catalogChange(req, `Added product ${body.slug}`),
+        );
+        return catalogSaveResponse(result, 201);
+    } catch (error: any) {
+        return adminServerError(error, 'Product could not be saved');
+    }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    adminServerError,
+    catalogChange,
+    catalogSaveResponse,
+    parseBaseVersion,
+    requireAdmin,
+    validationError,
+    versionConflict,
+} from '@/lib/adminAuth';
+import { parseUseCases } from '@/lib/catalog';
+import { loadCatalog, saveCatalog } from '@/lib/catalogStore';
+
+// GET /api/admin/use-cases returns the issue → product mappings used by findUseCase and the librarian
+export async function GET(req: NextRequest) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const catalog = await loadCatalog();
+        return NextResponse.json({ version: catalog.version, useCases: catalog.data.useCases });
+    } catch (error: any) {
+        return adminServerError(error, 'Use cases could not be loaded');
+    }
+}
+
+// PUT /api/admin/use-cases { useCases: [{ issue, solution, products }], baseVersion } replaces the list
+export async function PUT(req: NextRequest) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const body = await req.json().catch(() => null);
+        const baseVersion = parseBaseVersion(body?.baseVersion);
+        if (baseVersion === null) return validationError('baseVersion must be a non-negative integer');
+        const parsed = parseUseCases(body.useCases);
+        if ('error' in parsed) return validationError(parsed.error);
+
+        const catalog = await loadCatalog();
+        if (catalog.version !== baseVersion) return versionConflict(catalog.version);
+
+        const result = await saveCatalog(
+            catalog,
+            { ...catalog.data, useCases: parsed.useCases },
+            catalogChange(req, `Updated use cases (${parsed.useCases.length})`),
+        );
+        return catalogSaveResponse(result);
+    } catch (error: any) {
+        return adminServerError(error, 'Use cases could not be saved');
+    }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminServerError, requireAdmin, validationError } from '@/lib/adminAuth';
+import { CatalogData, introducedErrors, isValidSlug, parseProductEntry, parseUseCases, validateCatalog } from '@/lib/catalog';
+import { loadCatalog } from '@/lib/catalogStore';
+
+// POST /api/admin/validate { product?: { slug, ...entry }, useCases? } checks an edit without saving it.
+// `valid` is false when the edit would introduce errors; `issues` covers the whole resulting catalog.
+export async function POST(req: NextRequest) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const body = await req.json().catch(() => null);
+        if (!body || typeof body !== 'object') return validationError('Body must be a JSON object');
+
+        const catalog = await loadCatalog();
+        const data: CatalogData = { ...catalog.data };
+        if (body.product !== undefined) {
+            if (!isValidSlug(body.product?.slug) && !catalog.data.products[body.product?.slug]) {
+                return validationError('product.slug must be lowercase letters, digits and single hyphens');
+            }
+            const parsed = parseProductEntry(body.product);
+            if ('error' in parsed) return validationError(parsed.error);
+            data.products = { ...data.products, [body.product.slug]: parsed.entry };
+        }
+        if (body.useCases !== undefined) {
+            const parsed = parseUseCases(body.useCases);
+            if ('error' in parsed) return validationError(parsed.error);
+            data.useCases = parsed.useCases;
+        }
+
+        const introduced = introducedErrors(catalog.data, data);
+        return NextResponse.json({ valid: introduced.length === 0, introduced, issues: validateCatalog(data) });
+    } catch (error: any) {
+        return adminServerError(error, 'Catalog could not be validated');
+    }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    adminServerError,
+    catalogChange,
+    catalogSaveResponse,
+    parseBaseVersion,
+    requireAdmin,
+    validationError,
+    versionConflict,
+} from '@/lib/adminAuth';
+import { getCatalogStore, loadCatalog, saveCatalog } from '@/lib/catalogStore';
+
+type Params = { params: Promise<{ version: string }> };
+
+const loadVersion = async (params: Params['params']) => {
+    const version = Number((await params).version);
+    return Number.isInteger(version) && version > 0 ? getCatalogStore().getVersion(version) : null;
+};
+
+const versionNotFound = () => NextResponse.json(
+    { error: 'Version not found', code: 'NOT_FOUND', details: 'No catalog version with that number' },
+    { status: 404 }
+);
+
+// GET /api/admin/versions/:version returns that version's full catalog
+export async function GET(req: NextRequest, { params }: Params) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const snapshot = await loadVersion(params);
+        if (!snapshot) return versionNotFound();
+        return NextResponse.json({ snapshot });
+    } catch (error: any) {
+        return adminServerError(error, 'Version could not be loaded');
+    }
+}
+
+// POST /api/admin/versions/:version { baseVersion } restores that version's catalog as a new version
+export async function POST(req: NextRequest, { params }: Params) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const body = await req.json().catch(() => null);
+        const baseVersion = parseBaseVersion(body?.baseVersion);
+        if (baseVersion === null) return validationError('baseVersion must be a non-negative integer');
+
+        const snapshot = await loadVersion(params);
+        if (!snapshot) return versionNotFound();
+        const catalog = await loadCatalog();
+        if (catalog.version !== baseVersion) return versionConflict(catalog.version);
+
+        // Restoring only re-applies a catalog that was valid when saved, so its errors aren't re-checked
+        const result = await saveCatalog(
+            { ...catalog, data: snapshot.data },
+            snapshot.data,
+            catalogChange(req, `Restored version ${snapshot.version}`),
+        );
+        return catalogSaveResponse(result);
+    } catch (error: any) {
+        return adminServerError(error, 'Version could not be restored');
+    }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminServerError, requireAdmin } from '@/lib/adminAuth';
+import { getCatalogStore } from '@/lib/catalogStore';
+
+const DEFAULT_HISTORY_LIMIT = 20;
+const MAX_HISTORY_LIMIT = 100;
+
+// GET /api/admin/versions?limit=N lists catalog versions, newest first
+export async function GET(req: NextRequest) {
+    const denied = requireAdmin(req);
+    if (denied) return denied;
+
+    try {
+        const limit = Math.min(Number(req.nextUrl.searchParams.get('limit')) || DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT);
+        const versions = await getCatalogStore().history(limit);
+        return NextResponse.json({ versions });
+    } catch (error: any) {
+        return adminServerError(error, 'Version history could not be loaded');
+    }
+}
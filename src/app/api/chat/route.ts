@@ -1,61 +1,75 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { Storage } from '@google-cloud/storage';
+import { after, NextRequest, NextResponse } from 'next/server';
 import { LRUCache } from 'lru-cache';
+import { CHAT_RATE_LIMIT, createRateLimiter, getClientIp } from '@/lib/rateLimit';
+import { buildProductIndex } from '@/lib/productResolver';
+import { downloadDocumentText } from '@/lib/storage';
+import { createDocumentCacheFromEnv } from '@/lib/documentCache';
+import { getDocumentStore } from '@/lib/documentStore';
+import { latestDocumentNames } from '@/lib/documentVersions';
+import { CHAT_TOOL_DECLARATIONS, ChatToolContext, runChatTurn, UseCase } from '@/lib/chatTools';
+import { getDeliveryZones } from '@/lib/delivery';
+import { classifyLLMError, getLLMProvider, LLMMessage } from '@/lib/llm';
+import { LibrarianKnowledge, selectContext } from '@/lib/librarian';
+import { buildAnswerContext, buildSystemInstruction } from '@/lib/answerPrompt';
+import { createGuardedStream, guardAnswer } from '@/lib/safetyGuard';
+import { isValidSessionId, SessionMessage } from '@/lib/sessions';
+import {
+    deriveConversationState,
+    formatConversationState,
+    summarizeConversation,
+    unsummarizedMessages,
+    updateConversationFacts,
+} from '@/lib/conversationState';
+import { getSessionStore } from '@/lib/sessionStore';
+import { isLeadOwner } from '@/lib/leads';
+import { getLeadStore } from '@/lib/leadStore';
+import { emptyContact } from '@/lib/orderRequests';
+import { AnswerSource, mergeSources, toolResultSources } from '@/lib/sources';
+import { AnswerCard, mergeCards, mixingCheckCards, packSizeCards, safetyCard, toolResultCards } from '@/lib/answerCards';
+import { isSafetyQuestion } from '@/lib/safetyDataSheet';
+import { currentCatalogVersion, loadCatalog } from '@/lib/catalogStore';
+import { debugLog } from '@/lib/debugLog';
 
-const PDFParser = require("pdf2json");
 const fs = require('fs');
 const path = require('path');
 
-// Initialize Cache (5 minute TTL for GCS metadata)
-// This prevents redundant GCS calls for every chat message
-const cache = new LRUCache<string, any>({
-    max: 10,
-    ttl: 1000 * 60 * 5,
-});
 
 const MAX_MESSAGE_LENGTH = 1000;
+// Sent instead of an empty answer (tool loop out of rounds, empty model reply)
+const EMPTY_ANSWER_FALLBACK = "I'm sorry, I couldn't put an answer together just now. Please try asking again, or call our team at 406.727.4144.";
 const MAX_HISTORY_ITEMS = 12;
 const MAX_HISTORY_CONTENT_LENGTH = 6000;
-const RATE_LIMIT_WINDOW_MS = 60_000;
-const RATE_LIMIT_MAX_REQUESTS = 30;
-
-type RateLimitEntry = { count: number; expiresAt: number };
-const requestRateLimit = new LRUCache<string, RateLimitEntry>({
-    max: 500,
-    ttl: RATE_LIMIT_WINDOW_MS,
-});
-
-const getClientIp = (req: NextRequest) => {
-    const forwardedFor = req.headers.get('x-forwarded-for');
-    return forwardedFor?.split(',')[0].trim() || 'unknown';
-};
-
-const isRateLimited = (clientIp: string) => {
-    const now = Date.now();
-    const entry = requestRateLimit.get(clientIp);
-
-    if (!entry || entry.expiresAt <= now) {
-        requestRateLimit.set(clientIp, { count: 1, expiresAt: now + RATE_LIMIT_WINDOW_MS });
-        return false;
-    }
-
-    if (entry.count >= RATE_LIMIT_MAX_REQUESTS) {
-        return true;
+const isRateLimited = createRateLimiter(CHAT_RATE_LIMIT);
+
+// Events written (one JSON object per line) when the client requests `stream: true`.
+// Errors keep the same `code` values as the JSON error responses.
+type StreamEvent =
+    | { type: 'chunk'; text: string }
+    // The safety guard changed the answer after it streamed; the client swaps in this text
+    | { type: 'replace'; text: string }
+    // `sources` lists the documents and data files behind the answer; `cards` are structured results (dilution, SDS safety, DO NOT MIX)
+    | { type: 'done'; sources: AnswerSource[]; cards: AnswerCard[] }
+    | { type: 'error'; error: string; code: string; details?: string };
+
+// Provider rate limits and timeouts keep their own codes so the widget can say "try again shortly";
+// anything else is reported as an internal error without its details
+const chatFailure = (error: unknown) => {
+    switch (classifyLLMError(error)) {
+        case 'RATE_LIMITED':
+            return { status: 429, body: { error: 'Too many requests', code: 'RATE_LIMITED', details: 'The AI provider is rate limiting requests' } };
+        case 'UPSTREAM_TIMEOUT':
+            return { status: 504, body: { error: 'Chat request timed out', code: 'UPSTREAM_TIMEOUT', details: 'The AI provider did not answer in time' } };
+        default:
+            return { status: 500, body: { error: 'Chat request failed', code: 'INTERNAL_ERROR', details: 'Unexpected server error' } };
     }
-
-    requestRateLimit.set(clientIp, { ...entry, count: entry.count + 1 });
-    return false;
 };
 
-const sanitizeHistory = (history: unknown) => {
-    if (!Array.isArray(history)) return [];
-
-    const trimmedHistory = history
-        .filter((msg) => typeof msg === 'object' && msg !== null)
-        .map((msg: any) => ({
+// Recent turns of the session's stored transcript, within the history budget
+const sanitizeHistory = (messages: SessionMessage[]): LLMMessage[] => {
+    const trimmedHistory = messages
+        .map((msg): LLMMessage => ({
             role: msg.role === 'user' ? 'user' : 'model', // Updated to match Gemini 'model' role
-            content: typeof msg.content === 'string' ? msg.content.slice(0, MAX_MESSAGE_LENGTH) : '',
+            content: msg.content.slice(0, MAX_MESSAGE_LENGTH),
         }))
         .filter((msg) => msg.content.length > 0)
         .slice(-MAX_HISTORY_ITEMS);
@@ -71,34 +85,81 @@ const sanitizeHistory = (history: unknown) => {
 };
 
 
-// Initialize GCS with flexible credential handling for deployment
-// Priority: Base64-encoded credentials (production) > File path (local development)
-const getGCSStorage = () => {
-    // For production: Use Base64-encoded service account JSON
-    if (process.env.GCS_CREDENTIALS_BASE64) {
-        const credentials = JSON.parse(
-            Buffer.from(process.env.GCS_CREDENTIALS_BASE64, 'base64').toString('utf-8')
-        );
-        return new Storage({ credentials });
-    }
-    // For local development: Use file path
-    if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
-        return new Storage({ keyFilename: process.env.GOOGLE_APPLICATION_CREDENTIALS });
+type ChatMetadata = LibrarianKnowledge & {
+    // Every object name, superseded versions included
+    fileNames: string[];
+    catalogVersion: number;
+    // Object name -> store version, the document cache key
+    documentVersions: Map<string, string>;
+};
+
+// Loads the bucket listing, librarian guide and the catalog (admin-edited, or the bundled files).
+// Used as the cache's fetchMethod, so after the TTL the previous value keeps being served
+// while this runs in the background instead of blocking the next chat request.
+const loadMetadata = async (): Promise<ChatMetadata> => {
+    debugLog("Fetching fresh document store metadata...");
+    const documentStore = getDocumentStore();
+    // Run store calls in parallel to save time
+    const [documents, guideContent, catalog] = await Promise.all([
+        documentStore.list(),
+        (async () => {
+            try {
+                const content = await documentStore.read('product_guide.txt');
+                return content ? content.toString() : "";
+            } catch (err) {
+                console.warn('Failed to load product_guide.txt:', err);
+                return "";
+            }
+        })(),
+        loadCatalog(),
+    ]);
+
+    const metadata: ChatMetadata = {
+        // The librarian only sees the newest version of each document; superseded ones stay in fileNames for audits
+        fileList: latestDocumentNames(documents.map((d) => d.name)).join('\n'),
+        fileNames: documents.map((d) => d.name),
+        productGuide: guideContent,
+        useCases: JSON.stringify(catalog.data.useCases, null, 4),
+        productMetadata: catalog.data.products,
+        catalogVersion: catalog.version,
+        productIndex: buildProductIndex(catalog.data.products, documents.map((d) => d.name)),
+        documentVersions: new Map<string, string>(documents.map((d) => [d.name, d.version]))
+    };
+
+    // Local fallback for product guide if the store has none
+    if (!metadata.productGuide) {
+        try {
+            const localPath = path.join(process.cwd(), 'product_guide_harvested.txt');
+            if (fs.existsSync(localPath)) {
+                metadata.productGuide = fs.readFileSync(localPath, 'utf-8');
+                debugLog("Using local product_guide_fallback (harvested).");
+            }
+        } catch (e) {
+            console.warn("Local guide fallback failed:", e);
+        }
     }
-    // Fallback: Use default application credentials (GCE, Cloud Run, etc.)
-    return new Storage();
+
+    debugLog(`Metadata loaded. Guide length: ${metadata.productGuide?.length || 0}. Use Cases: ${catalog.data.useCases.length}. Catalog version: ${catalog.version}`);
+    return metadata;
 };
-const storage = getGCSStorage();
-const bucketName = process.env.GCS_BUCKET_NAME || 'united-formulas-files';
 
-// Initialize Gemini
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY || '');
-// gemini-2.0-flash is significantly faster than previous versions
-const modelFlash = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
+// Initialize Cache (5 minute TTL for GCS metadata)
+// This prevents redundant GCS calls for every chat message
+const cache = new LRUCache<string, ChatMetadata>({
+    max: 10,
+    ttl: 1000 * 60 * 5,
+    allowStale: true,
+    allowStaleOnFetchRejection: true,
+    fetchMethod: loadMetadata,
+});
+
+// Parsed documents keyed by object name + version, so repeat questions skip the download and PDF parse
+const documentCache = createDocumentCacheFromEnv();
 
 export async function POST(req: NextRequest) {
     try {
-        if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
+        const llm = getLLMProvider();
+        if (!llm) {
             return NextResponse.json(
                 { error: 'Service temporarily unavailable', code: 'CONFIGURATION_ERROR' },
                 { status: 503 }
@@ -115,7 +176,8 @@ export async function POST(req: NextRequest) {
 
         const body = await req.json();
         const message = typeof body?.message === 'string' ? body.message.trim() : '';
-        const history = sanitizeHistory(body?.history);
+        const sessionId = body?.sessionId;
+        const receivedAt = new Date().toISOString();
 
         // Input validation (fail fast)
         if (!message) {
@@ -136,361 +198,192 @@ export async function POST(req: NextRequest) {
             );
         }
 
-
-        // 1. Get Metadata (Cached)
-        let metadata = cache.get('gcs_metadata');
-        if (!metadata) {
-            console.log("Fetching fresh GCS metadata...");
-            // Run GCS calls in parallel to save time
-            const [filesRepo, guideContent, zipcodesContent, useCasesContent, productMetadataContent] = await Promise.all([
-                storage.bucket(bucketName).getFiles(),
-                (async () => {
-                    try {
-                        const file = storage.bucket(bucketName).file('product_guide.txt');
-                        const [exists] = await file.exists();
-                        if (!exists) return "";
-                        const [content] = await file.download();
-                        return content.toString();
-                    } catch (err) {
-                        console.warn('Failed to load product_guide.txt:', err);
-                        return "";
-                    }
-                })(),
-                (async () => {
-                    try {
-                        const file = storage.bucket(bucketName).file('delivery_zipcodes.json');
-                        const [exists] = await file.exists();
-                        if (!exists) return "";
-                        const [content] = await file.download();
-                        return content.toString();
-                    } catch (err) {
-                        console.warn('Failed to load delivery_zipcodes.json:', err);
-                        return "";
-                    }
-                })(),
-                (async () => {
-                    try {
-                        const localPath = path.join(process.cwd(), 'src/data/use_cases.json');
-                        if (fs.existsSync(localPath)) {
-                            return fs.readFileSync(localPath, 'utf-8');
-                        }
-                        return "[]";
-                    } catch (err) {
-                        console.warn('Failed to load use_cases.json:', err);
-                        return "[]";
-                    }
-                })(),
-                (async () => {
-                    try {
-                        const metadataPath = path.join(process.cwd(), 'src/data/product_metadata.json');
-                        if (fs.existsSync(metadataPath)) {
-                            return JSON.parse(fs.readFileSync(metadataPath, 'utf8'));
-                        }
-                        return {};
-                    } catch (err) {
-                        console.error("Error loading product metadata:", err);
-                        return {};
-                    }
-                })()
-            ]);
-
-            metadata = {
-                fileList: filesRepo[0].map((f: any) => f.name).join('\n'),
-                files: filesRepo[0],
-                productGuide: guideContent,
-                zipcodes: zipcodesContent,
-                useCases: useCasesContent,
-                productMetadata: productMetadataContent
-            };
-
-            // Local fallback for product guide if GCS is empty
-            if (!metadata.productGuide) {
-                try {
-                    const localPath = path.join(process.cwd(), 'product_guide_harvested.txt');
-                    if (fs.existsSync(localPath)) {
-                        metadata.productGuide = fs.readFileSync(localPath, 'utf-8');
-                        console.log("Using local product_guide_fallback (harvested).");
-                    }
-                } catch (e) {
-                    console.warn("Local guide fallback failed:", e);
-                }
-            }
-
-            console.log(`Metadata loaded. Guide length: ${metadata.productGuide?.length || 0}. Use Cases: ${JSON.parse(metadata.useCases || "[]").length}`);
-            cache.set('gcs_metadata', metadata);
-        }
-
-        const { fileList, files, productGuide, zipcodes, useCases, productMetadata } = metadata;
-        const premiumKeys = Object.keys(productMetadata).join(', ');
-
-        // 2. Step 1: Identify Relevant File
-        const recentHistory = history.slice(-6).map((h: any) => `${h.role}: ${h.content}`).join('\n');
-        const selectionPrompt = `
-      You are the "Master Librarian" for United Formulas. 
-      Your job is to pick the BEST file or knowledge source to answer the user's question.
-
-      RECENT CONTEXT:
-      ${recentHistory}
-
-      USER QUESTION: "${message}"
-
-      PREMIUM PRODUCTS (Use these names if mentioned):
-      ${premiumKeys}
-
-      PRODUCT GUIDE (MAPPING names to technical files):
-      ${productGuide}
-
-      DIRECT USE-CASE SOLUTIONS:
-      ${useCases}
-
-      AVAILABLE FILES:
-      ${fileList}
-
-      SELECTION RULES:
-      1. DELIVERY/ORDERING: If the user asks about delivery, ordering, shipping, or receiving more of a product (even if misspelled like "delever"), RETURN "DELIVERY".
-      2. USE-CASE MATCH: If the user describes a problem (e.g. "wine stains", "grease"), check DIRECT USE-CASE SOLUTIONS. If a match is found, RETURN "USECARE".
-      3. SEARCH & TYPOS: If the user is searching for a category, chemical, or use-case, RETURN "GUIDE".
-      4. DIRECT MATCH: If a product name is mentioned (e.g. "Nugget Car Wash", "Ace", "Delta Green"), pick its grounding file.
-      5. PRONOUNS: Resolve "it", "this", "that" to the previous context.
-      6. CLARIFY: Only return "CLARIFY" if they ask a technical/safety question ("Is it toxic?") but no product name has been mentioned yet.
-      7. RETURN ONLY THE FILENAME or "USECARE" or "GUIDE" or "DELIVERY" or "CLARIFY" or "NONE" or "GENERAL".
-
-      CRITICAL: If the user is asking for a recommendation (e.g. "what do you recommend for...", "I need a good...", "how do I clean..."), ALWAYS RETURN "GUIDE". Do NOT return "CLARIFY" for recommendation or general help requests.
-    `;
-
-        // Safety Catch-all for Category Searches (Fuzzy Support)
-        const qLower = message.toLowerCase();
-        const categoryKeywords = ['wash', 'cleaner', 'clner', 'wassh', 'soap', 'detergent', 'degreas', 'acid', 'caustic', 'sanitiz', 'disinfect', 'mop', 'wax', 'polish', 'dish', 'stain', 'remove', 'solution', 'floor', 'gym'];
-        const isLikelySearch = categoryKeywords.some(k => qLower.includes(k));
-
-        let selectedFile = "";
-        const selectionResult = await modelFlash.generateContent(selectionPrompt);
-        selectedFile = selectionResult.response.text().trim();
-
-        // If Gemini didn't pick something specific but it's a general keyword search, fallback to GUIDE
-        if (isLikelySearch && !['USECARE', 'DELIVERY', 'CLARIFY'].includes(selectedFile.toUpperCase())) {
-            console.log("Category keyword detected and no specific match, focusing on GUIDE.");
-            selectedFile = "GUIDE";
+        if (!isValidSessionId(sessionId)) {
+            return NextResponse.json(
+                { error: 'Invalid request', code: 'VALIDATION_ERROR', details: 'sessionId is required (create one with POST /api/sessions)' },
+                { status: 400 }
+            );
         }
 
-        // Robust cleanup: find the FIRST occurrence of a valid keyword
-        const keywords = ['USECARE', 'GUIDE', 'DELIVERY', 'CLARIFY', 'NONE', 'GENERAL'];
-        const upperSelected = selectedFile.toUpperCase();
-        for (const kw of keywords) {
-            if (upperSelected.includes(kw)) {
-                selectedFile = kw;
-                break;
-            }
+        // The server's transcript is the history, so clients can't forge earlier turns
+        const sessionStore = getSessionStore();
+        const session = await sessionStore.get(sessionId);
+        if (!session) {
+            return NextResponse.json(
+                { error: 'Session not found', code: 'NOT_FOUND', details: 'The session has expired or does not exist' },
+                { status: 404 }
+            );
         }
 
-        // Final fallback cleanup for filenames (remove markdown/quotes)
-        selectedFile = selectedFile.replace(/```(?:\w+)?/g, '').replace(/['"`]/g, '').split('\n')[0].trim();
-
-        // Final validation: Is it a keyword or a real file?
-        const isKnownKeyword = keywords.includes(selectedFile);
-        const isRealFile = fileList.includes(selectedFile);
 
-        if (!isKnownKeyword && !isRealFile) {
-            // If it's a long sentence, it's definitely not a match
-            if (selectedFile.length > 100 || selectedFile.includes(' ')) {
-                console.log(`Gemini was too chatty or missed: "${selectedFile}". Falling back to NONE.`);
-                selectedFile = isLikelySearch ? "GUIDE" : "NONE";
-            }
+        // 1. Get Metadata (Cached)
+        let metadata = await cache.fetch('gcs_metadata');
+        // A catalog saved since the cache was filled, on this or any other instance, is loaded now rather than after the TTL
+        const catalogVersion = await currentCatalogVersion();
+        if (metadata && catalogVersion !== null && catalogVersion !== metadata.catalogVersion) {
+            cache.delete('gcs_metadata');
+            metadata = await cache.fetch('gcs_metadata');
         }
-
-        console.log(`Final Selected Context: ${selectedFile}`);
-
-        let contextData = "No specific technical record found. Answer based on general knowledge or ask for clarification if a product is needed.";
-
-        // 3. Step 2: Retrieve & Parse Content
-        if (selectedFile === 'CLARIFY') {
-            contextData = "STATUS: NO PRODUCT NAMED. You MUST ask which product they are referring to before providing safety or technical details. Do not guess the product.";
-        } else if (selectedFile === 'USECARE') {
-            contextData = `STATUS: PROBLEM SOLVED. Use Case Mappings:\n${useCases}\n\nProvide the specific solution listed for the matching problem. Acknowledge the problem directly.`;
-        } else if (selectedFile === 'GUIDE') {
-            contextData = `STATUS: CATALOG_SEARCH. FULL PRODUCT CATALOG & MAPPING GUIDE:\n${productGuide}`;
-        } else if (selectedFile === 'DELIVERY') {
-            let parsedZips: any[] = [];
+        if (!metadata) throw new Error('Document store metadata could not be loaded');
+
+        const { fileList, fileNames, productGuide, useCases, productMetadata, productIndex, documentVersions } = metadata;
+
+        // Conversation state: summary of older turns plus facts (product, sizes, ZIP, name) from every user message.
+        // Only the turns not yet summarized are sent verbatim.
+        const transcript = session.messages;
+        const previousState = session.state || deriveConversationState(transcript, productIndex);
+        const state = updateConversationFacts(previousState, message, productIndex);
+        const history = sanitizeHistory(unsummarizedMessages(transcript, state));
+        const conversationState = formatConversationState(state);
+
+        // Records the user's message, the guarded answer and the updated facts; a failed write doesn't fail the answer
+        const saveTurn = async (answer: string, sources: AnswerSource[], cards: AnswerCard[]) => {
+            const turn: SessionMessage[] = [
+                { role: 'user', content: message, createdAt: receivedAt },
+                { role: 'assistant', content: answer, createdAt: new Date().toISOString(), sources, cards },
+            ];
             try {
-                parsedZips = zipcodes ? JSON.parse(zipcodes) : [];
+                await sessionStore.append(session.id, turn, state);
             } catch (err) {
-                console.error('Failed to parse zipcodes JSON:', err);
-            }
-            const zipList = parsedZips.map((z: any) => `${z.zip}: ${z.city} (${z.county})`).join('\n');
-            contextData = `DELIVERY & SHIPPING CONTEXT:
-            VALID DELIVERY LOCATIONS:
-            ${zipList || "No specific zipcode data found."}
-
-            GENERAL POLICY: We aim to ship all orders the next day. Local delivery is standard same/next day. Our main routes cover Great Falls and Billings regions.`;
-        } else if (selectedFile === 'NONE') {
-            // Safe findLast alternative for broader runtime compatibility
-            const reversedHistory = [...history].reverse();
-            const lastUserMsg = reversedHistory.find((msg: any) => msg.role === 'user')?.content || "";
-            contextData = `STATUS: UNKNOWN PRODUCT. The user mentioned "${lastUserMsg}", but we do not have a technical record for it. Acknowledge this name specifically and offer general guidance.`;
-        } else if (selectedFile === 'GENERAL') {
-            contextData = `STATUS: OUT OF SCOPE. The user's question is unrelated to chemistry, products, or delivery. Politely acknowledge that as a chemical safety assistant, you don't have access to that information, but offer to help with anything related to United Formulas.`;
-        } else if (selectedFile !== 'NONE' && selectedFile !== 'GENERAL' && selectedFile.length > 0) {
-            contextData = `STATUS: PRODUCT IDENTIFIED.`;
-
-            // Use the already-loaded productMetadata from cache
-            let premiumMatch: any = null;
-            // Improved Slug Logic:
-            // 1. Clean up file extensions and prefixes
-            // 2. Normalize spaces to hyphens for matching
-            // 3. Handle cases where the filename is "Delta Green" (spaces) vs "delta-green" (hyphens)
-            const cleanName = selectedFile.split('/').pop()?.replace(/grounding__|sku_master__|.txt|.pdf/g, '') || "";
-            // Normalize underscores to hyphens for matching with metadata keys
-            const fileKey = cleanName.toLowerCase().replace(/_/g, '-').split('__')[0].trim().replace(/\s+/g, '-');
-
-            console.log(`Searching metadata for slug: ${fileKey} (from file: ${selectedFile})`);
-
-            for (const [key, details] of Object.entries(productMetadata) as [string, any]) {
-                const normalizedKey = key.toLowerCase().replace(/_/g, '-');
-
-                // Direct match OR Variant match OR Partial match
-                if (normalizedKey === fileKey ||
-                    (details.variants && details.variants.some((v: string) => v.toLowerCase().replace(/_/g, '-') === fileKey)) ||
-                    fileKey.startsWith(normalizedKey) ||
-                    normalizedKey.startsWith(fileKey)
-                ) {
-                    premiumMatch = details;
-                    console.log(`Match found: ${key}`);
-                    break;
-                }
+                console.error(`Failed to save turn for session ${session.id}:`, err);
             }
+        };
 
-            let technicalRecord = "";
+        // Folding older turns into the summary is a second model call, so it runs once the answer has been sent.
+        // It works from the stored session; if it fails, the next turn tries again.
+        after(async () => {
             try {
-                const fileRecord = files.find((f: any) => f.name === selectedFile);
-                if (fileRecord) {
-                    const [fileBuffer] = await storage.bucket(bucketName).file(selectedFile).download();
-
-                    if (selectedFile.toLowerCase().endsWith('.pdf')) {
-                        const pdfParser = new PDFParser(null, 1);
-                        const pdfText: string = await new Promise((resolve, reject) => {
-                            pdfParser.on("pdfParser_dataError", (errData: any) => reject(errData.parserError));
-                            pdfParser.on("pdfParser_dataReady", () => resolve(pdfParser.getRawTextContent()));
-                            pdfParser.parseBuffer(fileBuffer);
-                        });
-                        technicalRecord = pdfText.slice(0, 30000);
-                    } else {
-                        technicalRecord = fileBuffer.toString();
-                    }
-                }
+                const saved = await sessionStore.get(session.id);
+                if (!saved?.state) return;
+                const nextState = await summarizeConversation(saved.state, saved.messages, llm);
+                if (nextState === saved.state) return;
+                // A turn saved meanwhile carries newer facts; leave the summary to the next turn
+                const latest = await sessionStore.get(session.id);
+                if (latest?.updatedAt === saved.updatedAt) await sessionStore.append(session.id, [], nextState);
             } catch (err) {
-                console.error("Error reading file:", err);
-                technicalRecord = "Technical record could not be loaded.";
+                console.error(`Failed to summarize session ${session.id}:`, err);
             }
+        });
 
-            // Extract variants/sizes for context
-            const variantList = premiumMatch?.variants ? premiumMatch.variants.join(', ') : "No specific size info in metadata.";
-
-            contextData = `STATUS: PRODUCT IDENTIFIED.
-            
-            PREMIUM BRANDED DATA (MANDATORY FOR OVERVIEW):
-            - Product Name: ${premiumMatch?.displayName || selectedFile}
-            - Category: ${premiumMatch?.category || "Industrial Cleaner"}
-            - SDS Link: https://storage.googleapis.com/${bucketName}/${encodeURIComponent(selectedFile)}
-            - Official Description: ${premiumMatch?.canonicalDescription || "I am currently retrieving the full branded details for this product. See the technical safety data below for immediate guidance."}
-            - VARIANTS / SIZES: ${variantList} (If user asks about sizes, LIST THESE EXACTLY)
-            
-            TECHNICAL RECORD (SDS/TECHNICAL DATA):
-            ${technicalRecord}`;
-        }
+        const knowledge: LibrarianKnowledge = { fileList, productGuide, useCases, productMetadata, productIndex };
+        const parsedUseCases: UseCase[] = JSON.parse(useCases || "[]");
+        const loadDocument = (name: string) => documentCache.get(name, documentVersions.get(name) || '0:', downloadDocumentText);
+        const deliveryZones = await getDeliveryZones();
 
-        // 4. Step 3: Generate Answer
-        const systemInstruction = `
-      GOVERNING CONSTITUTION:
-      Your primary responsibility is safety, accuracy, and integrity — not speed, confidence, or conversion.
-      You are Dr. Aris, the friendly, professional, and safety-obsessed lead chemical expert for United Formulas.
-
-      ────────────────────────────────
-      SOURCE OF TRUTH HIERARCHY
-      ────────────────────────────────
-      1. PREMIUM BRANDED DATA (Use Official Description verbatim for "What is this?" questions)
-      2. Product technical records (SDS/Labels)
-      3. Company policy
-      4. This governance framework
-
-      ────────────────────────────────
-      OPERATIONAL CLARIFICATION RULES:
-      ────────────────────────────────
-      1. FIRST AID & MEDICAL DISCLAIMER (STRICT): If (and ONLY IF) the user explicitly asks about first aid, exposure, or medical treatment, you MUST start your response with this EXACT sentence: "I am not a medical provider and cannot give medical advice, but here are the first aid instructions directly from our Safety Data Sheet (SDS) for this chemical:"
-         - Follow this immediately with the relevant first aid sections (e.g., EYE CONTACT, SKIN CONTACT) from the technical data.
-         - You MUST include a link to the SDS sheet (provided in the SDS Link below) at the very bottom of your response, formatted as: "[View Official SDS Sheet](URL)"
-      2. PROHIBITION: Do NOT include first aid instructions, medical disclaimers, or any "NOTE: In a medical emergency..." text unless specifically requested for safety guidance. Do not repeat the 911 emergency note in general conversation.
-      3. GENERAL PRODUCT INFO: If asked "Tell me about [Product]", provide a concise, one-sentence high-level overview.
-      4. DIRECTNESS: Provide technical answers immediately. Do NOT ask "Are you referring to..." if they named the product.
-      5. STATUS: CATALOG_SEARCH:
-         - The user is asking for a recommendation or searching for a solution.
-         - PROACTIVE STEP: Scan the provided CATALOG & MAPPING GUIDE for 2-3 specific products that match their needs and SUGGEST THEM IMMEDIATELY.
-         - CONSULTATIVE STEP: After suggesting potential products, ask 1-2 follow-up questions to refine the choice (e.g. surface type, environment).
-         - EXAMPLE: "For a disinfectant, I recommend looking at **Bio-Maxx** or **Multi-Chlor**. To give you the best advice, what specific surfaces are you cleaning?"
-      6. STATUS: NO PRODUCT NAMED: 
-         - If the user is asking a technical, safety, or first-aid question that requires specific SDS data but hasn't named a product, politely ask: "Which United Formulas product are you using or considering?" so you can provide the correct safety information.
-      7. STATUS: PRODUCT IDENTIFIED (TECHNICAL): Use the retrieved technical data to provide professional, precise guidance.
-
-      ────────────────────────────────
-1. CONTACT & SUPPORT (MANDATORY): If the user asks for contact info, a representative, how to order, or where to find more help:
-         - **Phone**: 406.727.4144 (Available Mon-Fri, 8am-5pm MT)
-         - **Email**: sales@unitedformulas.com
-         - **Address**: PO BOX 2589, Great Falls, MT 59403
-         - ALWAYS provide these details directly. Do NOT say "I don't have this information."
-
-      ────────────────────────────────
-      DELIVERY & LOGISTICS:
-      ────────────────────────────────
-      - If the user asks for delivery, shipping, or "more" of a product:
-        1. Ask for their City or Zip Code if you don't have it.
-        2. Check the provided ZIPCODES list.
-        3. IF FOUND: Confirm we deliver there and suggest contacting the local rep at 406.727.4144 or sales@unitedformulas.com to place an order.
-        4. IF NOT FOUND: Politely state we may not deliver directly there but to check with our team at 406.727.4144.
-
-      ────────────────────────────────
-      LEAD GENERATION & ETIQUETTE:
-      ────────────────────────────────
-      1. NAME CAPTURE (AFTER 2-3 MESSAGES): If the user has not introduced themselves, politely ask for their name. (e.g. "By the way, I'd love to know who I'm speaking with. May I ask your name?")
-      2. EMAIL & CATALOGUE OFFER: Subsequent to name capture, or after 4-5 messages total, offer to send our "Complete Product Catalogue." Ask for their email address to send it. (e.g. "I'd love to send you our full product catalogue for your records. What is the best email address to send that to?")
-      3. ADDRESSING THE USER: Use their name naturally in responses ONLY if they have explicitly provided it in the chat history.
-      4. STRICT PROHIBITION: NEVER guess, assume, or invent a name. You must only use a name if the user has explicitly stated it to you in THIS conversation.
-
-      RETRIEVED DATA FOR YOUR USE (DO NOT MENTION SOURCE):
-      ${contextData}
-
-      CURRENT CONVERSATION LENGTH: ${history.length} messages.
-    `;
-
-        // Initialize model with system instruction
-        const chatModel = genAI.getGenerativeModel({
-            model: 'gemini-2.0-flash',
-            systemInstruction: systemInstruction
-        });
+        // 2. Step 1: Identify Relevant File
+        const selection = await selectContext(message, history, knowledge, llm, state);
+        debugLog(`Final Selected Context: ${selection.selectedFile}`);
 
-        const mappedHistory = history.map((msg: any) => ({
-            role: msg.role === 'user' ? 'user' : 'model',
-            parts: [{ text: msg.content }],
-        }));
+        // 3. Step 2: Retrieve & Parse Content
+        const { contextData, sdsUrl, sdsText, safetyDataSheet, sources: contextSources, mixingCheck, packSizeCheck } = await buildAnswerContext({
+            selection,
+            message,
+            history,
+            knowledge,
+            fileNames,
+            deliveryZones,
+            loadDocument,
+        });
 
-        // Clean up history for API compatibility
-        while (mappedHistory.length > 0 && mappedHistory[0].role === 'model') {
-            mappedHistory.shift();
+        // 4. Step 3: Generate Answer, with the lookup tools the model may call mid-turn
+        const systemInstruction = buildSystemInstruction(contextData, transcript.length, conversationState);
+        const toolContext: ChatToolContext = {
+            productIndex,
+            productMetadata,
+            useCases: parsedUseCases,
+            deliveryZones,
+            loadDocument,
+            // Order requests are prefilled with the lead this chat started, else the name from the conversation
+            getContact: async () => {
+                const found = await getLeadStore().findBySession(sessionId).catch((err) => {
+                    console.error(`Lead lookup failed for session ${sessionId}:`, err);
+                    return null;
+                });
+                const lead = found && isLeadOwner(found, sessionId) ? found : null;
+                return { ...emptyContact(), name: lead?.name || state.name, email: lead?.email || null };
+            },
+        };
+        // Sources: the retrieved context plus whatever the model looked up with tools.
+        // Tool cards come from the final attempt only, so a regenerated answer doesn't show the first attempt's results.
+        const collectedSources = [...contextSources];
+        const answerSources = () => mergeSources(collectedSources);
+        const contextCards = [...mixingCheckCards(mixingCheck), ...packSizeCards(packSizeCheck)];
+        if (safetyDataSheet && isSafetyQuestion(message)) {
+            const product = selection.resolvedProduct?.displayName || safetyDataSheet.productName || 'Product';
+            contextCards.push(safetyCard(product, safetyDataSheet, sdsUrl));
         }
-
-        const chat = chatModel.startChat({
-            history: mappedHistory,
+        let cards: AnswerCard[] = contextCards;
+        const runTurn = (instruction: string, onText: (text: string) => void) => {
+            cards = [...contextCards];
+            return runChatTurn(
+                llm.chat({ systemInstruction: instruction, history, tools: CHAT_TOOL_DECLARATIONS }),
+                message,
+                toolContext,
+                onText,
+                (name, result) => {
+                    collectedSources.push(...toolResultSources(name, result));
+                    cards = mergeCards([...cards, ...toolResultCards(name, result)]);
+                }
+            );
+        };
+
+        // 5. Step 4: Safety guard (disclaimer, SDS link, SDS grounding, unsolicited medical text)
+        const guard = (answer: string) => guardAnswer(answer, {
+            message,
+            firstAid: state.firstAid,
+            clarifying: selection.selectedFile === 'CLARIFY',
+            sdsUrl,
+            sdsText,
+        }, async (correction) => {
+            let retried = '';
+            await runTurn(`${systemInstruction}\n      CORRECTION: ${correction}`, (text) => { retried += text; });
+            return retried;
         });
 
-        const result = await chat.sendMessage(message);
-        const responseText = result.response.text();
+        // Streaming mode: emit NDJSON events as tokens arrive so the widget can render partial markdown
+        if (body?.stream === true) {
+            const encoder = new TextEncoder();
+            const stream = new ReadableStream({
+                async start(controller) {
+                    const send = (event: StreamEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+                    try {
+                        // Exposure answers are buffered until the guard has checked them; see createGuardedStream
+                        const streamed = createGuardedStream(Boolean(state.firstAid), (text) => send({ type: 'chunk', text }));
+                        await runTurn(systemInstruction, (text) => streamed.push(text));
+                        const guarded = await guard(streamed.text);
+                        const answer = guarded.text.trim() ? guarded.text : EMPTY_ANSWER_FALLBACK;
+                        if (!streamed.finish(answer)) send({ type: 'replace', text: answer });
+                        await saveTurn(answer, answerSources(), cards);
+                        send({ type: 'done', sources: answerSources(), cards });
+                    } catch (error) {
+                        console.error('Error in Chat API stream:', error);
+                        send({ type: 'error', ...chatFailure(error).body });
+                    } finally {
+                        controller.close();
+                    }
+                },
+            });
+
+            return new Response(stream, {
+                headers: {
+                    'Content-Type': 'application/x-ndjson; charset=utf-8',
+                    'Cache-Control': 'no-cache, no-transform',
+                },
+            });
+        }
+
+        let responseText = '';
+        await runTurn(systemInstruction, (text) => { responseText += text; });
+        const guarded = await guard(responseText);
+        const answer = guarded.text.trim() ? guarded.text : EMPTY_ANSWER_FALLBACK;
+        await saveTurn(answer, answerSources(), cards);
 
-        return NextResponse.json({ response: responseText });
+        return NextResponse.json({ response: answer, sources: answerSources(), cards });
 
-    } catch (error: any) {
+    } catch (error) {
         console.error('Error in Chat API:', error);
-        return NextResponse.json(
-            { error: 'Chat request failed', code: 'INTERNAL_ERROR', details: 'Unexpected server error' },
-            { status: 500 }
-        );
+        const { status, body } = chatFailure(error);
+        return NextResponse.json(body, { status });
     }
 
 }
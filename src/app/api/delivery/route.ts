@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DeliveryLookup, findDeliveryLocation, getDeliveryZones, lookupZip } from '@/lib/delivery';
+
+// GET /api/delivery?zip=59401 (or ?city=Billings)
+export async function GET(req: NextRequest) {
+    try {
+        const zip = req.nextUrl.searchParams.get('zip')?.trim() || '';
+        const city = req.nextUrl.searchParams.get('city')?.trim() || '';
+
+        if (!zip && !city) {
+            return NextResponse.json(
+                { error: 'Invalid request', code: 'VALIDATION_ERROR', details: 'zip or city is required' },
+                { status: 400 }
+            );
+        }
+
+        if (zip && !/^\d{5}$/.test(zip)) {
+            return NextResponse.json(
+                { error: 'Invalid request', code: 'VALIDATION_ERROR', details: 'zip must be a 5-digit ZIP code' },
+                { status: 400 }
+            );
+        }
+
+        const zones = await getDeliveryZones();
+        let lookup: DeliveryLookup = zip ? lookupZip(zip, zones) : findDeliveryLocation([city], zones);
+        if (lookup.status === 'unknown') {
+            // A city we don't recognise is reported as outside the delivery area
+            lookup = { status: 'not_covered', city };
+        }
+
+        return NextResponse.json({ delivery: lookup });
+    } catch (error: any) {
+        console.error('Error in Delivery API:', error);
+        return NextResponse.json(
+            { error: 'Delivery lookup failed', code: 'INTERNAL_ERROR', details: 'Unexpected server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentStore } from '@/lib/documentStore';
+
+const CONTENT_TYPES: Record<string, string> = {
+    txt: 'text/plain; charset=utf-8',
+    md: 'text/plain; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+    pdf: 'application/pdf',
+};
+
+const documentNotFound = () => NextResponse.json(
+    { error: 'Document not found', code: 'NOT_FOUND', details: 'No document at that path' },
+    { status: 404 }
+);
+
+// GET /api/docs/<object name> serves a document from the local document store (DOCUMENT_STORE=local),
+// so SDS links in answers resolve offline. With GCS, links point at the bucket and this route 404s.
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+    try {
+        const store = getDocumentStore();
+        if (store.kind !== 'local') return documentNotFound();
+
+        const name = (await params).path.join('/');
+        const content = await store.read(name);
+        if (!content) return documentNotFound();
+
+        const extension = name.split('.').pop()?.toLowerCase() || '';
+        return new NextResponse(new Uint8Array(content), {
+            headers: {
+                'Content-Type': CONTENT_TYPES[extension] || 'application/octet-stream',
+                'Cache-Control': 'no-cache',
+            },
+        });
+    } catch (error: any) {
+        console.error('Error in Docs API:', error);
+        return NextResponse.json(
+            { error: 'Document could not be loaded', code: 'INTERNAL_ERROR', details: 'Unexpected server error' },
+            { status: 500 }
+        );
+    }
+}
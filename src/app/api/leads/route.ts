@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { extractLeadContext, parseLeadRequest, upsertLead } from '@/lib/leads';
+import { getLeadStore } from '@/lib/leadStore';
+import { buildProductIndex, ProductIndex } from '@/lib/productResolver';
+import type { SessionMessage } from '@/lib/sessions';
+import { getSessionStore } from '@/lib/sessionStore';
+import { loadCatalog } from '@/lib/catalogStore';
+import { debugLog } from '@/lib/debugLog';
+
+const MAX_HISTORY_ITEMS = 30;
+
+let productIndex: { version: number; index: ProductIndex } | null = null;
+
+// Products are matched against the catalog metadata; bucket file names aren't needed for lead context
+const getProductIndex = async () => {
+    const catalog = await loadCatalog();
+    if (productIndex?.version !== catalog.version) {
+        productIndex = { version: catalog.version, index: buildProductIndex(catalog.data.products) };
+    }
+    return productIndex.index;
+};
+
+// User messages from the session's stored transcript; the client's own copy is never trusted
+const userMessages = (messages: SessionMessage[]) =>
+    messages
+        .filter((msg) => msg.role === 'user')
+        .slice(-MAX_HISTORY_ITEMS)
+        .map((msg) => msg.content);
+
+// POST /api/leads { sessionId, name?, email?, consent?: { catalogueEmail } }
+export async function POST(req: NextRequest) {
+    try {
+        const body = await req.json().catch(() => null);
+        const parsed = parseLeadRequest(body);
+        if ('error' in parsed) {
+            return NextResponse.json(
+                { error: 'Invalid request', code: 'VALIDATION_ERROR', details: parsed.error },
+                { status: 400 }
+            );
+        }
+
+        const session = await getSessionStore().get(parsed.input.sessionId);
+        if (!session) {
+            return NextResponse.json(
+                { error: 'Session not found', code: 'NOT_FOUND', details: 'The session has expired or does not exist' },
+                { status: 404 }
+            );
+        }
+
+        const context = extractLeadContext(userMessages(session.messages), await getProductIndex());
+        const lead = await upsertLead(getLeadStore(), { ...parsed.input, ...context }, () => crypto.randomUUID());
+        debugLog(`Lead ${lead.id} saved for session ${parsed.input.sessionId}`);
+
+        // Only what the caller sent is echoed back
+        return NextResponse.json({
+            lead: {
+                name: parsed.input.name || null,
+                email: parsed.input.email || null,
+                consent: parsed.input.consent ? { catalogueEmail: parsed.input.consent.catalogueEmail } : null,
+            },
+        });
+    } catch (error: any) {
+        console.error('Error in Leads API:', error);
+        return NextResponse.json(
+            { error: 'Lead could not be saved', code: 'INTERNAL_ERROR', details: 'Unexpected server error' },
+            { status: 500 }
+        );
+    }
+}
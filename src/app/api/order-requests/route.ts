@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDeliveryZones } from '@/lib/delivery';
+import { isLeadOwner } from '@/lib/leads';
+import { getLeadStore } from '@/lib/leadStore';
+import { createOrderRequest, emptyContact, orderReference, parseOrderRequest } from '@/lib/orderRequests';
+import { getOrderRequestStore } from '@/lib/orderRequestStore';
+import { loadCatalog } from '@/lib/catalogStore';
+import { CHAT_RATE_LIMIT, createRateLimiter, getClientIp } from '@/lib/rateLimit';
+import { isValidSessionId } from '@/lib/sessions';
+import { getSessionStore } from '@/lib/sessionStore';
+
+const salesRecipients = () => (process.env.SALES_EMAIL || '').split(',').map((email) => email.trim()).filter(Boolean);
+
+// Submitting writes a store document, so it is limited like chat requests
+const isRateLimited = createRateLimiter(CHAT_RATE_LIMIT);
+
+// The lead captured in the chat fills in contact fields the request leaves out, but only a lead this session
+// started: a session attached to it through an unverified email doesn't get its details. A failed lookup doesn't fail the request
+const findOwnLead = async (sessionId: string) => {
+    try {
+        const lead = await getLeadStore().findBySession(sessionId);
+        return lead && isLeadOwner(lead, sessionId) ? lead : null;
+    } catch (err) {
+        console.error(`Lead lookup failed for session ${sessionId}:`, err);
+        return null;
+    }
+};
+
+// POST /api/order-requests { sessionId?, lines: [{ slug, sku, quantity }], zip, contact?: { name, email, phone, company }, notes? }
+export async function POST(req: NextRequest) {
+    try {
+        if (isRateLimited(getClientIp(req))) {
+            return NextResponse.json(
+                { error: 'Too many requests', code: 'RATE_LIMITED' },
+                { status: 429 }
+            );
+        }
+
+        const body = await req.json().catch(() => null);
+        const sessionId = isValidSessionId(body?.sessionId) ? body.sessionId : null;
+        if (sessionId && !(await getSessionStore().get(sessionId))) {
+            return NextResponse.json(
+                { error: 'Session not found', code: 'NOT_FOUND', details: 'The session has expired or does not exist' },
+                { status: 404 }
+            );
+        }
+        const lead = sessionId ? await findOwnLead(sessionId) : null;
+        const catalog = await loadCatalog();
+        const parsed = parseOrderRequest(
+            body,
+            catalog.data.products,
+            await getDeliveryZones(),
+            { ...emptyContact(), name: lead?.name || null, email: lead?.email || null }
+        );
+        if ('error' in parsed) {
+            return NextResponse.json(
+                { error: 'Invalid request', code: 'VALIDATION_ERROR', details: parsed.error },
+                { status: 400 }
+            );
+        }
+
+        const recipients = salesRecipients();
+        const orderRequest = createOrderRequest(parsed.input, { id: crypto.randomUUID(), leadId: lead?.id || null, recipients });
+        await getOrderRequestStore().save(orderRequest);
+        // The notification is stored with the request for the sales inbox to pick up
+        if (recipients.length === 0) console.warn(`Order request ${orderRequest.id} has no notification recipients; set SALES_EMAIL`);
+
+        const { id, status, lines, zip, delivery, createdAt } = orderRequest;
+        return NextResponse.json({ orderRequest: { id, reference: orderReference(id), status, lines, zip, delivery, createdAt } }, { status: 201 });
+    } catch (error) {
+        console.error('Error in Order Requests API:', error);
+        return NextResponse.json(
+            { error: 'Order request could not be saved', code: 'INTERNAL_ERROR', details: 'Unexpected server error' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isValidSessionId } from '@/lib/sessions';
+import { getSessionStore } from '@/lib/sessionStore';
+
+// GET /api/sessions/:id returns the session and its transcript
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const { id } = await params;
+        if (!isValidSessionId(id)) {
+            return NextResponse.json(
+                { error: 'Invalid request', code: 'VALIDATION_ERROR', details: 'id is not a valid session ID' },
+                { status: 400 }
+            );
+        }
+
+        const session = await getSessionStore().get(id);
+        if (!session) {
+            return NextResponse.json(
+                { error: 'Session not found', code: 'NOT_FOUND', details: 'The session has expired or does not exist' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ session });
+    } catch (error: any) {
+        console.error('Error in Sessions API:', error);
+        return NextResponse.json(
+            { error: 'Session could not be loaded', code: 'INTERNAL_ERROR', details: 'Unexpected server error' },
+            { status: 500 }
+        );
+    }
+}
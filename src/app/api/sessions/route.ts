@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CHAT_RATE_LIMIT, createRateLimiter, getClientIp } from '@/lib/rateLimit';
+import { getSessionStore } from '@/lib/sessionStore';
+
+// Every session is a store document, so creating them is limited like chat requests
+const isRateLimited = createRateLimiter(CHAT_RATE_LIMIT);
+
+// POST /api/sessions creates an empty chat session; turns are appended by POST /api/chat
+export async function POST(req: NextRequest) {
+    try {
+        if (isRateLimited(getClientIp(req))) {
+            return NextResponse.json(
+                { error: 'Too many requests', code: 'RATE_LIMITED' },
+                { status: 429 }
+            );
+        }
+
+        const session = await getSessionStore().create(crypto.randomUUID());
+        return NextResponse.json({ session }, { status: 201 });
+    } catch (error: any) {
+        console.error('Error in Sessions API:', error);
+        return NextResponse.json(
+            { error: 'Session could not be created', code: 'INTERNAL_ERROR', details: 'Unexpected server error' },
+            { status: 500 }
+        );
+    }
+}
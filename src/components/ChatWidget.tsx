@@ -4,20 +4,60 @@ import { useState, useRef, useEffect } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { Icon } from '@iconify/react';
 import ReactMarkdown from 'react-markdown';
-import { saveLead } from '@/lib/firebase';
+import remarkGfm from 'remark-gfm';
+import { CATALOGUE_CONSENT_WORDING } from '@/lib/leadConsent';
+import type { AnswerCard } from '@/lib/answerCards';
+import type { AnswerSource } from '@/lib/sources';
+import DilutionCalculatorCard from '@/components/DilutionCalculatorCard';
+import PackSizePickerCard from '@/components/PackSizePickerCard';
+import OrderRequestCard from '@/components/OrderRequestCard';
+import MixingHazardBanner from '@/components/MixingHazardBanner';
+import SafetyCard from '@/components/SafetyCard';
+
+// The session ID survives page reloads; the transcript itself lives on the server
+const SESSION_STORAGE_KEY = 'uf-chemist-session';
+
+const WELCOME_MESSAGE = "I am Dr. Aris. I'm here to help you get clear, safe answers about our products—and I'll slow things down if details really matter.";
+const EMPTY_ANSWER_MESSAGE = "I'm sorry, I couldn't put an answer together just now. Please try asking again, or call our team at 406.727.4144.";
+// Replies for the API's error `code`s; anything else gets the default
+const DEFAULT_CHAT_ERROR_MESSAGE = "Oops! Something went wrong on my end. Let's try that again.";
+const CHAT_ERROR_MESSAGES: Record<string, string> = {
+    RATE_LIMITED: "I'm getting a lot of questions right now. Please wait a minute and try again.",
+    UPSTREAM_TIMEOUT: "That took longer than it should have. Please try asking again.",
+    VALIDATION_ERROR: "I couldn't read that message. Please keep it under 1,000 characters and try again.",
+    NOT_FOUND: "Your chat session expired. Please send your message again.",
+    CONFIGURATION_ERROR: "I'm unavailable right now. Please try again later, or call our team at 406.727.4144.",
+};
+
+type ChatMessage = {
+    role: 'user' | 'assistant';
+    content: string;
+    timestamp: string;
+    // Documents behind an assistant answer; an empty list means general knowledge
+    sources?: AnswerSource[];
+    // Structured results: a dilution calculation, SDS safety data or a DO NOT MIX warning
+    cards?: AnswerCard[];
+};
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
 export default function ChatWidget() {
     const [isOpen, setIsOpen] = useState(false);
-    const [messages, setMessages] = useState<{ role: 'user' | 'assistant'; content: string; timestamp: string }[]>([
+    const [messages, setMessages] = useState<ChatMessage[]>([
         {
             role: 'assistant',
-            content: "I am Dr. Aris. I'm here to help you get clear, safe answers about our products—and I'll slow things down if details really matter.",
-            timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+            content: WELCOME_MESSAGE,
+            timestamp: formatTime(new Date())
         }
     ]);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
-    const [user, setUser] = useState<{ name: string; email: string } | null>(null);
+    const [user, setUser] = useState<{ name: string | null; email: string | null } | null>(null);
+    // Email waiting for the user's catalogue consent decision before it is sent to /api/leads
+    const [pendingEmail, setPendingEmail] = useState<string | null>(null);
+    // Source chip currently expanded, as `${messageIndex}:${sourceName}`
+    const [expandedSource, setExpandedSource] = useState<string | null>(null);
+    const sessionIdRef = useRef<string | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     
     const scrollToBottom = () => {
@@ -30,15 +70,87 @@ export default function ChatWidget() {
         }
     }, [messages, isOpen]);
 
+    // Restore the previous conversation after a page reload
+    useEffect(() => {
+        const storedId = localStorage.getItem(SESSION_STORAGE_KEY);
+        if (!storedId) return;
+
+        fetch(`/api/sessions/${encodeURIComponent(storedId)}`)
+            .then((response) => response.json())
+            .then((data) => {
+                if (!data.session) {
+                    localStorage.removeItem(SESSION_STORAGE_KEY);
+                    return;
+                }
+                sessionIdRef.current = data.session.id;
+                const restored = data.session.messages.map((m: { role: 'user' | 'assistant'; content: string; createdAt: string; sources?: AnswerSource[]; cards?: AnswerCard[] }) => ({
+                    role: m.role,
+                    content: m.content,
+                    timestamp: formatTime(new Date(m.createdAt)),
+                    sources: m.sources,
+                    cards: m.cards
+                }));
+                setMessages(prev => [prev[0], ...restored]);
+            })
+            .catch((error) => console.error('Session restore error:', error));
+    }, []);
+
+    const ensureSession = async () => {
+        if (sessionIdRef.current) return sessionIdRef.current;
+        const response = await fetch('/api/sessions', { method: 'POST' });
+        const data = await response.json();
+        if (data.error) throw new Error(data.details || data.error);
+        sessionIdRef.current = data.session.id as string;
+        localStorage.setItem(SESSION_STORAGE_KEY, data.session.id);
+        return data.session.id as string;
+    };
+
+    const resetSession = () => {
+        sessionIdRef.current = null;
+        localStorage.removeItem(SESSION_STORAGE_KEY);
+    };
+
     const clearChat = () => {
         setMessages([
             {
                 role: 'assistant',
-                content: "I am Dr. Aris. I'm here to help you get clear, safe answers about our products—and I'll slow things down if details really matter.",
-                timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+                content: WELCOME_MESSAGE,
+                timestamp: formatTime(new Date())
             }
         ]);
         setUser(null);
+        setPendingEmail(null);
+        resetSession();
+    };
+
+    // Non-blocking: the server validates, normalizes and upserts the lead for this session
+    const submitLead = async (lead: { name?: string; email?: string; consent?: { catalogueEmail: boolean } }) => {
+        try {
+            const requestLead = async () => fetch('/api/leads', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ sessionId: await ensureSession(), ...lead }),
+            });
+            let response = await requestLead();
+            // Leads attach to a stored session; after it expires, save this one on a new session
+            if (response.status === 404) {
+                resetSession();
+                response = await requestLead();
+            }
+            const data = await response.json();
+            if (data.error) throw new Error(data.details || data.error);
+            setUser(prev => ({ name: data.lead.name || prev?.name || null, email: data.lead.email || prev?.email || null }));
+        } catch (error) {
+            console.error('Lead capture error:', error);
+        }
+    };
+
+    const answerConsent = (catalogueEmail: boolean) => {
+        if (!pendingEmail) return;
+        submitLead({ email: pendingEmail, consent: { catalogueEmail } });
+        setPendingEmail(null);
     };
 
     const handleSubmit = async (e: React.FormEvent) => {
@@ -46,35 +158,22 @@ export default function ChatWidget() {
         if (!input.trim() || isLoading) return;
 
         const userMessage = input.trim();
-        const timestamp = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+        const timestamp = formatTime(new Date());
         setInput('');
         
         // --- Lead Capture Logic ---
         const lastAssistantMsg = messages[messages.length - 1]?.content.toLowerCase();
-        let updatedUser = { ...user } as { name: string; email: string };
-        let infoCaptured = false;
 
-        // Simple Lead Capture: Check if user provided email
+        // An email is only sent once the user has answered the catalogue consent prompt
         const emailRegex = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/;
         const emailMatch = userMessage.match(emailRegex);
-        if (emailMatch && (!user || user.email !== emailMatch[0])) {
-            updatedUser.email = emailMatch[0];
-            infoCaptured = true;
+        if (emailMatch && emailMatch[0].toLowerCase() !== user?.email) {
+            setPendingEmail(emailMatch[0]);
         }
 
-        // Simple Lead Capture: Check if user provided name (if assistant just asked)
-        if (lastAssistantMsg?.includes('your name') || lastAssistantMsg?.includes('who i\'m speaking with')) {
-            const cleanName = userMessage.replace(/my name is|i'm|i am/gi, '').trim();
-            if (cleanName && (!user || user.name !== cleanName)) {
-                updatedUser.name = cleanName;
-                infoCaptured = true;
-            }
-        }
-
-        if (infoCaptured) {
-            setUser(updatedUser);
-            // Non-blocking save to Firebase
-            saveLead(updatedUser.name || 'Conversation Lead', updatedUser.email || 'No Email').catch(console.error);
+        // Name capture: only a reply to the assistant asking for it (the server rejects anything that isn't a name)
+        if (!emailMatch && (lastAssistantMsg?.includes('your name') || lastAssistantMsg?.includes('who i\'m speaking with'))) {
+            submitLead({ name: userMessage });
         }
         // -------------------------
 
@@ -82,37 +181,120 @@ export default function ChatWidget() {
         setIsLoading(true);
 
         try {
-            const response = await fetch('/api/chat', {
+            const requestAnswer = async () => fetch('/api/chat', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({
                     message: userMessage,
-                    history: messages.map(m => ({ role: m.role, content: m.content })),
+                    sessionId: await ensureSession(),
+                    stream: true,
                 }),
             });
+            let response = await requestAnswer();
+            // The session expired server-side: send the same message once more on a new session
+            if (response.status === 404) {
+                resetSession();
+                response = await requestAnswer();
+            }
 
-            const data = await response.json();
+            // Validation / rate-limit failures still come back as a single JSON error
+            const contentType = response.headers.get('content-type') || '';
+            if (!contentType.includes('application/x-ndjson') || !response.body) {
+                const data = await response.json();
+
+                if (data.error) {
+                    // The new session is gone too: the next message starts another one
+                    if (data.code === 'NOT_FOUND') resetSession();
+                    const err: any = new Error(data.error);
+                    err.code = data.code;
+                    throw err;
+                }
 
-            if (data.error) {
-                const err: any = new Error(data.error);
-                err.code = data.code;
-                throw err;
+                setMessages(prev => [...prev, {
+                    role: 'assistant',
+                    content: data.response,
+                    timestamp: formatTime(new Date()),
+                    sources: data.sources,
+                    cards: data.cards
+                }]);
+                return;
             }
 
-            setMessages(prev => [...prev, {
-                role: 'assistant',
-                content: data.response,
-                timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
-            }]);
+            // --- Streaming Response ---
+            const reader = response.body.getReader();
+            const decoder = new TextDecoder();
+            let buffer = '';
+            let started = false;
+
+            const appendChunk = (text: string) => {
+                if (!started) {
+                    started = true;
+                    setIsLoading(false);
+                    setMessages(prev => [...prev, {
+                        role: 'assistant',
+                        content: text,
+                        timestamp: formatTime(new Date())
+                    }]);
+                    return;
+                }
+                setMessages(prev => {
+                    const last = prev[prev.length - 1];
+                    return [...prev.slice(0, -1), { ...last, content: last.content + text }];
+                });
+            };
+
+            // The server's safety guard may rewrite an answer after streaming it
+            const replaceContent = (text: string) => {
+                if (!started) {
+                    appendChunk(text);
+                    return;
+                }
+                setMessages(prev => {
+                    const last = prev[prev.length - 1];
+                    return [...prev.slice(0, -1), { ...last, content: text }];
+                });
+            };
+
+            const handleEvent = (line: string) => {
+                if (!line.trim()) return;
+                const event = JSON.parse(line);
+                if (event.type === 'chunk') {
+                    appendChunk(event.text);
+                } else if (event.type === 'replace') {
+                    replaceContent(event.text);
+                } else if (event.type === 'done') {
+                    const sources: AnswerSource[] = event.sources || [];
+                    const cards: AnswerCard[] = event.cards || [];
+                    // An answer without any text still gets a reply, so the question isn't left hanging
+                    if (!started) appendChunk(EMPTY_ANSWER_MESSAGE);
+                    setMessages(prev => {
+                        const last = prev[prev.length - 1];
+                        return [...prev.slice(0, -1), { ...last, sources, cards }];
+                    });
+                } else if (event.type === 'error') {
+                    const err: any = new Error(event.error);
+                    err.code = event.code;
+                    throw err;
+                }
+            };
+
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+                lines.forEach(handleEvent);
+            }
+            handleEvent(buffer + decoder.decode());
         } catch (error: any) {
             console.error('Chat error:', error);
-            let errorMessage = "Oops! Something went wrong on my end. Let's try that again.";
             setMessages(prev => [...prev, {
                 role: 'assistant',
-                content: errorMessage,
-                timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+                content: CHAT_ERROR_MESSAGES[error?.code] || DEFAULT_CHAT_ERROR_MESSAGE,
+                timestamp: formatTime(new Date())
             }]);
         } finally {
             setIsLoading(false);
@@ -232,6 +414,10 @@ export default function ChatWidget() {
                                         key={index}
                                         className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}
                                     >
+                                        {/* DO NOT MIX verdicts go above the answer so they are read first */}
+                                        {msg.role === 'assistant' && msg.cards?.map((card, cardIndex) => (
+                                            card.type === 'mixingHazard' && <MixingHazardBanner key={cardIndex} card={card} />
+                                        ))}
                                         <div
                                             className={`max-w-[85%] rounded-[24px] px-6 py-4 text-[15px] leading-relaxed relative prose prose-slate ${msg.role === 'user'
                                                 ? 'bg-blue-600 text-white rounded-br-none shadow-[0_10px_30px_-10px_rgba(37,99,235,0.4)] prose-invert'
@@ -239,7 +425,20 @@ export default function ChatWidget() {
                                                 }`}
                                         >
                                             <ReactMarkdown
+                                                remarkPlugins={[remarkGfm]}
                                                 components={{
+                                                    // Comparison answers arrive as side-by-side tables
+                                                    table: ({ node, ...props }) => (
+                                                        <div className="not-prose my-3 overflow-x-auto rounded-xl border border-slate-100">
+                                                            <table {...props} className="w-full border-collapse text-left text-xs" />
+                                                        </div>
+                                                    ),
+                                                    th: ({ node, ...props }) => (
+                                                        <th {...props} className="bg-slate-50 px-3 py-2 font-bold text-slate-900 align-top" />
+                                                    ),
+                                                    td: ({ node, ...props }) => (
+                                                        <td {...props} className="border-t border-slate-100 px-3 py-2 text-slate-600 align-top" />
+                                                    ),
                                                     a: ({ node, ...props }) => {
                                                         const href = props.href?.toLowerCase() || '';
                                                         const isSDS = href.endsWith('.pdf') || href.includes('grounding');
@@ -271,6 +470,62 @@ export default function ChatWidget() {
                                                 {msg.content}
                                             </ReactMarkdown>
                                         </div>
+                                        {msg.role === 'assistant' && msg.cards?.map((card, cardIndex) => (
+                                            (card.type === 'dilution' && <DilutionCalculatorCard key={cardIndex} card={card} />)
+                                            || (card.type === 'safety' && <SafetyCard key={cardIndex} card={card} />)
+                                            || (card.type === 'packSizes' && <PackSizePickerCard key={cardIndex} card={card} />)
+                                            || (card.type === 'orderRequest' && <OrderRequestCard key={cardIndex} card={card} getSessionId={ensureSession} user={user} />)
+                                        ))}
+                                        {msg.role === 'assistant' && msg.sources && msg.sources.length > 0 && (
+                                            <div className="mt-2 flex max-w-[85%] flex-wrap gap-1.5 px-1">
+                                                {msg.sources.map((source) => {
+                                                    const key = `${index}:${source.name}`;
+                                                    const isExpanded = expandedSource === key;
+                                                    return (
+                                                        <div key={key} className="flex flex-col">
+                                                            <button
+                                                                onClick={() => setExpandedSource(isExpanded ? null : key)}
+                                                                className={`flex items-center gap-1.5 rounded-full border px-3 py-1 text-[10px] font-bold uppercase tracking-wider transition-colors ${isExpanded
+                                                                    ? 'border-slate-900 bg-slate-900 text-white'
+                                                                    : 'border-slate-200 bg-white text-slate-500 hover:border-slate-400 hover:text-slate-900'
+                                                                    }`}
+                                                            >
+                                                                <Icon
+                                                                    icon={source.type === 'document' ? 'ph:file-text-bold' : 'ph:database-bold'}
+                                                                    className={`text-xs ${isExpanded ? 'text-emerald-400' : 'text-slate-400'}`}
+                                                                />
+                                                                <span>{source.label}</span>
+                                                                {source.version && <span className="opacity-60 normal-case">{source.version}</span>}
+                                                                {source.sections && source.sections.length > 0 && (
+                                                                    <span className="opacity-60">§ {source.sections.join(', ')}</span>
+                                                                )}
+                                                            </button>
+                                                            {isExpanded && (
+                                                                <div className="mt-1.5 rounded-xl border border-slate-100 bg-slate-50 px-3 py-2 text-[11px] leading-snug text-slate-600">
+                                                                    <p className="font-bold text-slate-900 break-all">{source.name}</p>
+                                                                    {source.path && <p className="font-mono text-[10px] text-slate-400 break-all">{source.path}</p>}
+                                                                    {source.version && <p>Version {source.version.replace(/^v/, '')}</p>}
+                                                                    {source.sections && source.sections.length > 0 && (
+                                                                        <p>SDS Sections {source.sections.join(', ')}</p>
+                                                                    )}
+                                                                    {source.url && (
+                                                                        <a
+                                                                            href={source.url}
+                                                                            target="_blank"
+                                                                            rel="noopener noreferrer"
+                                                                            className="mt-1 inline-flex items-center gap-1 font-bold text-blue-600 hover:text-blue-800"
+                                                                        >
+                                                                            Open document
+                                                                            <Icon icon="ph:arrow-square-out-bold" className="text-xs" />
+                                                                        </a>
+                                                                    )}
+                                                                </div>
+                                                            )}
+                                                        </div>
+                                                    );
+                                                })}
+                                            </div>
+                                        )}
                                         <span className="text-[10px] font-medium text-slate-400 mt-2 px-1 uppercase tracking-wider">
                                             {msg.timestamp}
                                         </span>
@@ -293,6 +548,26 @@ export default function ChatWidget() {
 
                         {/* Input Area */}
                         <div className="p-6 pb-6 bg-white shrink-0 border-t border-slate-100">
+                            {pendingEmail && (
+                                <div className="mb-4 flex items-center gap-3 rounded-2xl border border-slate-100 bg-slate-50 px-4 py-3">
+                                    <Icon icon="ph:envelope-simple-bold" className="h-5 w-5 shrink-0 text-blue-600" />
+                                    <p className="flex-1 text-xs leading-snug text-slate-600">
+                                        {CATALOGUE_CONSENT_WORDING} <span className="font-bold">({pendingEmail})</span>
+                                    </p>
+                                    <button
+                                        onClick={() => answerConsent(true)}
+                                        className="rounded-xl bg-slate-900 px-3 py-2 text-[10px] font-black uppercase tracking-widest text-white hover:bg-slate-800 transition-colors"
+                                    >
+                                        Yes
+                                    </button>
+                                    <button
+                                        onClick={() => answerConsent(false)}
+                                        className="rounded-xl px-3 py-2 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-slate-900 transition-colors"
+                                    >
+                                        No
+                                    </button>
+                                </div>
+                            )}
                             <form onSubmit={handleSubmit} className="relative group mb-4">
                                 <input
                                     type="text"
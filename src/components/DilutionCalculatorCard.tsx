@@ -0,0 +1,85 @@
+'use client';
+
+import { useState } from 'react';
+import { Icon } from '@iconify/react';
+import type { DilutionCard } from '@/lib/answerCards';
+import { calculateDilution } from '@/lib/dilution';
+
+// Inline calculator under an answer: starts from the tool's result, then recomputes in the browser
+// when the customer picks another ratio on file or changes the batch size.
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export default function DilutionCalculatorCard({ card }: { card: DilutionCard }) {
+    const ratios = card.availableRatios.some((r) => r.text === card.ratio.text)
+        ? card.availableRatios
+        : [card.ratio, ...card.availableRatios];
+    const [ratioIndex, setRatioIndex] = useState(Math.max(ratios.findIndex((r) => r.text === card.ratio.text), 0));
+    const [gallons, setGallons] = useState(String(card.result.solution.gallons));
+
+    const ratio = ratios[ratioIndex];
+    const amount = Number(gallons);
+    // A price only makes sense for the concentrate volume it was quoted for, so it carries over unchanged
+    const result = amount > 0
+        ? calculateDilution(ratio, { solution: { amount, unit: 'gal' }, concentrate: card.input.concentrate, price: card.input.price })
+        : null;
+
+    return (
+        <div className="mt-2 w-full max-w-[85%] rounded-2xl border border-slate-200 bg-white px-4 py-3 text-[12px] text-slate-600 shadow-sm">
+            <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                <Icon icon="ph:flask-bold" className="text-sm text-emerald-500" />
+                <span>Dilution · {card.product}</span>
+            </div>
+
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+                {ratios.length > 1 ? (
+                    <select
+                        value={ratioIndex}
+                        onChange={(e) => setRatioIndex(Number(e.target.value))}
+                        className="rounded-lg border border-slate-200 bg-slate-50 px-2 py-1 text-[12px] font-bold text-slate-900 outline-none focus:border-slate-400"
+                    >
+                        {ratios.map((r, i) => (
+                            <option key={`${r.text}-${i}`} value={i}>
+                                {r.label ? `${r.label}: ${r.text}` : r.text}
+                            </option>
+                        ))}
+                    </select>
+                ) : (
+                    <span className="font-bold text-slate-900">{ratio.label ? `${ratio.label}: ${ratio.text}` : ratio.text}</span>
+                )}
+                <label className="flex items-center gap-1">
+                    <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={gallons}
+                        onChange={(e) => setGallons(e.target.value)}
+                        className="w-20 rounded-lg border border-slate-200 bg-slate-50 px-2 py-1 text-[12px] font-bold text-slate-900 outline-none focus:border-slate-400"
+                    />
+                    <span>gal of use-solution</span>
+                </label>
+            </div>
+
+            {result && !('error' in result) ? (
+                <dl className="mt-3 grid grid-cols-2 gap-x-4 gap-y-1">
+                    <dt>Concentrate</dt>
+                    <dd className="font-bold text-slate-900">{formatNumber(result.concentrate.ounces)} oz ({formatNumber(result.concentrate.milliliters)} mL)</dd>
+                    <dt>Water</dt>
+                    <dd className="font-bold text-slate-900">{formatNumber(result.water.gallons)} gal ({formatNumber(result.water.liters)} L)</dd>
+                    <dt>Makes</dt>
+                    <dd className="font-bold text-slate-900">{formatNumber(result.solution.gallons)} gal ({formatNumber(result.solution.liters)} L)</dd>
+                    {result.costPerGallon !== undefined && (
+                        <>
+                            <dt>Cost per gallon</dt>
+                            <dd className="font-bold text-slate-900">${result.costPerGallon.toFixed(3)}</dd>
+                        </>
+                    )}
+                </dl>
+            ) : (
+                <p className="mt-3 text-slate-400">{result && 'error' in result ? result.error : 'Enter a batch size.'}</p>
+            )}
+
+            <p className="mt-2 text-[10px] text-slate-400">Always follow the product label.</p>
+        </div>
+    );
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { Icon } from '@iconify/react';
+import type { MixingHazardCard } from '@/lib/answerCards';
+
+// DO NOT MIX warning from the server's mixing check, shown above the answer it belongs to.
+
+export default function MixingHazardBanner({ card }: { card: MixingHazardCard }) {
+    return (
+        <div role="alert" className="mb-2 w-full max-w-[85%] rounded-2xl border-2 border-red-600 bg-red-50 px-4 py-3 text-[12px] text-red-900 shadow-sm">
+            <div className="flex items-center gap-2">
+                <Icon icon="ph:warning-octagon-fill" className="text-xl text-red-600" />
+                <span className="text-[13px] font-black uppercase tracking-wider text-red-700">Do not mix</span>
+            </div>
+            <p className="mt-1 font-bold">{card.products.join(' + ')}</p>
+            <ul className="mt-1.5 list-disc space-y-1 pl-4 leading-snug">
+                {card.conflicts.map((conflict, i) => (
+                    <li key={i}>
+                        {card.products.length > 2 && <span className="font-bold">{conflict.products.join(' + ')}: </span>}
+                        {conflict.reason}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState } from 'react';
+import { Icon } from '@iconify/react';
+import type { OrderRequestCard as OrderRequestCardData } from '@/lib/answerCards';
+
+// Editable summary of the quote request the assistant drafted: pack size and quantity per line, delivery ZIP,
+// contact and notes. Submitting posts it to /api/order-requests; the server re-validates everything.
+
+type ContactFields = { name: string; email: string; phone: string; company: string };
+
+const inputClass = 'w-full rounded-lg border border-slate-200 bg-slate-50 px-2 py-1 text-[12px] font-bold text-slate-900 outline-none focus:border-slate-400';
+
+export default function OrderRequestCard({
+    card,
+    getSessionId,
+    user,
+}: {
+    card: OrderRequestCardData;
+    getSessionId: () => Promise<string>;
+    user: { name: string | null; email: string | null } | null;
+}) {
+    const { draft } = card;
+    const [lines, setLines] = useState(draft.lines.map((line) => ({ ...line, quantity: String(line.quantity) })));
+    const [zip, setZip] = useState(draft.zip || '');
+    const [contact, setContact] = useState<ContactFields>({
+        name: draft.contact.name || user?.name || '',
+        email: draft.contact.email || user?.email || '',
+        phone: draft.contact.phone || '',
+        company: draft.contact.company || '',
+    });
+    const [notes, setNotes] = useState('');
+    const [status, setStatus] = useState<'editing' | 'sending' | 'sent'>('editing');
+    const [error, setError] = useState<string | null>(null);
+    const [reference, setReference] = useState<string | null>(null);
+
+    const updateLine = (index: number, changes: Partial<(typeof lines)[number]>) =>
+        setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+    const updateContact = (field: keyof ContactFields, value: string) => setContact((prev) => ({ ...prev, [field]: value }));
+
+    const missing = [
+        ...(lines.length === 0 ? ['items'] : []),
+        ...(lines.some((line) => line.packs.length > 0 && !line.sku) ? ['pack size'] : []),
+        ...(lines.some((line) => !(Number(line.quantity) >= 1)) ? ['quantity'] : []),
+        ...(/^\d{5}$/.test(zip.trim()) ? [] : ['delivery ZIP']),
+        ...(contact.email.trim() || contact.phone.trim() ? [] : ['email or phone']),
+    ];
+
+    const submit = async () => {
+        setStatus('sending');
+        setError(null);
+        try {
+            const response = await fetch('/api/order-requests', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    sessionId: await getSessionId(),
+                    lines: lines.map((line) => ({ slug: line.slug, sku: line.sku, quantity: Number(line.quantity) })),
+                    zip: zip.trim(),
+                    contact,
+                    notes,
+                }),
+            });
+            const data = await response.json();
+            if (data.error) throw new Error(data.details || data.error);
+            setReference(data.orderRequest.reference);
+            setStatus('sent');
+        } catch (err: any) {
+            console.error('Order request error:', err);
+            setError(err.message || 'The request could not be sent.');
+            setStatus('editing');
+        }
+    };
+
+    if (status === 'sent') {
+        return (
+            <div className="mt-2 w-full max-w-[85%] rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-[12px] text-emerald-900 shadow-sm">
+                <div className="flex items-center gap-2 font-bold">
+                    <Icon icon="ph:check-circle-bold" className="text-sm text-emerald-600" />
+                    <span>Quote request {reference} sent</span>
+                </div>
+                <p className="mt-1">Our sales team will confirm pricing and delivery by {contact.email.trim() ? 'email' : 'phone'}.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="mt-2 w-full max-w-[85%] rounded-2xl border border-slate-200 bg-white px-4 py-3 text-[12px] text-slate-600 shadow-sm">
+            <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                <Icon icon="ph:shopping-cart-bold" className="text-sm text-emerald-500" />
+                <span>Quote request</span>
+            </div>
+
+            <div className="mt-2 space-y-2">
+                {lines.map((line, i) => (
+                    <div key={`${line.slug}-${i}`} className="flex items-center gap-2">
+                        <input
+                            type="number"
+                            min="1"
+                            step="1"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(i, { quantity: e.target.value })}
+                            className={`${inputClass} !w-14`}
+                            aria-label={`Quantity of ${line.product}`}
+                        />
+                        <span className="min-w-0 flex-1 truncate font-bold text-slate-900">{line.product}</span>
+                        {line.packs.length > 0 && (
+                            <select
+                                value={line.sku || ''}
+                                onChange={(e) => {
+                                    const pack = line.packs.find((p) => p.sku === e.target.value);
+                                    updateLine(i, { sku: pack?.sku || null, pack: pack?.label || null });
+                                }}
+                                className={`${inputClass} !w-auto`}
+                                aria-label={`Pack size of ${line.product}`}
+                            >
+                                <option value="">Pick a size</option>
+                                {line.packs.map((pack) => (
+                                    <option key={pack.sku} value={pack.sku}>{pack.label}</option>
+                                ))}
+                            </select>
+                        )}
+                        <button
+                            onClick={() => setLines((prev) => prev.filter((_, index) => index !== i))}
+                            className="text-slate-400 hover:text-red-500"
+                            aria-label={`Remove ${line.product}`}
+                        >
+                            <Icon icon="ph:x-bold" />
+                        </button>
+                    </div>
+                ))}
+                {draft.unmatched.length > 0 && (
+                    <p className="text-[11px] text-amber-700">Not found in our catalog: {draft.unmatched.join(', ')}</p>
+                )}
+            </div>
+
+            <div className="mt-3 grid grid-cols-2 gap-2">
+                <input value={zip} onChange={(e) => setZip(e.target.value)} placeholder="Delivery ZIP" maxLength={5} className={inputClass} />
+                <span className="self-center text-[11px]">
+                    {zip.trim() === draft.zip && draft.delivery.status === 'covered'
+                        ? `${draft.delivery.city}: ${draft.delivery.window}`
+                        : zip.trim() === draft.zip && draft.delivery.status === 'not_covered'
+                            ? 'Outside our delivery area; sales will quote shipping'
+                            : ''}
+                </span>
+                <input value={contact.name} onChange={(e) => updateContact('name', e.target.value)} placeholder="Name" className={inputClass} />
+                <input value={contact.company} onChange={(e) => updateContact('company', e.target.value)} placeholder="Company" className={inputClass} />
+                <input value={contact.email} onChange={(e) => updateContact('email', e.target.value)} placeholder="Email" type="email" className={inputClass} />
+                <input value={contact.phone} onChange={(e) => updateContact('phone', e.target.value)} placeholder="Phone" type="tel" className={inputClass} />
+            </div>
+            <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Notes for sales (optional)"
+                maxLength={1000}
+                rows={2}
+                className={`${inputClass} mt-2 resize-none font-normal`}
+            />
+
+            {error && <p className="mt-2 text-[11px] text-red-600">{error}</p>}
+            <div className="mt-2 flex items-center justify-between gap-2">
+                <span className="text-[11px] text-slate-400">
+                    {missing.length > 0 ? `Still needed: ${missing.join(', ')}` : 'Sales confirms pricing and delivery; nothing is charged.'}
+                </span>
+                <button
+                    onClick={submit}
+                    disabled={missing.length > 0 || status === 'sending'}
+                    className="rounded-full bg-slate-900 px-3 py-1 text-[11px] font-bold text-white transition-colors hover:bg-slate-700 disabled:cursor-not-allowed disabled:bg-slate-300"
+                >
+                    {status === 'sending' ? 'Sending…' : 'Send to sales'}
+                </button>
+            </div>
+        </div>
+    );
+}
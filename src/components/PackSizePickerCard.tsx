@@ -0,0 +1,57 @@
+'use client';
+
+import { useState } from 'react';
+import { Icon } from '@iconify/react';
+import type { PackSizesCard } from '@/lib/answerCards';
+
+// Pack-size picker under a size answer: one chip per pack on file, the ones that answered the
+// question preselected, and the picked pack's contents and SKU below.
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+export default function PackSizePickerCard({ card }: { card: PackSizesCard }) {
+    const [selectedSku, setSelectedSku] = useState(card.matches[0] || card.packs[0]?.sku);
+    const selected = card.packs.find((pack) => pack.sku === selectedSku) || card.packs[0];
+    if (!selected) return null;
+
+    return (
+        <div className="mt-2 w-full max-w-[85%] rounded-2xl border border-slate-200 bg-white px-4 py-3 text-[12px] text-slate-600 shadow-sm">
+            <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                <Icon icon="ph:package-bold" className="text-sm text-emerald-500" />
+                <span>Pack sizes · {card.product}</span>
+            </div>
+
+            <div className="mt-2 flex flex-wrap gap-1.5">
+                {card.packs.map((pack) => {
+                    const isSelected = pack.sku === selected.sku;
+                    const isMatch = card.matches.includes(pack.sku);
+                    return (
+                        <button
+                            key={pack.sku}
+                            onClick={() => setSelectedSku(pack.sku)}
+                            className={`rounded-full border px-3 py-1 text-[11px] font-bold transition-colors ${isSelected
+                                ? 'border-slate-900 bg-slate-900 text-white'
+                                : isMatch
+                                    ? 'border-emerald-300 bg-emerald-50 text-emerald-800 hover:border-emerald-500'
+                                    : 'border-slate-200 bg-white text-slate-500 hover:border-slate-400 hover:text-slate-900'
+                                }`}
+                        >
+                            {pack.qualifier ? `${pack.qualifier} · ` : ''}{pack.label}
+                        </button>
+                    );
+                })}
+            </div>
+
+            <dl className="mt-3 grid grid-cols-2 gap-x-4 gap-y-1">
+                <dt>Pack</dt>
+                <dd className="font-bold text-slate-900">
+                    {selected.count > 1 ? `${selected.count} containers of ${formatNumber(selected.unitSize)} ${selected.unit}` : `1 container of ${formatNumber(selected.unitSize)} ${selected.unit}`}
+                </dd>
+                <dt>Total</dt>
+                <dd className="font-bold text-slate-900">{formatNumber(selected.total)} {selected.totalUnit}</dd>
+                <dt>SKU</dt>
+                <dd className="font-mono text-[11px] text-slate-900 break-all">{selected.sku}</dd>
+            </dl>
+        </div>
+    );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { Icon } from '@iconify/react';
+import type { SafetyCard as SafetyCardData } from '@/lib/answerCards';
+import type { PpeArea } from '@/lib/safetyDataSheet';
+
+// Signal word, GHS pictograms, hazard statements and PPE from the product's SDS, under the answer.
+
+// Stand-in symbols for the GHS pictograms, drawn inside the red diamond
+const PICTOGRAM_ICONS: Record<string, string> = {
+    GHS01: 'ph:bomb-bold',
+    GHS02: 'ph:fire-bold',
+    GHS03: 'ph:fire-simple-bold',
+    GHS04: 'ph:cylinder-bold',
+    GHS05: 'ph:drop-half-bottom-bold',
+    GHS06: 'ph:skull-bold',
+    GHS07: 'ph:exclamation-mark-bold',
+    GHS08: 'ph:heartbeat-bold',
+    GHS09: 'ph:fish-bold',
+};
+
+const PPE_LABELS: Record<PpeArea, { label: string; icon: string }> = {
+    eyes: { label: 'Eyes / face', icon: 'ph:eyeglasses-bold' },
+    hands: { label: 'Hands', icon: 'ph:hand-bold' },
+    respiratory: { label: 'Respiratory', icon: 'ph:wind-bold' },
+    body: { label: 'Body', icon: 'ph:t-shirt-bold' },
+};
+
+export default function SafetyCard({ card }: { card: SafetyCardData }) {
+    const isDanger = card.signalWord === 'Danger';
+    const ppeAreas = Object.keys(card.ppe) as PpeArea[];
+
+    return (
+        <div className="mt-2 w-full max-w-[85%] rounded-2xl border border-slate-200 bg-white px-4 py-3 text-[12px] text-slate-600 shadow-sm">
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                    <Icon icon="ph:shield-warning-bold" className="text-sm text-emerald-500" />
+                    <span>Safety · {card.product}</span>
+                </div>
+                {card.signalWord && (
+                    <span className={`rounded-md px-2 py-0.5 text-[11px] font-black uppercase tracking-widest text-white ${isDanger ? 'bg-red-600' : 'bg-amber-500'}`}>
+                        {card.signalWord}
+                    </span>
+                )}
+            </div>
+
+            {card.pictograms.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-3">
+                    {card.pictograms.map((pictogram) => (
+                        <div key={pictogram.code} className="flex w-14 flex-col items-center gap-1" title={`${pictogram.name} (${pictogram.code})`}>
+                            <div className="flex h-9 w-9 rotate-45 items-center justify-center border-[3px] border-red-600 bg-white">
+                                <Icon icon={PICTOGRAM_ICONS[pictogram.code] || 'ph:warning-bold'} className="-rotate-45 text-lg text-slate-900" />
+                            </div>
+                            <span className="mt-1 text-center text-[9px] leading-tight text-slate-500">{pictogram.name}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {card.hazardStatements.length > 0 && (
+                <ul className="mt-3 space-y-0.5 leading-snug">
+                    {card.hazardStatements.map((statement) => (
+                        <li key={statement.code}>
+                            <span className="font-mono text-[10px] font-bold text-slate-400">{statement.code}</span> {statement.text}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {ppeAreas.length > 0 && (
+                <dl className="mt-3 space-y-1 border-t border-slate-100 pt-2">
+                    {ppeAreas.map((area) => (
+                        <div key={area} className="flex gap-2">
+                            <dt className="flex w-24 shrink-0 items-center gap-1 font-bold text-slate-900">
+                                <Icon icon={PPE_LABELS[area].icon} className="text-xs text-slate-400" />
+                                {PPE_LABELS[area].label}
+                            </dt>
+                            <dd className="leading-snug">{card.ppe[area]}</dd>
+                        </div>
+                    ))}
+                </dl>
+            )}
+
+            {card.sdsUrl && (
+                <a
+                    href={card.sdsUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="mt-2 inline-flex items-center gap-1 text-[11px] font-bold text-blue-600 hover:text-blue-800"
+                >
+                    Full SDS
+                    <Icon icon="ph:arrow-square-out-bold" className="text-xs" />
+                </a>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,76 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import type { CatalogSaveResult } from '@/lib/catalogStore';
+import { CatalogChange, toCatalogVersion } from '@/lib/catalog';
+
+// Shared by the /api/admin routes: bearer-token auth against ADMIN_TOKEN and the catalog save responses.
+
+const MAX_AUTHOR_LENGTH = 100;
+const MAX_SUMMARY_LENGTH = 300;
+
+const tokensMatch = (given: string, expected: string) => {
+    const a = Buffer.from(given);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * Resolves to an error response unless the request carries `Authorization: Bearer <ADMIN_TOKEN>`.
+ * The admin API is off entirely while ADMIN_TOKEN is unset.
+ */
+export const requireAdmin = (req: NextRequest): NextResponse | null => {
+    const expected = process.env.ADMIN_TOKEN;
+    if (!expected) {
+        return NextResponse.json(
+            { error: 'Admin API is disabled', code: 'CONFIGURATION_ERROR', details: 'ADMIN_TOKEN is not set' },
+            { status: 503 }
+        );
+    }
+    const token = req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+    if (!token || !tokensMatch(token, expected)) {
+        return NextResponse.json(
+            { error: 'Unauthorized', code: 'UNAUTHORIZED', details: 'A valid admin token is required' },
+            { status: 401 }
+        );
+    }
+    return null;
+};
+
+// Who made the edit (X-Admin-User header, set by the admin UI) and the summary recorded in the version history
+export const catalogChange = (req: NextRequest, summary: string): CatalogChange => ({
+    author: (req.headers.get('x-admin-user') || '').trim().slice(0, MAX_AUTHOR_LENGTH) || 'admin',
+    summary: summary.trim().slice(0, MAX_SUMMARY_LENGTH),
+});
+
+export const validationError = (details: string) => NextResponse.json(
+    { error: 'Invalid request', code: 'VALIDATION_ERROR', details },
+    { status: 400 }
+);
+
+export const versionConflict = (version: number) => NextResponse.json(
+    { error: 'Catalog has changed', code: 'CONFLICT', details: `The catalog is now at version ${version}; reload and reapply the edit`, version },
+    { status: 409 }
+);
+
+// baseVersion is the catalog version the edit was made against (0 for the bundled catalog)
+export const parseBaseVersion = (value: unknown): number | null =>
+    Number.isInteger(value) && (value as number) >= 0 ? (value as number) : null;
+
+export const catalogSaveResponse = (result: CatalogSaveResult, status = 200) => {
+    if (result.status === 'invalid') {
+        return NextResponse.json(
+            { error: 'Catalog validation failed', code: 'VALIDATION_ERROR', details: result.issues.map((issue) => `${issue.path}: ${issue.message}`).join('; '), issues: result.issues },
+            { status: 400 }
+        );
+    }
+    if (result.status === 'conflict') return versionConflict(result.version);
+    return NextResponse.json({ version: toCatalogVersion(result.snapshot) }, { status });
+};
+
+export const adminServerError = (error: unknown, message: string) => {
+    console.error('Error in Admin API:', error);
+    return NextResponse.json(
+        { error: message, code: 'INTERNAL_ERROR', details: 'Unexpected server error' },
+        { status: 500 }
+    );
+};
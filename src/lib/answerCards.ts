@@ -0,0 +1,105 @@
+import type { MixingCheck, MixingConflict } from '@/lib/compatibility';
+import type { DilutionRatio, DilutionResult, Volume } from '@/lib/dilution';
+import type { OrderDraft } from '@/lib/orderRequests';
+import type { PackSize, PackSizeCheck } from '@/lib/packSizes';
+import type { GhsPictogram, GhsStatement, SafetyDataSheet } from '@/lib/safetyDataSheet';
+
+// Structured tool results shown as cards under an answer, next to the text the model wrote about them.
+// No server imports, so the widget can import them.
+
+export type DilutionCard = {
+    type: 'dilution';
+    product: string;
+    ratio: DilutionRatio;
+    // Other ratios on file for the product (e.g. light vs heavy duty), for the card's picker
+    availableRatios: DilutionRatio[];
+    input: { solution?: Volume; concentrate?: Volume; price?: number };
+    result: DilutionResult;
+};
+
+// DO NOT MIX verdict, shown as a warning banner above the answer
+export type MixingHazardCard = {
+    type: 'mixingHazard';
+    products: string[];
+    conflicts: MixingConflict[];
+};
+
+// Signal word, pictograms, hazards and PPE from the product's SDS
+export type SafetyCard = {
+    type: 'safety';
+    product: string;
+    signalWord: SafetyDataSheet['signalWord'];
+    pictograms: GhsPictogram[];
+    hazardStatements: GhsStatement[];
+    ppe: SafetyDataSheet['ppe'];
+    sdsUrl: string | null;
+};
+
+// The product's pack sizes as a picker, with the ones that answer the question preselected
+export type PackSizesCard = {
+    type: 'packSizes';
+    product: string;
+    slug: string;
+    packs: PackSize[];
+    // SKUs of the packs that matched the question
+    matches: string[];
+};
+
+// Quote request the assistant drafted, as an editable summary the customer submits to sales
+export type OrderRequestCard = {
+    type: 'orderRequest';
+    draft: OrderDraft;
+};
+
+export type AnswerCard = DilutionCard | MixingHazardCard | SafetyCard | PackSizesCard | OrderRequestCard;
+
+export const safetyCard = (product: string, sheet: Omit<SafetyDataSheet, 'source'>, sdsUrl: string | null): SafetyCard => ({
+    type: 'safety',
+    product,
+    signalWord: sheet.signalWord,
+    pictograms: sheet.pictograms,
+    hazardStatements: sheet.hazardStatements,
+    ppe: sheet.ppe,
+    sdsUrl,
+});
+
+/**
+ * Drops repeat safety cards for a product (the retrieved context and a tool call can both produce one).
+ */
+export const mergeCards = (cards: AnswerCard[]) =>
+    cards.filter((card, i) =>
+        card.type !== 'safety' || cards.findIndex((other) => other.type === 'safety' && other.product === card.product) === i
+    );
+
+/**
+ * The warning banner for a mixing check; only a DO NOT MIX verdict gets one.
+ */
+export const mixingCheckCards = (check: MixingCheck | null): AnswerCard[] =>
+    check?.verdict === 'DO_NOT_MIX'
+        ? [{ type: 'mixingHazard', products: check.items.map((item) => item.name), conflicts: check.conflicts }]
+        : [];
+
+export const packSizeCards = (check: PackSizeCheck | null): AnswerCard[] =>
+    check
+        ? [{ type: 'packSizes', product: check.product, slug: check.slug, packs: check.packs, matches: check.matches.map((pack) => pack.sku) }]
+        : [];
+
+/**
+ * Cards for a tool result; tools without a card (or that failed) contribute none.
+ */
+export const toolResultCards = (name: string, result: any): AnswerCard[] => {
+    if (!result || 'error' in result) return [];
+    if (name === 'getSafetyDataSheet') return [safetyCard(result.displayName, result, result.sdsLink)];
+    if (name === 'calculateDilution') {
+        return [{
+            type: 'dilution',
+            product: result.displayName,
+            ratio: result.ratio,
+            availableRatios: result.availableRatios,
+            input: result.input,
+            result: result.result,
+        }];
+    }
+    if (name === 'prepareOrderRequest') return [{ type: 'orderRequest', draft: result }];
+    return [];
+};
@@ -0,0 +1,269 @@
+import type { LLMMessage } from '@/lib/llm';
+import type { ParsedDocument } from '@/lib/documentCache';
+import { CLARIFY_QUESTION, FIRST_AID_DISCLAIMER } from '@/lib/answerRules';
+import { formatComparisonContext, gatherComparisonData } from '@/lib/comparison';
+import { checkMixingHazards, formatMixingContext, MixingCheck } from '@/lib/compatibility';
+import { debugLog } from '@/lib/debugLog';
+import { DeliveryZone, findDeliveryLocation, formatDeliveryContext } from '@/lib/delivery';
+import {
+    buildDocumentVersionIndex,
+    formatVersionHistory,
+    gatherVersionChanges,
+    isVersionHistoryQuestion,
+    latestVersionOf,
+    parseDocumentName,
+} from '@/lib/documentVersions';
+import type { ContextSelection, LibrarianKnowledge } from '@/lib/librarian';
+import {
+    checkPackSizes,
+    formatPackSizeContext,
+    formatPackSizeList,
+    getPackSizes,
+    PackSizeCheck,
+    parsePackSize,
+} from '@/lib/packSizes';
+import { formatProductDocuments, gatherProductDocuments, isSdsFile, ProductDocument } from '@/lib/productDocuments';
+import { formatSafetyDataSheet, getSafetyDataSheet, SafetyDataSheet } from '@/lib/safetyDataSheet';
+import { resolveProduct } from '@/lib/productResolver';
+import { AnswerSource, bucketSource, documentSources, PRODUCT_METADATA_SOURCE, USE_CASES_SOURCE } from '@/lib/sources';
+import { getPublicUrl } from '@/lib/storage';
+
+// Step 2 and 3 of a chat turn: turn the selected source into RETRIEVED DATA and build Dr. Aris's system prompt.
+
+export type AnswerContextInput = {
+    selection: ContextSelection;
+    message: string;
+    history: LLMMessage[];
+    knowledge: LibrarianKnowledge;
+    // Names of every object in the bucket, superseded document versions included
+    fileNames: string[];
+    deliveryZones: DeliveryZone[];
+    loadDocument: (name: string) => Promise<ParsedDocument>;
+};
+
+export type AnswerContext = {
+    contextData: string;
+    // Source documents behind a PRODUCT IDENTIFIED context (empty for every other status)
+    documents: ProductDocument[];
+    // The identified product's SDS link and the SDS text retrieved for it
+    sdsUrl: string | null;
+    sdsText: string;
+    // Typed SDS fields for the identified product, when its SDS has GHS sections
+    safetyDataSheet: SafetyDataSheet | null;
+    // What the RETRIEVED DATA was built from (empty when the answer relies on general knowledge)
+    sources: AnswerSource[];
+    // Mixing-hazard verdict when the message names two or more products/chemicals together
+    mixingCheck: MixingCheck | null;
+    // Verified answer to a pack-size question about the identified product
+    packSizeCheck: PackSizeCheck | null;
+};
+
+export const buildAnswerContext = async (input: AnswerContextInput): Promise<AnswerContext> => {
+    const { selection, message, history, knowledge } = input;
+    const { selectedFile, resolvedProduct } = selection;
+    const { productIndex, productMetadata, useCases, productGuide } = knowledge;
+
+    let contextData = "No specific technical record found. Answer based on general knowledge or ask for clarification if a product is needed.";
+    let documents: ProductDocument[] = [];
+    let sdsUrl: string | null = null;
+    let safetyDataSheet: SafetyDataSheet | null = null;
+    let packSizeCheck: PackSizeCheck | null = null;
+    let sources: AnswerSource[] = [];
+
+    if (selectedFile === 'CLARIFY') {
+        contextData = "STATUS: NO PRODUCT NAMED. You MUST ask which product they are referring to before providing safety or technical details. Do not guess the product.";
+    } else if (selectedFile === 'USECARE') {
+        sources = [USE_CASES_SOURCE];
+        contextData = `STATUS: PROBLEM SOLVED. Use Case Mappings:\n${useCases}\n\nProvide the specific solution listed for the matching problem. Acknowledge the problem directly.`;
+    } else if (selectedFile === 'GUIDE') {
+        sources = productGuide ? [bucketSource('product_guide.txt', 'PRODUCT GUIDE')] : [];
+        contextData = `STATUS: CATALOG_SEARCH. FULL PRODUCT CATALOG & MAPPING GUIDE:\n${productGuide}`;
+    } else if (selectedFile === 'DELIVERY') {
+        // Look up the newest ZIP/city the user has given; the model only sees the verified result
+        const userTexts = [message, ...history.filter((msg) => msg.role === 'user').map((msg) => msg.content).reverse()];
+        const deliveryLookup = findDeliveryLocation(userTexts, input.deliveryZones);
+        debugLog(`Delivery lookup: ${JSON.stringify(deliveryLookup)}`);
+        contextData = formatDeliveryContext(deliveryLookup);
+        if (deliveryLookup.status !== 'unknown') sources = [bucketSource('delivery_zipcodes.json', 'DELIVERY ZONES')];
+    } else if (selectedFile === 'COMPARE' && selection.comparedProducts) {
+        const comparison = await gatherComparisonData(selection.comparedProducts, productMetadata, input.loadDocument);
+        contextData = formatComparisonContext(comparison.entries);
+        sources = comparison.sources;
+    } else if (selectedFile === 'NONE') {
+        // Safe findLast alternative for broader runtime compatibility
+        const reversedHistory = [...history].reverse();
+        const lastUserMsg = reversedHistory.find((msg) => msg.role === 'user')?.content || "";
+        contextData = `STATUS: UNKNOWN PRODUCT. The user mentioned "${lastUserMsg}", but we do not have a technical record for it. Acknowledge this name specifically and offer general guidance.`;
+    } else if (selectedFile === 'GENERAL') {
+        contextData = `STATUS: OUT OF SCOPE. The user's question is unrelated to chemistry, products, or delivery. Politely acknowledge that as a chemical safety assistant, you don't have access to that information, but offer to help with anything related to United Formulas.`;
+    } else if (selectedFile.length > 0) {
+        // An outdated version the librarian picked is swapped for the newest one of the same document.
+        const versionIndex = buildDocumentVersionIndex(input.fileNames);
+        const currentFile = latestVersionOf(selectedFile, versionIndex);
+        if (currentFile !== selectedFile) debugLog(`Using ${currentFile} instead of superseded ${selectedFile}`);
+
+        // When the librarian LLM picked the file, map its slug back to a product through the resolver index.
+        const fileProduct = resolvedProduct
+            || resolveProduct(parseDocumentName(currentFile)?.slug || currentFile, productIndex);
+        const premiumMatch: any = fileProduct ? productMetadata[fileProduct.slug] : null;
+        debugLog(`Metadata match for ${currentFile}: ${fileProduct?.slug || 'none'}`);
+
+        // Gather every document family for the product (SDS, master, protocol, procurement), each within its own budget.
+        // If the librarian picked a file we can't map to a product, fall back to that single file.
+        const candidateFiles = (fileProduct?.files.length ? [currentFile, ...fileProduct.files] : [currentFile])
+            .filter((name) => input.fileNames.includes(name));
+        documents = await gatherProductDocuments(candidateFiles, input.loadDocument, message);
+        if (fileProduct) safetyDataSheet = await getSafetyDataSheet(fileProduct.slug, candidateFiles, input.loadDocument);
+        debugLog(`Loaded ${documents.length} source documents: ${documents.map((doc) => doc.name).join(', ')}`);
+
+        let technicalRecord = documents.length > 0
+            ? formatProductDocuments(documents, fileProduct?.displayName)
+            : "Technical record could not be loaded.";
+        const previousSources: AnswerSource[] = [];
+        if (documents.length > 0 && isVersionHistoryQuestion(message)) {
+            const currentNames = documents.map((doc) => doc.name);
+            const changes = await gatherVersionChanges(currentNames, versionIndex, input.loadDocument);
+            debugLog(`Version history: ${changes.map((change) => `${change.previous} -> ${change.current}`).join(', ') || 'no earlier versions'}`);
+            const labelOf = (name: string) => documents.find((doc) => doc.name === name)?.label || 'TECHNICAL RECORD';
+            technicalRecord = `${technicalRecord}\n\n${formatVersionHistory(currentNames, changes, labelOf)}`;
+            for (const change of changes) {
+                previousSources.push(bucketSource(change.previous, `${labelOf(change.current)} (PREVIOUS VERSION)`));
+            }
+        }
+        // Only an actual SDS gets the SDS link; a master or protocol record is no substitute
+        const sdsFile = documents.find((doc) => isSdsFile(doc.name))?.name;
+        sdsUrl = sdsFile ? getPublicUrl(sdsFile) : null;
+
+        // Pack sizes parsed from the variant slugs; a size question gets a verified answer
+        const packSizes = fileProduct ? getPackSizes(fileProduct.slug, productMetadata, productIndex) : [];
+        // Variants that aren't pack sizes are product lines ("-pf", "-commercial") and are listed as they are
+        const otherVariants = ((premiumMatch?.variants || []) as string[]).filter((variant) => !parsePackSize(variant, fileProduct?.slug));
+        const variantList = [formatPackSizeList(packSizes), ...otherVariants].filter(Boolean).join(', ') || "No specific size info in metadata.";
+        if (fileProduct) packSizeCheck = checkPackSizes(message, fileProduct.slug, productMetadata, productIndex);
+        if (packSizeCheck) debugLog(`Pack size check: ${packSizeCheck.matches.map((pack) => pack.sku).join(', ') || 'no match'}`);
+        const packSources = (packSizeCheck?.matches || [])
+            .filter((pack) => pack.procurementFile)
+            .map((pack) => bucketSource(pack.procurementFile as string, 'PROCUREMENT & PACK SIZES'));
+        sources = [...documentSources(documents), ...previousSources, ...packSources, ...(premiumMatch ? [PRODUCT_METADATA_SOURCE] : [])];
+
+        contextData = `STATUS: PRODUCT IDENTIFIED.
+
+            PREMIUM BRANDED DATA (MANDATORY FOR OVERVIEW):
+            - Product Name: ${premiumMatch?.displayName || fileProduct?.displayName || 'Not in the product catalog'}
+            - Category: ${premiumMatch?.category || "Industrial Cleaner"}
+            - SDS Link: ${sdsUrl || 'No SDS on file for this product. Do not link one; refer the customer to the product label or 406.727.4144.'}
+            - Official Description: ${premiumMatch?.canonicalDescription || "I am currently retrieving the full branded details for this product. See the technical safety data below for immediate guidance."}
+            - VARIANTS / SIZES: ${variantList} (If user asks about sizes, LIST THESE EXACTLY)
+
+            ${packSizeCheck ? `${formatPackSizeContext(packSizeCheck)}
+
+            ` : ''}${safetyDataSheet ? `SDS FIELDS (PARSED FROM THE SDS; USE THESE FOR PPE, HAZARD, STORAGE, PHYSICAL DATA AND TRANSPORT QUESTIONS):
+            ${formatSafetyDataSheet(safetyDataSheet)}
+
+            ` : ''}TECHNICAL RECORDS (SDS/TECHNICAL DATA, LABELLED BY SOURCE):
+            ${technicalRecord}`;
+    }
+
+    // The mixing verdict goes first whatever the route; a CLARIFY question is already answered by it
+    const mixingCheck = await checkMixingHazards(message, productIndex, productMetadata, input.loadDocument, resolvedProduct);
+    if (mixingCheck) {
+        debugLog(`Mixing check: ${mixingCheck.verdict} (${mixingCheck.items.map((item) => item.name).join(' + ')})`);
+        contextData = selectedFile === 'CLARIFY'
+            ? formatMixingContext(mixingCheck)
+            : `${formatMixingContext(mixingCheck)}\n\n            ${contextData}`;
+        sources = [...mixingCheck.sources, ...sources];
+    }
+
+    const sdsText = documents
+        .filter((doc) => isSdsFile(doc.name))
+        .map((doc) => doc.text)
+        .join('\n\n');
+
+    return { contextData, documents, sdsUrl, sdsText, safetyDataSheet, sources, mixingCheck, packSizeCheck };
+};
+
+export const buildSystemInstruction = (contextData: string, historyLength: number, conversationState = '') => `
+      GOVERNING CONSTITUTION:
+      Your primary responsibility is safety, accuracy, and integrity — not speed, confidence, or conversion.
+      You are Dr. Aris, the friendly, professional, and safety-obsessed lead chemical expert for United Formulas.
+
+      ────────────────────────────────
+      SOURCE OF TRUTH HIERARCHY
+      ────────────────────────────────
+      1. PREMIUM BRANDED DATA (Use Official Description verbatim for "What is this?" questions)
+      2. Product technical records (SDS/Labels)
+      3. Company policy
+      4. This governance framework
+
+      ────────────────────────────────
+      OPERATIONAL CLARIFICATION RULES:
+      ────────────────────────────────
+      1. FIRST AID & MEDICAL DISCLAIMER (STRICT): If (and ONLY IF) the user explicitly asks about first aid, exposure, or medical treatment, you MUST start your response with this EXACT sentence: "${FIRST_AID_DISCLAIMER}"
+         - Follow this immediately with the relevant first aid sections (e.g., EYE CONTACT, SKIN CONTACT) from the technical data.
+         - You MUST include a link to the SDS sheet (provided in the SDS Link below) at the very bottom of your response, formatted as: "[View Official SDS Sheet](URL)"
+      2. PROHIBITION: Do NOT include first aid instructions, medical disclaimers, or any "NOTE: In a medical emergency..." text unless specifically requested for safety guidance. Do not repeat the 911 emergency note in general conversation.
+      3. GENERAL PRODUCT INFO: If asked "Tell me about [Product]", provide a concise, one-sentence high-level overview.
+      4. DIRECTNESS: Provide technical answers immediately. Do NOT ask "Are you referring to..." if they named the product.
+      5. STATUS: CATALOG_SEARCH:
+         - The user is asking for a recommendation or searching for a solution.
+         - PROACTIVE STEP: Scan the provided CATALOG & MAPPING GUIDE for 2-3 specific products that match their needs and SUGGEST THEM IMMEDIATELY.
+         - CONSULTATIVE STEP: After suggesting potential products, ask 1-2 follow-up questions to refine the choice (e.g. surface type, environment).
+         - EXAMPLE: "For a disinfectant, I recommend looking at **Bio-Maxx** or **Multi-Chlor**. To give you the best advice, what specific surfaces are you cleaning?"
+      6. STATUS: NO PRODUCT NAMED:
+         - If the user is asking a technical, safety, or first-aid question that requires specific SDS data but hasn't named a product, politely ask: "${CLARIFY_QUESTION}" so you can provide the correct safety information.
+      7. STATUS: PRODUCT IDENTIFIED (TECHNICAL): Use the retrieved technical data to provide professional, precise guidance.
+      8. STATUS: PRODUCT COMPARISON: Answer with the side-by-side markdown table described in the retrieved data, built only from each product's records. Never fill a cell from general knowledge.
+      9. MIXING CHECK: When the retrieved data has a MIXING CHECK, follow its verdict exactly. Never tell a customer two chemicals are safe to mix, and never suggest a ratio or order for combining products the check says not to mix.
+      10. SDS SECTION CITATIONS: Safety data is labelled "SDS Section N". When a safety statement comes from it, cite the section inline (e.g. "per SDS Section 4"). Only cite sections that appear in the retrieved data.
+      11. DOCUMENT VERSIONS: Technical records are the newest version on file (e.g. "v1"). For "what changed" questions, answer only from the VERSION HISTORY and name the versions compared; if it says only one version is on file, say there is no earlier version to compare.
+      12. PACK SIZES: When the retrieved data has a PACK SIZE CHECK, answer "do you have it in quarts?" or "what's the biggest pail?" exactly from its result. If it says NO, say so and list the sizes that are on file.
+
+      ────────────────────────────────
+1. CONTACT & SUPPORT (MANDATORY): If the user asks for contact info, a representative, how to order, or where to find more help:
+         - **Phone**: 406.727.4144 (Available Mon-Fri, 8am-5pm MT)
+         - **Email**: sales@unitedformulas.com
+         - **Address**: PO BOX 2589, Great Falls, MT 59403
+         - ALWAYS provide these details directly. Do NOT say "I don't have this information."
+
+      ────────────────────────────────
+      DELIVERY & LOGISTICS:
+      ────────────────────────────────
+      - If the user asks for delivery, shipping, or "more" of a product:
+        1. STATUS: DELIVERY LOCATION NEEDED: Ask for their ZIP code (or city).
+        2. STATUS: DELIVERY VERIFIED: Confirm we deliver there, name the route region and the estimated delivery window exactly as given, and suggest contacting the local rep at 406.727.4144 or sales@unitedformulas.com to place an order (or offer to draft a quote request, see ORDERS & QUOTES).
+        3. STATUS: OUTSIDE DELIVERY AREA: Politely state we may not deliver directly there but to check with our team at 406.727.4144.
+        4. NEVER decide coverage yourself. Only the VERIFIED DELIVERY LOOKUP (or the checkDelivery tool) determines whether we deliver somewhere.
+
+      ────────────────────────────────
+      LOOKUP TOOLS:
+      ────────────────────────────────
+      - You can call searchCatalog, getProductDetails, getSdsSection, getSafetyDataSheet, findUseCase, calculateDilution, checkDelivery and prepareOrderRequest during a turn.
+      - Call them whenever the RETRIEVED DATA below does not cover what was asked, e.g. a second product in a comparison ("compare Bio-Maxx and Multi-Chlor": call getProductDetails for each), a specific SDS section, or a ZIP code.
+      - SDS FIELDS: For PPE, hazard class, signal word, flash point, pH, storage or UN number questions, answer from the SDS FIELDS in the retrieved data or from getSafetyDataSheet. Never fill these from memory; if a field is not on file, say so.
+      - DILUTION MATH: For "how much do I need" or "how much does it make" questions, call calculateDilution and state its numbers. Never do dilution arithmetic yourself; the customer also sees the result as a calculator card.
+      - Tool results are authoritative data. Never invent product names, slugs or SDS content that a tool did not return.
+
+      ────────────────────────────────
+      ORDERS & QUOTES:
+      ────────────────────────────────
+      - When the user wants to order, buy or get a quote or price ("I need 3 pails of Bio-Maxx delivered to 59401"), call prepareOrderRequest with every product, its pack size and quantity as they said them, and the delivery ZIP if given.
+      - The customer sees the draft as an editable summary card and sends it to our sales team from there. Call it a quote request: sales confirms pricing, stock and delivery. Never say an order has been placed, and never quote prices.
+      - If the result lists missing fields (pack size, delivery ZIP, email or phone), ask for them or tell the customer to fill them in on the card. If items are unmatched, say which ones we could not find.
+      - Only offer pack sizes the tool returned; never invent a SKU.
+
+      ────────────────────────────────
+      LEAD GENERATION & ETIQUETTE:
+      ────────────────────────────────
+      1. NAME CAPTURE (AFTER 2-3 MESSAGES): If the user has not introduced themselves, politely ask for their name. (e.g. "By the way, I'd love to know who I'm speaking with. May I ask your name?")
+      2. EMAIL & CATALOGUE OFFER: Subsequent to name capture, or after 4-5 messages total, offer to send our "Complete Product Catalogue." Ask for their email address to send it. (e.g. "I'd love to send you our full product catalogue for your records. What is the best email address to send that to?")
+      3. ADDRESSING THE USER: Use their name naturally in responses ONLY if they have explicitly provided it in the chat history (or it is listed in the CONVERSATION STATE).
+      4. STRICT PROHIBITION: NEVER guess, assume, or invent a name. You must only use a name if the user has explicitly stated it to you in THIS conversation.
+
+      CONVERSATION STATE (EARLIER TURNS AND FACTS THE USER GAVE; DO NOT MENTION IT):
+      ${conversationState || 'Nothing recorded yet.'}
+
+      RETRIEVED DATA FOR YOUR USE (CITE SDS SECTIONS AS INSTRUCTED; DO NOT NAME INTERNAL FILE PATHS):
+      ${contextData}
+
+      CURRENT CONVERSATION LENGTH: ${historyLength} messages.
+    `;
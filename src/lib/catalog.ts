@@ -0,0 +1,201 @@
+import type { UseCase } from '@/lib/chatTools';
+import type { ProductMetadata, ProductMetadataEntry } from '@/lib/productResolver';
+
+// Editable catalog: product metadata (with pack-size variants) and use-case mappings.
+// Every save is a numbered version holding the full catalog, so an edit can be reviewed or rolled back.
+
+export type CatalogData = {
+    products: ProductMetadata;
+    useCases: UseCase[];
+};
+
+export type CatalogChange = {
+    author: string;
+    summary: string;
+};
+
+export type CatalogVersion = CatalogChange & {
+    version: number;
+    // ISO timestamp
+    createdAt: string;
+    productCount: number;
+    useCaseCount: number;
+};
+
+export type CatalogSnapshot = CatalogVersion & {
+    data: CatalogData;
+};
+
+export interface CatalogStore {
+    // Latest version, or null before the first save (the bundled JSON files are served until then)
+    current(): Promise<CatalogSnapshot | null>;
+    // Writes data as baseVersion + 1; resolves to null if someone else saved since baseVersion
+    save(data: CatalogData, change: CatalogChange, baseVersion: number): Promise<CatalogSnapshot | null>;
+    // Newest first, without the catalog data
+    history(limit: number): Promise<CatalogVersion[]>;
+    getVersion(version: number): Promise<CatalogSnapshot | null>;
+}
+
+export type CatalogIssue = {
+    severity: 'error' | 'warning';
+    // e.g. `products.bio-maxx.variants` or `useCases[wine stains].products`
+    path: string;
+    message: string;
+};
+
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const MAX_TEXT_LENGTH = 5000;
+
+export const isValidSlug = (slug: unknown): slug is string =>
+    typeof slug === 'string' && SLUG_PATTERN.test(slug);
+
+const trimmedString = (value: unknown) => (typeof value === 'string' ? value.trim() : undefined);
+
+const trimmedList = (value: unknown) =>
+    Array.isArray(value) ? [...new Set(value.map(trimmedString).filter((item): item is string => !!item))] : undefined;
+
+/**
+ * Product entry from an admin request: strings trimmed, empty fields dropped, variants de-duplicated.
+ */
+export const parseProductEntry = (input: unknown): { entry: ProductMetadataEntry } | { error: string } => {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) return { error: 'product must be an object' };
+    const raw = input as Record<string, unknown>;
+    for (const field of ['displayName', 'canonicalDescription', 'category'] as const) {
+        if (raw[field] !== undefined && typeof raw[field] !== 'string') return { error: `${field} must be a string` };
+    }
+    if (raw.variants !== undefined && !Array.isArray(raw.variants)) return { error: 'variants must be an array of slugs' };
+
+    const entry: ProductMetadataEntry = {};
+    const displayName = trimmedString(raw.displayName);
+    const canonicalDescription = trimmedString(raw.canonicalDescription);
+    const category = trimmedString(raw.category);
+    const variants = trimmedList(raw.variants);
+    if (displayName) entry.displayName = displayName;
+    if (canonicalDescription) entry.canonicalDescription = canonicalDescription;
+    if (category) entry.category = category;
+    if (variants?.length) entry.variants = variants;
+    return { entry };
+};
+
+/**
+ * Use-case list from an admin request, in the shape of src/data/use_cases.json.
+ */
+export const parseUseCases = (input: unknown): { useCases: UseCase[] } | { error: string } => {
+    if (!Array.isArray(input)) return { error: 'useCases must be an array' };
+    const useCases: UseCase[] = [];
+    for (const [i, item] of input.entries()) {
+        if (!item || typeof item !== 'object') return { error: `useCases[${i}] must be an object` };
+        const products = trimmedList(item.products);
+        if (!products) return { error: `useCases[${i}].products must be an array of slugs` };
+        useCases.push({ issue: trimmedString(item.issue) || '', solution: trimmedString(item.solution) || '', products });
+    }
+    return { useCases };
+};
+
+export const validateProduct = (slug: string, entry: ProductMetadataEntry): CatalogIssue[] => {
+    const issues: CatalogIssue[] = [];
+    const at = `products.${slug}`;
+    if (!isValidSlug(slug)) {
+        issues.push({ severity: 'error', path: at, message: 'Slug must be lowercase letters, digits and single hyphens' });
+    }
+    if (!entry.displayName) issues.push({ severity: 'error', path: `${at}.displayName`, message: 'Display name is required' });
+    if (!entry.category) issues.push({ severity: 'warning', path: `${at}.category`, message: 'No category' });
+    if (!entry.canonicalDescription) {
+        issues.push({ severity: 'warning', path: `${at}.canonicalDescription`, message: 'No description' });
+    }
+    if ((entry.canonicalDescription?.length || 0) > MAX_TEXT_LENGTH) {
+        issues.push({ severity: 'error', path: `${at}.canonicalDescription`, message: `Description is over ${MAX_TEXT_LENGTH} characters` });
+    }
+    for (const variant of entry.variants || []) {
+        if (!isValidSlug(variant)) {
+            issues.push({ severity: 'error', path: `${at}.variants`, message: `Variant "${variant}" is not a valid slug` });
+        }
+    }
+    return issues;
+};
+
+export const validateUseCase = (useCase: UseCase, products: ProductMetadata): CatalogIssue[] => {
+    const issues: CatalogIssue[] = [];
+    const at = `useCases[${useCase.issue || '(untitled)'}]`;
+    if (!useCase.issue) issues.push({ severity: 'error', path: `${at}.issue`, message: 'Issue is required' });
+    if (!useCase.solution) issues.push({ severity: 'error', path: `${at}.solution`, message: 'Solution is required' });
+    if (useCase.products.length === 0) {
+        issues.push({ severity: 'error', path: `${at}.products`, message: 'Map at least one product' });
+    }
+    for (const slug of useCase.products) {
+        if (!products[slug]) issues.push({ severity: 'error', path: `${at}.products`, message: `Unknown product "${slug}"` });
+    }
+    return issues;
+};
+
+/**
+ * Every issue in the catalog. Errors block a save only when the edit introduces them (see introducedErrors),
+ * so entries that predate the admin area stay editable.
+ */
+export const validateCatalog = (data: CatalogData): CatalogIssue[] => {
+    const issues = Object.entries(data.products).flatMap(([slug, entry]) => validateProduct(slug, entry));
+
+    // Family entries (e.g. dynamo-x) list their members' pack sizes too, so a shared variant is only a warning
+    const variantOwners = new Map<string, string[]>();
+    for (const [slug, entry] of Object.entries(data.products)) {
+        for (const variant of entry.variants || []) {
+            variantOwners.set(variant, [...(variantOwners.get(variant) || []), slug]);
+        }
+    }
+    for (const [variant, owners] of variantOwners) {
+        if (owners.length > 1) {
+            issues.push({ severity: 'warning', path: `products.${owners[0]}.variants`, message: `Variant "${variant}" is also listed under ${owners.slice(1).join(', ')}` });
+        }
+    }
+
+    const seenIssues = new Set<string>();
+    for (const useCase of data.useCases) {
+        issues.push(...validateUseCase(useCase, data.products));
+        const key = useCase.issue.toLowerCase();
+        if (key && seenIssues.has(key)) {
+            issues.push({ severity: 'error', path: `useCases[${useCase.issue}]`, message: 'Duplicate issue' });
+        }
+        seenIssues.add(key);
+    }
+    return issues;
+};
+
+const issueKey = (issue: CatalogIssue) => `${issue.path}\n${issue.message}`;
+
+// Errors in `after` that `before` didn't already have
+export const introducedErrors = (before: CatalogData, after: CatalogData): CatalogIssue[] => {
+    const existing = new Set(validateCatalog(before).filter((issue) => issue.severity === 'error').map(issueKey));
+    return validateCatalog(after).filter((issue) => issue.severity === 'error' && !existing.has(issueKey(issue)));
+};
+
+export const toCatalogVersion = ({ data: _data, ...version }: CatalogSnapshot): CatalogVersion => version;
+
+export const newSnapshot = (data: CatalogData, change: CatalogChange, version: number): CatalogSnapshot => ({
+    ...change,
+    version,
+    createdAt: new Date().toISOString(),
+    productCount: Object.keys(data.products).length,
+    useCaseCount: data.useCases.length,
+    data,
+});
+
+export const createMemoryCatalogStore = (): CatalogStore => {
+    const versions: CatalogSnapshot[] = [];
+    return {
+        async current() {
+            return versions[versions.length - 1] || null;
+        },
+        async save(data, change, baseVersion) {
+            if (baseVersion !== versions.length) return null;
+            const snapshot = newSnapshot(data, change, baseVersion + 1);
+            versions.push(snapshot);
+            return snapshot;
+        },
+        async history(limit) {
+            return versions.slice(-limit).reverse().map(toCatalogVersion);
+        },
+        async getVersion(version) {
+            return versions[version - 1] || null;
+        },
+    };
+};
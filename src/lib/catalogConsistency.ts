@@ -0,0 +1,217 @@
+import { isValidSlug } from '@/lib/catalog';
+import type { UseCase } from '@/lib/chatTools';
+import { parseDocumentName } from '@/lib/documentVersions';
+import { normalizeProductText, ProductMetadata } from '@/lib/productResolver';
+
+// Cross-checks the data sources that have to line up for retrieval to find a product:
+// product metadata (keys and variants), use-case mappings, the harvested librarian guide,
+// the enrichment CSV and the bucket file names. A mismatch here is a question that silently
+// gets no documents, so the report names every one.
+
+export type ConsistencyCheck =
+    | 'invalid-slug'
+    | 'duplicate-variant'
+    | 'unknown-use-case-product'
+    | 'orphan-file'
+    | 'orphan-slug'
+    | 'orphan-sku'
+    | 'missing-sds'
+    | 'missing-protocol'
+    | 'guide-unknown-name'
+    | 'missing-guide-entry'
+    | 'placeholder-content';
+
+export type ConsistencyIssue = {
+    check: ConsistencyCheck;
+    severity: 'error' | 'warning';
+    // The slug, file name or guide entry the issue is about
+    subject: string;
+    message: string;
+};
+
+export type ConsistencyInput = {
+    products: ProductMetadata;
+    useCases: UseCase[];
+    // Bucket object names, e.g. `sku_master/sku_master__bio-maxx__v1.txt`
+    files: string[];
+    // product_guide_harvested.txt (`Name | Summary | Notes` lines)
+    guide?: string;
+    // Enrichment CSV rows (SKU, Name, ...)
+    enrichment?: Record<string, string>[];
+    // Document texts to scan for placeholder content, keyed by object name
+    documents?: Record<string, string>;
+};
+
+export type ConsistencyReport = {
+    issues: ConsistencyIssue[];
+    counts: {
+        products: number;
+        skus: number;
+        files: number;
+        errors: number;
+        warnings: number;
+    };
+};
+
+// Missing SDS coverage and broken keys are errors; the rest degrade answers rather than break them
+const SEVERITY: Record<ConsistencyCheck, ConsistencyIssue['severity']> = {
+    'invalid-slug': 'error',
+    'duplicate-variant': 'warning',
+    'unknown-use-case-product': 'error',
+    'orphan-file': 'warning',
+    'orphan-slug': 'warning',
+    'orphan-sku': 'warning',
+    'missing-sds': 'error',
+    'missing-protocol': 'warning',
+    'guide-unknown-name': 'warning',
+    'missing-guide-entry': 'warning',
+    'placeholder-content': 'warning',
+};
+
+// Stand-in text left by the harvesting scripts; the model would otherwise read it as a real protocol
+export const PLACEHOLDER_PATTERNS: RegExp[] = [
+    /No protocol instructions found in source data/i,
+    /Professional Protocol Required/i,
+    /lorem ipsum/i,
+    /\[(?:insert|placeholder|todo)\b[^\]]*\]/i,
+    /\bTBD\b/,
+];
+
+const PRODUCT_FAMILIES = ['grounding', 'sku_master', 'sku_protocol', 'sku_procurement'];
+
+// One spelling per product or pack size: "bio-maxx-4x1-gallon", "bio-maxx-4x1-gal" and "Bio-Maxx - 4x1 Gallon" agree
+export const catalogKey = (text: string) => normalizeProductText(text).join('');
+
+export const parseGuideEntries = (guide: string) =>
+    guide
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line && !line.startsWith('#') && line.includes('|'))
+        .map((line) => {
+            const [name, summary = '', notes = ''] = line.split('|').map((part) => part.trim());
+            return { name, summary, notes, line };
+        });
+
+export const findPlaceholders = (text: string) =>
+    PLACEHOLDER_PATTERNS.map((pattern) => text.match(pattern)?.[0]).filter((match): match is string => !!match);
+
+export const checkCatalogConsistency = (input: ConsistencyInput): ConsistencyReport => {
+    const issues: ConsistencyIssue[] = [];
+    const report = (check: ConsistencyCheck, subject: string, message: string) =>
+        issues.push({ check, severity: SEVERITY[check], subject, message });
+
+    // Every SKU (product key or variant) with the product that owns it
+    const skuOwners = new Map<string, string[]>();
+    const addOwner = (sku: string, owner: string) => skuOwners.set(sku, [...new Set([...(skuOwners.get(sku) || []), owner])]);
+    for (const [slug, entry] of Object.entries(input.products)) {
+        addOwner(slug, slug);
+        for (const variant of entry.variants || []) addOwner(variant, slug);
+    }
+    const skusByKey = new Map<string, string[]>();
+    for (const sku of skuOwners.keys()) {
+        skusByKey.set(catalogKey(sku), [...(skusByKey.get(catalogKey(sku)) || []), sku]);
+    }
+
+    for (const sku of skuOwners.keys()) {
+        if (!isValidSlug(sku)) report('invalid-slug', sku, 'Metadata slug is not lowercase-hyphenated, so file and URL lookups miss it');
+    }
+
+    for (const [slug, entry] of Object.entries(input.products)) {
+        const byKey = new Map<string, string[]>();
+        for (const variant of entry.variants || []) byKey.set(catalogKey(variant), [...(byKey.get(catalogKey(variant)) || []), variant]);
+        for (const spellings of byKey.values()) {
+            if (spellings.length > 1) report('duplicate-variant', slug, `${spellings.join(' and ')} are the same pack size`);
+        }
+    }
+    for (const [sku, owners] of skuOwners) {
+        const listedUnder = owners.filter((owner) => owner !== sku);
+        if (listedUnder.length > 1) report('duplicate-variant', sku, `Listed as a variant of ${listedUnder.join(', ')}`);
+    }
+
+    for (const useCase of input.useCases) {
+        for (const slug of useCase.products) {
+            if (input.products[slug]) continue;
+            const suggestion = skusByKey.get(catalogKey(slug))?.[0];
+            report('unknown-use-case-product', slug, `Use case "${useCase.issue}" maps to an unknown product${suggestion ? ` (did you mean ${suggestion}?)` : ''}`);
+        }
+    }
+
+    // Bucket files by the catalog key of their slug, so "Delta Green" files still count for delta-green
+    const familiesByKey = new Map<string, Set<string>>();
+    for (const file of input.files) {
+        const parsed = parseDocumentName(file);
+        if (!parsed || !PRODUCT_FAMILIES.includes(parsed.family)) continue;
+        if (!isValidSlug(parsed.slug)) report('invalid-slug', file, `File slug "${parsed.slug}" is not lowercase-hyphenated`);
+        const key = catalogKey(parsed.slug);
+        if (!familiesByKey.has(key)) familiesByKey.set(key, new Set());
+        familiesByKey.get(key)!.add(parsed.family);
+        if (!skusByKey.has(key)) report('orphan-file', file, 'No product or variant in the metadata matches this file');
+    }
+
+    // A variant without its own SDS or protocol falls back to its product's files
+    const familiesFor = (sku: string) => new Set(
+        [sku, ...(skuOwners.get(sku) || [])].flatMap((slug) => [...(familiesByKey.get(catalogKey(slug)) || [])]),
+    );
+    for (const sku of skuOwners.keys()) {
+        const available = familiesFor(sku);
+        if (available.size === 0) {
+            report('orphan-slug', sku, 'No bucket files for this SKU or its product');
+            continue;
+        }
+        if (!available.has('grounding')) report('missing-sds', sku, 'No grounding/ SDS file for this SKU or its product');
+        if (!available.has('sku_protocol')) report('missing-protocol', sku, 'No sku_protocol file for this SKU or its product');
+    }
+
+    if (input.enrichment) {
+        const csvKeys = new Set<string>();
+        for (const row of input.enrichment) {
+            const sku = row.SKU?.trim();
+            if (!sku) continue;
+            csvKeys.add(catalogKey(sku));
+            if (!skusByKey.has(catalogKey(sku))) report('orphan-sku', sku, `Enrichment CSV SKU${row.Name ? ` "${row.Name}"` : ''} is not in the product metadata`);
+        }
+        for (const slug of Object.keys(input.products)) {
+            if (!csvKeys.has(catalogKey(slug))) report('orphan-sku', slug, 'Product is missing from the enrichment CSV');
+        }
+    }
+
+    if (input.guide !== undefined) {
+        // Guide names are display names, with " - <pack size>" for variants
+        const knownNames = new Set<string>(skusByKey.keys());
+        for (const entry of Object.values(input.products)) if (entry.displayName) knownNames.add(catalogKey(entry.displayName));
+        for (const row of input.enrichment || []) if (row.Name) knownNames.add(catalogKey(row.Name));
+
+        const guideKeys = new Set<string>();
+        for (const entry of parseGuideEntries(input.guide)) {
+            guideKeys.add(catalogKey(entry.name));
+            if (!knownNames.has(catalogKey(entry.name))) report('guide-unknown-name', entry.name, 'Guide entry matches no product, variant or CSV name');
+            const placeholders = findPlaceholders(entry.line);
+            if (placeholders.length > 0) {
+                report('placeholder-content', entry.name, `Guide entry contains placeholder text: ${placeholders.map((p) => `"${p}"`).join(', ')}`);
+            }
+        }
+        for (const [slug, entry] of Object.entries(input.products)) {
+            if (!guideKeys.has(catalogKey(entry.displayName || slug)) && !guideKeys.has(catalogKey(slug))) {
+                report('missing-guide-entry', slug, 'Product has no line in the librarian guide');
+            }
+        }
+    }
+
+    for (const [name, text] of Object.entries(input.documents || {})) {
+        const placeholders = findPlaceholders(text);
+        if (placeholders.length > 0) {
+            report('placeholder-content', name, `Document contains placeholder text: ${placeholders.map((p) => `"${p}"`).join(', ')}`);
+        }
+    }
+
+    return {
+        issues,
+        counts: {
+            products: Object.keys(input.products).length,
+            skus: skuOwners.size,
+            files: input.files.length,
+            errors: issues.filter((issue) => issue.severity === 'error').length,
+            warnings: issues.filter((issue) => issue.severity === 'warning').length,
+        },
+    };
+};
@@ -0,0 +1,146 @@
+import { getFirestore } from '@/lib/firestore';
+import {
+    CatalogChange,
+    CatalogData,
+    CatalogIssue,
+    CatalogSnapshot,
+    CatalogStore,
+    CatalogVersion,
+    createMemoryCatalogStore,
+    introducedErrors,
+    newSnapshot,
+} from '@/lib/catalog';
+import { parseProductMetadata, parseUseCaseList } from '@/lib/ingestion/schemas';
+
+const fs = require('fs');
+const path = require('path');
+
+const VERSIONS_COLLECTION = 'catalogVersions';
+const VERSION_FIELDS = ['version', 'createdAt', 'author', 'summary', 'productCount', 'useCaseCount'];
+
+// One document per version, keyed by version number; the highest one is the live catalog
+export const createFirestoreCatalogStore = (): CatalogStore => {
+    const versions = () => getFirestore().collection(VERSIONS_COLLECTION);
+    const latest = () => versions().orderBy('version', 'desc').limit(1);
+
+    return {
+        async current() {
+            const snapshot = await latest().get();
+            return snapshot.empty ? null : (snapshot.docs[0].data() as CatalogSnapshot);
+        },
+        // The next version's document doubles as the lock: if it already exists, someone saved first
+        save: (data, change, baseVersion) => getFirestore().runTransaction(async (transaction) => {
+            const ref = versions().doc(String(baseVersion + 1));
+            const existing = await transaction.get(ref);
+            if (existing.exists) return null;
+            const snapshot = newSnapshot(data, change, baseVersion + 1);
+            transaction.create(ref, snapshot);
+            return snapshot;
+        }),
+        async history(limit) {
+            const snapshot = await versions().orderBy('version', 'desc').limit(limit).select(...VERSION_FIELDS).get();
+            return snapshot.docs.map((doc) => doc.data() as CatalogVersion);
+        },
+        async getVersion(version) {
+            const snapshot = await versions().doc(String(version)).get();
+            return snapshot.exists ? (snapshot.data() as CatalogSnapshot) : null;
+        },
+    };
+};
+
+// Kept on globalThis: each API route is bundled separately, and the admin routes and the chat route
+// must share the memory store
+const globalCatalog = globalThis as typeof globalThis & {
+    catalogStore?: CatalogStore;
+};
+
+/**
+ * Catalog store selected by CATALOG_STORE: `memory` (default in development) or `firestore` (default in production).
+ */
+export const getCatalogStore = () => {
+    if (!globalCatalog.catalogStore) {
+        const kind = process.env.CATALOG_STORE || (process.env.NODE_ENV === 'production' ? 'firestore' : 'memory');
+        globalCatalog.catalogStore = kind === 'firestore' ? createFirestoreCatalogStore() : createMemoryCatalogStore();
+    }
+    return globalCatalog.catalogStore;
+};
+
+const readJson = (relativePath: string, fallback: unknown) => {
+    const filePath = path.join(process.cwd(), relativePath);
+    return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf8')) : fallback;
+};
+
+let bundledCatalog: CatalogData | null = null;
+
+// Schema check on load: malformed entries are logged and dropped instead of reaching the resolver and prompts
+const checkCatalogSchema = (raw: { products: unknown; useCases: unknown }, source: string): CatalogData => {
+    const products = parseProductMetadata(raw.products);
+    const useCases = parseUseCaseList(raw.useCases);
+    for (const error of [...products.errors, ...useCases.errors]) console.warn(`[catalog] ${source}: dropped ${error}`);
+    return { products: products.value, useCases: useCases.value };
+};
+
+// The catalog shipped with the app, served until the first admin save
+export const loadBundledCatalog = (): CatalogData => {
+    bundledCatalog ??= checkCatalogSchema({
+        products: readJson('src/data/product_metadata.json', {}),
+        useCases: readJson('src/data/use_cases.json', []),
+    }, 'bundled files');
+    return bundledCatalog;
+};
+
+export type LoadedCatalog = {
+    // 0 while the bundled files are being served
+    version: number;
+    data: CatalogData;
+};
+
+/**
+ * Live catalog for the chat and admin routes, schema-checked. A store outage falls back to the bundled files
+ * so the chat keeps answering.
+ */
+export const loadCatalog = async (): Promise<LoadedCatalog> => {
+    try {
+        const snapshot = await getCatalogStore().current();
+        if (snapshot) return { version: snapshot.version, data: checkCatalogSchema(snapshot.data, `version ${snapshot.version}`) };
+    } catch (error) {
+        console.error('Catalog store unavailable, using bundled catalog:', error);
+    }
+    return { version: 0, data: loadBundledCatalog() };
+};
+
+/**
+ * Version of the live catalog (0 before the first save), read without the catalog data. Callers that cache the
+ * catalog compare it per request, so a save on any server instance is picked up on the next one. Null while the
+ * store is unavailable, in which case the cached catalog is kept.
+ */
+export const currentCatalogVersion = async (): Promise<number | null> => {
+    try {
+        const [latest] = await getCatalogStore().history(1);
+        return latest?.version ?? 0;
+    } catch (error) {
+        console.error('Catalog store unavailable, keeping the cached catalog:', error);
+        return null;
+    }
+};
+
+export type CatalogSaveResult =
+    | { status: 'saved'; snapshot: CatalogSnapshot }
+    | { status: 'invalid'; issues: CatalogIssue[] }
+    | { status: 'conflict'; version: number };
+
+/**
+ * Validates an edit against the catalog it was based on and saves it as the next version.
+ */
+export const saveCatalog = async (
+    before: LoadedCatalog,
+    data: CatalogData,
+    change: CatalogChange,
+): Promise<CatalogSaveResult> => {
+    const issues = introducedErrors(before.data, data);
+    if (issues.length > 0) return { status: 'invalid', issues };
+
+    const snapshot = await getCatalogStore().save(data, change, before.version);
+    if (!snapshot) return { status: 'conflict', version: (await loadCatalog()).version };
+    return { status: 'saved', snapshot };
+};
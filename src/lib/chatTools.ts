@@ -0,0 +1,419 @@
+import { debugLog } from '@/lib/debugLog';
+import { DeliveryZone, lookupZip } from '@/lib/delivery';
+import { calculateDilution as computeDilution, DilutionRatio, parseDilutionRatios, parseVolumeUnit, Volume } from '@/lib/dilution';
+import type { ParsedDocument } from '@/lib/documentCache';
+import type { LLMChatSession, LLMToolDeclaration, LLMTurnInput } from '@/lib/llm';
+import { buildOrderDraft, emptyContact, MAX_ORDER_LINES, OrderContact } from '@/lib/orderRequests';
+import { describePackSize, getPackSizes } from '@/lib/packSizes';
+import { getDocumentFamily, isSdsFile } from '@/lib/productDocuments';
+import { ProductIndex, ProductMetadata, resolveProduct, RESOLVER_CONFIDENCE_THRESHOLD, similarity } from '@/lib/productResolver';
+import { tokenize } from '@/lib/retrieval';
+import { getSafetyDataSheet as loadSafetyDataSheet } from '@/lib/safetyDataSheet';
+import { formatSdsSection, GHS_SECTION_TITLES } from '@/lib/sdsSections';
+import { getPublicUrl } from '@/lib/storage';
+
+// Typed lookups Dr. Aris can call mid-turn (function calling on any LLM provider).
+// Each handler returns plain JSON; errors come back as `{ error }` so the model can recover.
+
+export type UseCase = {
+    issue: string;
+    solution: string;
+    products: string[];
+};
+
+export type ChatToolContext = {
+    productIndex: ProductIndex;
+    productMetadata: ProductMetadata;
+    useCases: UseCase[];
+    deliveryZones: DeliveryZone[];
+    loadDocument: (name: string) => Promise<ParsedDocument>;
+    // Contact details captured in this chat (the session's lead), for order requests
+    getContact?: () => Promise<OrderContact | null>;
+};
+
+export const MAX_TOOL_ROUNDS = 4;
+
+const MAX_SECTION_LENGTH = 6000;
+
+export const CHAT_TOOL_DECLARATIONS: LLMToolDeclaration[] = [
+    {
+        name: 'searchCatalog',
+        description: 'Search the United Formulas catalog by product name, category or use (e.g. "floor cleaner", "dish machine", "Bio-Maxx"). Returns up to 5 products with slugs.',
+        parameters: {
+            type: 'object',
+            properties: {
+                query: { type: 'string', description: 'Product name, category or intended use' },
+            },
+            required: ['query'],
+        },
+    },
+    {
+        name: 'getProductDetails',
+        description: 'Get the official description, category, pack sizes (count x unit size, total volume or weight, SKU) and SDS link for one product. Call once per product when comparing products.',
+        parameters: {
+            type: 'object',
+            properties: {
+                slug: { type: 'string', description: 'Product slug (e.g. "bio-maxx") or product name' },
+            },
+            required: ['slug'],
+        },
+    },
+    {
+        name: 'getSdsSection',
+        description: 'Get one section (1-16) of a product\'s Safety Data Sheet, e.g. 2 hazards, 4 first aid, 7 handling and storage, 8 PPE, 10 stability and reactivity.',
+        parameters: {
+            type: 'object',
+            properties: {
+                slug: { type: 'string', description: 'Product slug or product name' },
+                section: { type: 'integer', description: 'GHS SDS section number, 1-16' },
+            },
+            required: ['slug', 'section'],
+        },
+    },
+    {
+        name: 'getSafetyDataSheet',
+        description: 'Get the structured SDS fields for one product: signal word, GHS pictograms, H and P statements, first aid by exposure route, PPE, flash point, pH, storage and transport (UN number). Use for PPE and hazard questions.',
+        parameters: {
+            type: 'object',
+            properties: {
+                slug: { type: 'string', description: 'Product slug or product name' },
+            },
+            required: ['slug'],
+        },
+    },
+    {
+        name: 'findUseCase',
+        description: 'Find the recommended products for a cleaning problem (e.g. "wine stains", "hard water buildup").',
+        parameters: {
+            type: 'object',
+            properties: {
+                issue: { type: 'string', description: 'The problem the customer describes' },
+            },
+            required: ['issue'],
+        },
+    },
+    {
+        name: 'calculateDilution',
+        description: 'Compute dilution amounts from the product\'s protocol record: concentrate needed for a use-solution volume (e.g. a 3 gallon mop bucket), or the use-solution a container of concentrate makes (e.g. a 5 gallon pail). Always use this instead of doing dilution arithmetic yourself.',
+        parameters: {
+            type: 'object',
+            properties: {
+                slug: { type: 'string', description: 'Product slug or product name' },
+                solutionAmount: { type: 'number', description: 'Volume of use-solution to make' },
+                solutionUnit: { type: 'string', description: 'Unit of solutionAmount: gal, qt, pt, cup, oz, l or ml' },
+                concentrateAmount: { type: 'number', description: 'Volume of concentrate available, instead of solutionAmount' },
+                concentrateUnit: { type: 'string', description: 'Unit of concentrateAmount: gal, qt, pt, cup, oz, l or ml' },
+                use: { type: 'string', description: 'Application when the protocol lists several ratios (e.g. "damp mopping", "heavy duty")' },
+                ratio: { type: 'string', description: 'A ratio the customer stated themselves (e.g. "1:64", "2 oz per gallon"); otherwise omit' },
+                price: { type: 'number', description: 'Price of the concentrate container, in dollars, to get the cost per gallon of use-solution' },
+            },
+            required: ['slug'],
+        },
+    },
+    {
+        name: 'checkDelivery',
+        description: 'Check whether United Formulas delivers to a ZIP code. Returns the county, route region and estimated delivery window.',
+        parameters: {
+            type: 'object',
+            properties: {
+                zip: { type: 'string', description: '5-digit US ZIP code' },
+            },
+            required: ['zip'],
+        },
+    },
+    {
+        name: 'prepareOrderRequest',
+        description: 'Draft a quote / order request when the customer wants to order or get a price: products with pack size and quantity, and the delivery ZIP. The customer reviews, edits and submits the draft in the chat; sales confirms pricing and delivery. Nothing is ordered by this call.',
+        parameters: {
+            type: 'object',
+            properties: {
+                items: {
+                    type: 'array',
+                    description: 'One entry per product the customer wants',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            product: { type: 'string', description: 'Product slug or product name' },
+                            size: { type: 'string', description: 'Pack size or SKU as the customer said it (e.g. "5 gal pail", "4x1 gallon"); omit if not given' },
+                            quantity: { type: 'integer', description: 'Number of packs (cases, pails, bags); 1 if not given' },
+                        },
+                        required: ['product'],
+                    },
+                },
+                zip: { type: 'string', description: '5-digit delivery ZIP code, if the customer gave one' },
+            },
+            required: ['items'],
+        },
+    },
+];
+
+// Slugs are exact aliases in the resolver index, so names and slugs go through the same path.
+// A low-confidence match is no match: a similar name must not get another product's SDS or pack sizes.
+const findProduct = (slugOrName: unknown, ctx: ChatToolContext) => {
+    const match = resolveProduct(String(slugOrName || '').trim(), ctx.productIndex);
+    return match && match.score >= RESOLVER_CONFIDENCE_THRESHOLD ? match : null;
+};
+
+const searchCatalog = (args: any, ctx: ChatToolContext) => {
+    const query = String(args?.query || '');
+    const queryTokens = tokenize(query);
+
+    // Name matches first, then keyword overlap with category and description
+    const byName = new Map<string, number>();
+    const match = resolveProduct(query, ctx.productIndex);
+    if (match) byName.set(match.slug, 10 + match.score);
+
+    for (const [slug, details] of Object.entries(ctx.productMetadata)) {
+        const haystack = new Set(tokenize(`${details.displayName} ${details.category} ${details.canonicalDescription}`));
+        const overlap = queryTokens.filter((token) => haystack.has(token)).length;
+        if (overlap > 0) byName.set(slug, Math.max(byName.get(slug) || 0, overlap));
+    }
+
+    const results = Array.from(byName.entries())
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 5)
+        .map(([slug]) => ({
+            slug,
+            displayName: ctx.productMetadata[slug]?.displayName || slug,
+            category: ctx.productMetadata[slug]?.category || '',
+            description: ctx.productMetadata[slug]?.canonicalDescription || '',
+        }));
+
+    return { query, results };
+};
+
+const getProductDetails = (args: any, ctx: ChatToolContext) => {
+    const product = findProduct(args?.slug, ctx);
+    if (!product) return { error: `No product found for "${args?.slug}".` };
+
+    const details = ctx.productMetadata[product.slug] || {};
+    const sdsFile = product.files.find((name) => getDocumentFamily(name) === 'grounding') || product.files.find(isSdsFile);
+    return {
+        slug: product.slug,
+        displayName: details.displayName || product.slug,
+        category: details.category || '',
+        description: details.canonicalDescription || '',
+        packSizes: getPackSizes(product.slug, ctx.productMetadata, ctx.productIndex).map((pack) => ({
+            sku: pack.sku,
+            size: describePackSize(pack),
+            count: pack.count,
+            unitSize: pack.unitSize,
+            unit: pack.unit,
+            total: pack.total,
+            totalUnit: pack.totalUnit,
+        })),
+        sdsLink: sdsFile ? getPublicUrl(sdsFile) : null,
+    };
+};
+
+const getSdsSection = async (args: any, ctx: ChatToolContext) => {
+    const product = findProduct(args?.slug, ctx);
+    if (!product) return { error: `No product found for "${args?.slug}".` };
+
+    const section = Number(args?.section);
+    if (!Number.isInteger(section) || section < 1 || section > 16) {
+        return { error: 'section must be an integer from 1 to 16.' };
+    }
+
+    const sdsFiles = product.files.filter((name) => ['grounding', 'other'].includes(getDocumentFamily(name)));
+    for (const name of sdsFiles) {
+        const document = await ctx.loadDocument(name);
+        const found = document.sections.find((s) => s.number === section);
+        if (found) {
+            return {
+                slug: product.slug,
+                section,
+                title: GHS_SECTION_TITLES[section],
+                text: formatSdsSection(found).slice(0, MAX_SECTION_LENGTH),
+                source: name,
+                sdsLink: getPublicUrl(name),
+            };
+        }
+    }
+
+    return { error: `No SDS Section ${section} on file for ${product.displayName}.` };
+};
+
+const getSafetyDataSheet = async (args: any, ctx: ChatToolContext) => {
+    const product = findProduct(args?.slug, ctx);
+    if (!product) return { error: `No product found for "${args?.slug}".` };
+    const displayName = ctx.productMetadata[product.slug]?.displayName || product.displayName;
+
+    const sheet = await loadSafetyDataSheet(product.slug, product.files, ctx.loadDocument);
+    if (!sheet) return { error: `No SDS with GHS sections on file for ${displayName}.` };
+
+    const { source, ...fields } = sheet;
+    return {
+        slug: product.slug,
+        displayName,
+        ...fields,
+        source: source.name,
+        sdsLink: getPublicUrl(source.name),
+    };
+};
+
+const toVolume = (amount: unknown, unit: unknown): Volume | undefined | null => {
+    if (amount === undefined || amount === null) return undefined;
+    const parsedUnit = parseVolumeUnit(String(unit || 'gal'));
+    return parsedUnit && Number(amount) > 0 ? { amount: Number(amount), unit: parsedUnit } : null;
+};
+
+const calculateDilution = async (args: any, ctx: ChatToolContext) => {
+    const product = findProduct(args?.slug, ctx);
+    if (!product) return { error: `No product found for "${args?.slug}".` };
+    const displayName = ctx.productMetadata[product.slug]?.displayName || product.displayName;
+
+    // Ratios from the first protocol record that has any, else from the official description
+    let ratios: DilutionRatio[] = [];
+    let source: string | null = null;
+    for (const name of product.files.filter((file) => getDocumentFamily(file) === 'sku_protocol')) {
+        ratios = parseDilutionRatios((await ctx.loadDocument(name)).text);
+        if (ratios.length > 0) {
+            source = name;
+            break;
+        }
+    }
+    if (ratios.length === 0) {
+        ratios = parseDilutionRatios(ctx.productMetadata[product.slug]?.canonicalDescription || '');
+        if (ratios.length > 0) source = 'product_metadata.json';
+    }
+
+    const stated = args?.ratio ? parseDilutionRatios(String(args.ratio))[0] : undefined;
+    const use = String(args?.use || '').trim().toLowerCase();
+    const ratio = stated
+        || (use ? ratios.find((r) => r.label.toLowerCase().includes(use)) : undefined)
+        || ratios.find((r) => r.kind !== 'ppm');
+    if (!ratio) {
+        return { error: `No dilution ratio on file for ${displayName}. Do not estimate one: refer the customer to the product label or 406.727.4144.` };
+    }
+
+    const solution = toVolume(args?.solutionAmount, args?.solutionUnit);
+    const concentrate = toVolume(args?.concentrateAmount, args?.concentrateUnit);
+    if (solution === null || concentrate === null) return { error: 'Amounts must be positive numbers with a unit of gal, qt, pt, cup, oz, l or ml.' };
+    const price = Number(args?.price) > 0 ? Number(args.price) : undefined;
+
+    const input = { solution, concentrate, price };
+    const result = computeDilution(ratio, input);
+    if ('error' in result) return result;
+
+    return {
+        slug: product.slug,
+        displayName,
+        ratio,
+        availableRatios: ratios,
+        input,
+        result,
+        // null when the customer stated the ratio themselves
+        source: stated ? null : source,
+    };
+};
+
+const findUseCase = (args: any, ctx: ChatToolContext) => {
+    const issue = String(args?.issue || '').toLowerCase();
+    const issueTokens = new Set(tokenize(issue));
+
+    const scored = ctx.useCases
+        .map((useCase) => {
+            const tokens = tokenize(useCase.issue);
+            const overlap = tokens.filter((token) => issueTokens.has(token)).length / Math.max(tokens.length, 1);
+            return { useCase, score: Math.max(overlap, similarity(issue, useCase.issue.toLowerCase())) };
+        })
+        .filter(({ score }) => score >= 0.5)
+        .sort((a, b) => b.score - a.score);
+
+    if (scored.length === 0) return { issue, matches: [] };
+    return {
+        issue,
+        matches: scored.slice(0, 3).map(({ useCase }) => ({
+            issue: useCase.issue,
+            solution: useCase.solution,
+            products: useCase.products.map((slug) => ({
+                slug,
+                displayName: ctx.productMetadata[slug]?.displayName || slug,
+            })),
+        })),
+    };
+};
+
+const checkDelivery = (args: any, ctx: ChatToolContext) => {
+    const zip = String(args?.zip || '').trim();
+    if (!/^\d{5}$/.test(zip)) return { error: 'zip must be a 5-digit ZIP code.' };
+    return lookupZip(zip, ctx.deliveryZones);
+};
+
+const prepareOrderRequest = async (args: any, ctx: ChatToolContext) => {
+    const items = (Array.isArray(args?.items) ? args.items : [])
+        .filter((item: any) => item?.product || item?.slug)
+        .map((item: any) => ({ product: String(item.product || item.slug), size: item.size ? String(item.size) : undefined, quantity: Number(item.quantity) || 1 }));
+    if (items.length === 0) return { error: 'items must list at least one product.' };
+    if (items.length > MAX_ORDER_LINES) return { error: `An order request can have at most ${MAX_ORDER_LINES} items.` };
+
+    const zip = String(args?.zip || '').trim() || null;
+    if (zip && !/^\d{5}$/.test(zip)) return { error: 'zip must be a 5-digit ZIP code.' };
+
+    const contact = (await ctx.getContact?.()) || emptyContact();
+    return buildOrderDraft(items, zip, contact, { ...ctx, resolve: (product) => findProduct(product, ctx)?.slug || null });
+};
+
+const HANDLERS: Record<string, (args: any, ctx: ChatToolContext) => unknown> = {
+    searchCatalog,
+    getProductDetails,
+    getSdsSection,
+    getSafetyDataSheet,
+    findUseCase,
+    calculateDilution,
+    checkDelivery,
+    prepareOrderRequest,
+};
+
+/**
+ * Runs one tool call and logs it. Never throws: failures are returned to the model as `{ error }`.
+ */
+export const executeChatTool = async (name: string, args: unknown, ctx: ChatToolContext): Promise<object> => {
+    const started = Date.now();
+    const handler = HANDLERS[name];
+    let result: object;
+
+    try {
+        result = handler
+            ? ((await handler(args, ctx)) as object)
+            : { error: `Unknown tool "${name}".` };
+    } catch (err) {
+        console.error(`Tool ${name} failed:`, err);
+        result = { error: `Tool ${name} failed.` };
+    }
+
+    debugLog(`[tool] ${name} ${JSON.stringify(args)} -> ${'error' in result ? `error: ${(result as { error: unknown }).error}` : 'ok'} (${Date.now() - started}ms)`);
+    return result;
+};
+
+/**
+ * Sends `message` and answers tool calls until the model replies with text.
+ * `onText` receives answer text as it arrives, so streaming and JSON responses share one loop;
+ * `onToolResult` sees every tool result (e.g. to collect the answer's sources).
+ */
+export const runChatTurn = async (
+    session: LLMChatSession,
+    message: string,
+    ctx: ChatToolContext,
+    onText: (text: string) => void,
+    onToolResult?: (name: string, result: object) => void
+) => {
+    let input: LLMTurnInput = message;
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+        const result = session.stream(input);
+        for await (const text of result.stream) {
+            onText(text);
+        }
+
+        const { toolCalls } = await result.response;
+        if (toolCalls.length === 0) return;
+
+        input = await Promise.all(toolCalls.map(async (call) => {
+            const response = await executeChatTool(call.name, call.args, ctx);
+            onToolResult?.(call.name, response);
+            return { id: call.id, name: call.name, response };
+        }));
+    }
+    console.warn(`Tool loop stopped after ${MAX_TOOL_ROUNDS} rounds without a final answer.`);
+};
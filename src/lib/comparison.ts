@@ -0,0 +1,121 @@
+import type { ParsedDocument } from '@/lib/documentCache';
+import { describePackSize, getPackSizes } from '@/lib/packSizes';
+import { selectFamilyFiles, trimToBudget } from '@/lib/productDocuments';
+import {
+    hasFuzzyKeyword,
+    normalizeProductText,
+    ProductIndex,
+    ProductMatch,
+    ProductMetadata,
+    resolveProducts,
+    RESOLVER_CONFIDENCE_THRESHOLD,
+} from '@/lib/productResolver';
+import { formatSdsSection } from '@/lib/sdsSections';
+import { AnswerSource, bucketSource, PRODUCT_METADATA_SOURCE } from '@/lib/sources';
+
+// Comparison intent: "Bio-Maxx vs Multi-Chlor", "difference between Brite OEB, Brite OEB Plus and Brite OEB Super".
+// Each product's data is pulled side by side so the answer is a table built from records, not general knowledge.
+
+export const MIN_COMPARED_PRODUCTS = 2;
+export const MAX_COMPARED_PRODUCTS = 4;
+
+const COMPARISON_PATTERN = /\b(?:vs\.?|versus|compare[ds]?|comparison|comparing|difference|differences|differ|better|which (?:one|is|should)|or)\b/i;
+const COMPARISON_KEYWORDS = ['compare', 'difference', 'versus'];
+
+// Per-product budgets: four products must still fit in one prompt
+const PROTOCOL_BUDGET = 1500;
+const HAZARD_BUDGET = 1200;
+
+// SDS Section 2: Hazard Identification
+const HAZARD_SECTION = 2;
+
+export type ComparisonEntry = {
+    slug: string;
+    displayName: string;
+    category: string;
+    // Pack sizes as "4 x 1 gal (4 gal total)"
+    packSizes: string[];
+    protocol: string | null;
+    hazards: string | null;
+};
+
+export const isComparisonQuestion = (message: string) =>
+    COMPARISON_PATTERN.test(message) || hasFuzzyKeyword(message, COMPARISON_KEYWORDS);
+
+/**
+ * The 2-4 products a comparison question names, in the order they were mentioned, or null if fewer than two.
+ */
+export const resolveComparisonProducts = (message: string, index: ProductIndex): ProductMatch[] | null => {
+    const normalized = normalizeProductText(message).join(' ');
+    const products = resolveProducts(message, index, MAX_COMPARED_PRODUCTS)
+        .filter((match) => match.score >= RESOLVER_CONFIDENCE_THRESHOLD)
+        .sort((a, b) => normalized.indexOf(a.matchedAlias) - normalized.indexOf(b.matchedAlias));
+    return products.length >= MIN_COMPARED_PRODUCTS ? products : null;
+};
+
+const loadOptional = async (name: string | undefined, loadDocument: (name: string) => Promise<ParsedDocument>) => {
+    if (!name) return null;
+    try {
+        return await loadDocument(name);
+    } catch (err) {
+        console.error(`Error reading ${name}:`, err);
+        return null;
+    }
+};
+
+/**
+ * Category, pack sizes, dilution protocol and SDS hazards for each product. Missing documents are left null.
+ */
+export const gatherComparisonData = async (
+    products: ProductMatch[],
+    metadata: ProductMetadata,
+    loadDocument: (name: string) => Promise<ParsedDocument>
+): Promise<{ entries: ComparisonEntry[]; sources: AnswerSource[] }> => {
+    const sources: AnswerSource[] = [PRODUCT_METADATA_SOURCE];
+
+    const entries = await Promise.all(products.map(async (product) => {
+        const details = metadata[product.slug] || {};
+        const files = selectFamilyFiles(product.files);
+        const protocolFile = files.find((file) => file.family === 'sku_protocol')?.name;
+        const sdsFile = files.find((file) => file.family === 'grounding' || file.family === 'other')?.name;
+        const [protocolDoc, sdsDoc] = await Promise.all([
+            loadOptional(protocolFile, loadDocument),
+            loadOptional(sdsFile, loadDocument),
+        ]);
+
+        const protocol = protocolDoc ? trimToBudget(protocolDoc.text.trim(), PROTOCOL_BUDGET).text : null;
+        if (protocolDoc) sources.push(bucketSource(protocolDoc.name, 'DILUTION & USE PROTOCOL'));
+
+        const hazardSection = sdsDoc?.sections.find((section) => section.number === HAZARD_SECTION);
+        const hazards = hazardSection ? trimToBudget(formatSdsSection(hazardSection), HAZARD_BUDGET).text : null;
+        if (sdsDoc && hazardSection) sources.push(bucketSource(sdsDoc.name, 'SDS / SAFETY DATA', [HAZARD_SECTION]));
+
+        return {
+            slug: product.slug,
+            displayName: details.displayName || product.displayName,
+            category: details.category || '',
+            packSizes: getPackSizes(product.slug, metadata).map(describePackSize),
+            protocol,
+            hazards,
+        };
+    }));
+
+    return { entries, sources };
+};
+
+export const formatComparisonContext = (entries: ComparisonEntry[]) => {
+    const blocks = entries.map((entry) => `=== PRODUCT: ${entry.displayName} (${entry.slug}) ===
+            - Category: ${entry.category || 'Not on file'}
+            - Pack sizes: ${entry.packSizes.length > 0 ? entry.packSizes.join(', ') : 'Not on file'}
+            DILUTION & USE PROTOCOL:
+            ${entry.protocol || 'Not on file'}
+            KEY HAZARDS:
+            ${entry.hazards || 'Not on file'}`);
+
+    return `STATUS: PRODUCT COMPARISON (${entries.map((entry) => entry.displayName).join(' vs ')}).
+            Answer with a side-by-side markdown table: one column per product in the order listed, and rows for Category, Pack Sizes, Dilution / Use and Key Hazards.
+            Keep each cell short and use only the data below; write "Not on file" where a value is missing. The source documents are shown to the user separately.
+            After the table, add one or two sentences on when to choose each product.
+
+            ${blocks.join('\n\n            ')}`;
+};
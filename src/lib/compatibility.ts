@@ -0,0 +1,256 @@
+import type { ParsedDocument } from '@/lib/documentCache';
+import { getDocumentFamily } from '@/lib/productDocuments';
+import {
+    normalizeProductText,
+    ProductIndex,
+    ProductMatch,
+    ProductMetadata,
+    resolveProducts,
+    RESOLVER_CONFIDENCE_THRESHOLD,
+} from '@/lib/productResolver';
+import { AnswerSource, bucketSource, PRODUCT_METADATA_SOURCE } from '@/lib/sources';
+
+// Mixing-hazard check: "can I mix Multi-Chlor with an acid descaler?". Every product (or generic chemical)
+// in the question gets hazard classes from its metadata and SDS, then each pair is checked against a local
+// rule table and against the incompatible materials its SDS lists. The verdict is deterministic; the model
+// only explains it.
+
+export type ChemicalClass = 'chlorine' | 'acid' | 'ammonia' | 'alkali' | 'oxidizer' | 'quat' | 'anionic' | 'alcohol';
+
+export type MixingItem = {
+    name: string;
+    // null for a generic chemical the user named ("bleach", "an acid descaler")
+    slug: string | null;
+    classes: ChemicalClass[];
+};
+
+export type MixingConflict = {
+    products: [string, string];
+    reason: string;
+    // 'rule' for the local rule table, 'sds' for a product's SDS incompatible materials
+    basis: 'rule' | 'sds';
+};
+
+export type MixingCheck = {
+    verdict: 'DO_NOT_MIX' | 'NO_KNOWN_CONFLICT';
+    items: MixingItem[];
+    conflicts: MixingConflict[];
+    sources: AnswerSource[];
+};
+
+const MAX_MIXING_ITEMS = 4;
+
+// SDS sections that say what a product is: identification, hazards, composition
+const IDENTITY_SECTIONS = [1, 2, 3];
+// Handling and storage, stability and reactivity
+const INCOMPATIBILITY_SECTIONS = [7, 10];
+
+export const CLASS_LABELS: Record<ChemicalClass, string> = {
+    chlorine: 'chlorine bleach',
+    acid: 'acid',
+    ammonia: 'ammonia',
+    alkali: 'caustic / high-alkaline',
+    oxidizer: 'oxidizer (peroxide / oxygen bleach)',
+    quat: 'quaternary ammonium (quat)',
+    anionic: 'anionic surfactant',
+    alcohol: 'alcohol',
+};
+
+const CLASS_PATTERNS: Record<ChemicalClass, RegExp> = {
+    chlorine: /\b(?:sodium|calcium) hypochlorite\b|\bchlorinated\b|\bchlorine\b|\bchloroisocyanur|\bliquid bleach\b/i,
+    acid: /\b(?:hydrochloric|phosphoric|sulfuric|sulfamic|muriatic|nitric|citric|glycolic|hydroxyacetic|acetic|oxalic)\s+acid\b|\bacidic\b|\bacid (?:cleaner|descaler|de-?scaler|delimer|de-?limer)\b|\borganic acid\b|\bde-?limer\b|\bde-?scaler\b|\bvinegar\b/i,
+    ammonia: /\bammonia\b|\bammonium hydroxide\b/i,
+    alkali: /\b(?:sodium|potassium) hydroxide\b|\bcaustic\b|\bsodium metasilicate\b|\balkaline builder\b|\bhigh(?:ly)? alkaline\b/i,
+    oxidizer: /\bhydrogen peroxide\b|\bperoxide\b|\bpercarbonate\b|\bperborate\b|\bperacetic\b|\boxygen bleach(?:ing)?\b/i,
+    quat: /\bquaternary ammonium\b|\bquats?\b|\bbenzalkonium\b|\bdimethyl (?:benzyl )?ammonium chloride\b/i,
+    anionic: /\banionic\b|\bsodium laur(?:yl|eth) sulfate\b|\balkylbenzene sulfon|\bdodecylbenzene sulfon/i,
+    alcohol: /\bisopropyl alcohol\b|\bisopropanol\b|\bethanol\b|\bethyl alcohol\b/i,
+};
+
+// "Free of chlorine", "Non-Alkaline Builder", "an alternative to chlorine bleaches", "chlorine-free": the class is explicitly absent
+const NEGATED_CLASS_PATTERN = /\b(?:free (?:of|from)|without|alternative to)\s+(?:[a-z]+,?\s+){0,3}?(?:chlorine|ammonia|acids?|bleach(?:es)?|caustic|alkaline)\b(?:,?\s+(?:and\s+|or\s+)?(?:[a-z]+\s+)?(?:chlorine|ammonia|acids?|bleach(?:es)?|caustic|alkaline|phosphates?|dyes?)\b)*|\b(?:non|no)[\s-]?(?:chlorine|ammonia|acid|bleach|caustic|alkaline)\b|\b(?:chlorine|ammonia|acid|bleach|caustic)[\s-]free\b/gi;
+
+// Generic chemicals a customer may name instead of a product, matched on normalized text
+const GENERIC_CHEMICALS: { name: string; pattern: RegExp; classes: ChemicalClass[] }[] = [
+    { name: 'Chlorine bleach', pattern: /(?<!oxygen |color safe )\b(?:chlorine )?bleach\b|\bhypochlorite\b/, classes: ['chlorine'] },
+    { name: 'Acid / descaler', pattern: /\bacids?\b|\bacidic\b|\bde ?scaler\b|\bde ?limer\b|\bvinegar\b|\bmuriatic\b|\btoilet bowl cleaner\b|\brust remover\b/, classes: ['acid'] },
+    { name: 'Ammonia', pattern: /\bammonia\b/, classes: ['ammonia'] },
+    { name: 'Hydrogen peroxide', pattern: /\bperoxide\b/, classes: ['oxidizer'] },
+    { name: 'Rubbing alcohol', pattern: /\brubbing alcohol\b|\bisopropyl\b/, classes: ['alcohol'] },
+    { name: 'Drain opener / lye', pattern: /\bdrain (?:cleaner|opener)\b|\blye\b/, classes: ['alkali'] },
+];
+
+// Mixing intent, needed before a generic chemical counts ("does Delime contain acid?" is not a mixing question)
+const MIXING_PATTERN = /\b(?:mix(?:ed|es|ing)?|combin(?:e|ed|es|ing)|together|blend(?:ed|ing)?|same (?:bucket|bottle|container|sprayer|tank|solution|time)|add(?:ed|ing)?\b.{1,40}\b(?:to|into)|after|followed by)\b/i;
+
+const MIXING_RULES: { classes: [ChemicalClass, ChemicalClass]; reason: string }[] = [
+    { classes: ['chlorine', 'acid'], reason: 'Chlorine bleach and acids release toxic chlorine gas.' },
+    { classes: ['chlorine', 'ammonia'], reason: 'Chlorine bleach and ammonia release toxic chloramine vapors.' },
+    { classes: ['chlorine', 'alcohol'], reason: 'Chlorine bleach and alcohol can form chloroform and other toxic chlorinated compounds.' },
+    { classes: ['chlorine', 'oxidizer'], reason: 'Chlorine bleach reacts vigorously with peroxides and oxygen bleaches, releasing gas and heat.' },
+    { classes: ['acid', 'alkali'], reason: 'Acids and caustic products react violently, generating heat that can boil and spatter.' },
+    { classes: ['quat', 'anionic'], reason: 'Anionic surfactants neutralize quaternary ammonium disinfectants, so the mix no longer disinfects.' },
+];
+
+// Incompatible materials as SDS Section 7/10 phrase them, and the classes each one covers
+const INCOMPATIBLE_TERMS: { term: string; pattern: RegExp; classes: ChemicalClass[] }[] = [
+    { term: 'oxidizers', pattern: /\boxidi[sz]|\bperoxides?\b/i, classes: ['oxidizer', 'chlorine'] },
+    { term: 'chlorine bleach', pattern: /\bchlorine\b|\bhypochlorites?\b|\bbleach\b/i, classes: ['chlorine'] },
+    { term: 'acids', pattern: /\bacids?\b/i, classes: ['acid'] },
+    { term: 'alkalis', pattern: /\bbases\b|\balkali(?:s|es)?\b|\bcaustics?\b/i, classes: ['alkali'] },
+    { term: 'ammonia', pattern: /\bammonia\b|\bamines?\b/i, classes: ['ammonia'] },
+    { term: 'anionic surfactants', pattern: /\banionic\b/i, classes: ['anionic'] },
+    { term: 'quaternary ammonium compounds', pattern: /\bcationic\b|\bquaternary\b/i, classes: ['quat'] },
+];
+
+const INCOMPATIBILITY_SENTENCE_PATTERN = /incompatib|do not mix|never mix|avoid (?:contact|mixing)|keep away from|reacts? (?:violently )?with/i;
+
+export const isMixingQuestion = (message: string) => MIXING_PATTERN.test(message);
+
+/**
+ * Hazard classes named in `text`, ignoring explicit absences ("free of chlorine").
+ */
+export const classifyChemicalText = (text: string): ChemicalClass[] => {
+    const cleaned = text.replace(NEGATED_CLASS_PATTERN, ' ');
+    return (Object.keys(CLASS_PATTERNS) as ChemicalClass[]).filter((cls) => CLASS_PATTERNS[cls].test(cleaned));
+};
+
+/**
+ * Materials an SDS says to keep the product away from, from its incompatibility sentences.
+ */
+export const findIncompatibleTerms = (text: string) => {
+    const sentences = text.split(/(?<=[.!?])\s+|\n/).filter((sentence) => INCOMPATIBILITY_SENTENCE_PATTERN.test(sentence));
+    return INCOMPATIBLE_TERMS.filter(({ pattern }) => sentences.some((sentence) => pattern.test(sentence)));
+};
+
+/**
+ * Products and generic chemicals in a mixing question, in the order they were mentioned.
+ * `fallbackProduct` (e.g. "it" resolved from the conversation) fills in when the message names only one thing.
+ */
+export const findMixingCandidates = (message: string, index: ProductIndex, fallbackProduct?: ProductMatch | null) => {
+    const normalized = ` ${normalizeProductText(message).join(' ')} `;
+    const products = resolveProducts(message, index, MAX_MIXING_ITEMS)
+        .filter((match) => match.score >= RESOLVER_CONFIDENCE_THRESHOLD)
+        .filter((match, i, all) => all.findIndex((other) => other.slug === match.slug) === i)
+        .sort((a, b) => normalized.indexOf(a.matchedAlias) - normalized.indexOf(b.matchedAlias));
+
+    // Product names are removed first so "Household Ammonia" is not also counted as generic ammonia
+    const remaining = products.reduce((text, match) => text.replace(` ${match.matchedAlias} `, ' '), normalized);
+    const generics = isMixingQuestion(message)
+        ? GENERIC_CHEMICALS.filter(({ pattern }) => pattern.test(remaining))
+        : [];
+
+    if (products.length + generics.length === 1 && fallbackProduct && isMixingQuestion(message)
+        && !products.some((match) => match.slug === fallbackProduct.slug)) {
+        products.unshift(fallbackProduct);
+    }
+    return { products, generics: generics.slice(0, Math.max(MAX_MIXING_ITEMS - products.length, 0)) };
+};
+
+const loadOptional = async (name: string | undefined, loadDocument: (name: string) => Promise<ParsedDocument>) => {
+    if (!name) return null;
+    try {
+        return await loadDocument(name);
+    } catch (err) {
+        console.error(`Error reading ${name}:`, err);
+        return null;
+    }
+};
+
+const sectionText = (doc: ParsedDocument, numbers: number[]) =>
+    doc.sections.filter((section) => numbers.includes(section.number)).map((section) => section.text).join('\n');
+
+const pairKey = (a: string, b: string) => [a, b].sort().join('\u0000');
+
+/**
+ * Checks every pair of products/chemicals in a question. Returns null when fewer than two are named.
+ */
+export const checkMixingHazards = async (
+    message: string,
+    index: ProductIndex,
+    metadata: ProductMetadata,
+    loadDocument: (name: string) => Promise<ParsedDocument>,
+    fallbackProduct?: ProductMatch | null
+): Promise<MixingCheck | null> => {
+    const { products, generics } = findMixingCandidates(message, index, fallbackProduct);
+    if (products.length + generics.length < 2) return null;
+
+    const sources: AnswerSource[] = [PRODUCT_METADATA_SOURCE];
+    // Incompatible materials per item name, with the SDS sections they came from
+    const incompatibilities = new Map<string, { terms: ReturnType<typeof findIncompatibleTerms>; sdsFile: string; sections: number[] }>();
+
+    const productItems = await Promise.all(products.map(async (product): Promise<MixingItem> => {
+        const details = metadata[product.slug] || {};
+        const name = details.displayName || product.displayName;
+        const metadataText = [name, details.category, details.canonicalDescription].filter(Boolean).join('\n');
+        const sdsFile = product.files.find((file) => getDocumentFamily(file) === 'grounding');
+        const sds = await loadOptional(sdsFile, loadDocument);
+
+        const classes = new Set(classifyChemicalText(metadataText));
+        if (sds && sds.sections.length > 0) {
+            const sdsClasses = classifyChemicalText(sectionText(sds, IDENTITY_SECTIONS));
+            sdsClasses.forEach((cls) => classes.add(cls));
+            if (sdsClasses.length > 0) sources.push(bucketSource(sds.name, 'SDS / SAFETY DATA', IDENTITY_SECTIONS.filter((n) => sectionText(sds, [n]))));
+            const sections = INCOMPATIBILITY_SECTIONS.filter((n) => findIncompatibleTerms(sectionText(sds, [n])).length > 0);
+            if (sections.length > 0) {
+                incompatibilities.set(name, { terms: findIncompatibleTerms(sectionText(sds, sections)), sdsFile: sds.name, sections });
+            }
+        }
+        return { name, slug: product.slug, classes: Array.from(classes) };
+    }));
+    const items = [
+        ...productItems,
+        ...generics.map((generic): MixingItem => ({ name: generic.name, slug: null, classes: generic.classes })),
+    ];
+
+    const conflicts: MixingConflict[] = [];
+    const seen = new Set<string>();
+    const addConflict = (a: MixingItem, b: MixingItem, reason: string, basis: MixingConflict['basis']) => {
+        const key = `${pairKey(a.name, b.name)}\u0000${reason}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        conflicts.push({ products: [a.name, b.name], reason, basis });
+    };
+
+    for (let i = 0; i < items.length; i++) {
+        for (let j = i + 1; j < items.length; j++) {
+            const [a, b] = [items[i], items[j]];
+            for (const rule of MIXING_RULES) {
+                const [x, y] = rule.classes;
+                if ((a.classes.includes(x) && b.classes.includes(y)) || (a.classes.includes(y) && b.classes.includes(x))) {
+                    addConflict(a, b, rule.reason, 'rule');
+                }
+            }
+            for (const [self, other] of [[a, b], [b, a]]) {
+                const listed = incompatibilities.get(self.name);
+                const term = listed?.terms.find((t) => t.classes.some((cls) => other.classes.includes(cls)));
+                if (!listed || !term) continue;
+                const otherClass = term.classes.find((cls) => other.classes.includes(cls)) as ChemicalClass;
+                addConflict(a, b, `The ${self.name} SDS lists ${term.term} as incompatible materials (${other.name}: ${CLASS_LABELS[otherClass]}).`, 'sds');
+                sources.push(bucketSource(listed.sdsFile, 'SDS / SAFETY DATA', listed.sections));
+            }
+        }
+    }
+
+    return { verdict: conflicts.length > 0 ? 'DO_NOT_MIX' : 'NO_KNOWN_CONFLICT', items, conflicts, sources };
+};
+
+export const formatMixingContext = (check: MixingCheck) => {
+    const names = check.items.map((item) => item.name).join(' + ');
+    const classes = check.items
+        .map((item) => `- ${item.name}: ${item.classes.length > 0 ? item.classes.map((cls) => CLASS_LABELS[cls]).join(', ') : 'no hazard class on file'}`)
+        .join('\n            ');
+
+    if (check.verdict === 'DO_NOT_MIX') {
+        return `MIXING CHECK: DO NOT MIX (${names}).
+            ${check.conflicts.map((conflict) => `- ${conflict.products.join(' + ')}: ${conflict.reason}`).join('\n            ')}
+            Hazard classes:
+            ${classes}
+            Start your answer with "**DO NOT MIX**", name the products and give the reasons above. Never suggest a way, ratio or order to combine them. The customer also sees this verdict as a warning banner.`;
+    }
+
+    return `MIXING CHECK: NO KNOWN CONFLICT (${names}).
+            Hazard classes:
+            ${classes}
+            Neither our mixing rules nor the SDS records flag this combination, but that is not confirmation it is safe. Do not tell the customer they can mix these products; advise using each one on its own as its label directs.`;
+};
@@ -0,0 +1,143 @@
+import type { LLMProvider } from '@/lib/llm';
+import { continuesFirstAid } from '@/lib/answerRules';
+import { debugLog } from '@/lib/debugLog';
+import { extractZip } from '@/lib/delivery';
+import { normalizeName } from '@/lib/leads';
+import { ProductIndex, resolveProduct, RESOLVER_CONFIDENCE_THRESHOLD } from '@/lib/productResolver';
+
+// What a chat remembers beyond the recent-history window: a rolling summary of older turns,
+// plus facts pulled deterministically from every user message. Feeds both routing and the answer prompt.
+
+export type ConversationState = {
+    // Rolling summary of the turns no longer sent to the model verbatim
+    summary: string;
+    // Number of leading transcript messages folded into `summary`
+    summarizedCount: number;
+    // Product currently under discussion (the newest one the user named)
+    product: { slug: string; displayName: string } | null;
+    sizes: string[];
+    zip: string | null;
+    name: string | null;
+    // The user is asking about an exposure: set by a first-aid question, kept through its follow-ups
+    firstAid?: boolean;
+};
+
+type TranscriptMessage = { role: string; content: string };
+
+// Once this many messages are unsummarized, the oldest are folded into the summary down to KEEP_RECENT
+export const SUMMARIZE_AFTER_MESSAGES = 12;
+const KEEP_RECENT_MESSAGES = 6;
+const MAX_SIZES = 8;
+
+const SIZE_PATTERN = /\b(\d+\s*x\s*\d+(?:\.\d+)?|\d+(?:\.\d+)?)[\s-]*(gallons?|gal|quarts?|qts?|qt|pounds?|lbs?|lb|ounces?|oz|liters?|litres?|drums?|pails?|totes?)\b/gi;
+const NAME_STATEMENT_PATTERN = /\b(?:my name is|my name's|call me)\s+([a-z][a-z'’-]*(?:\s+[a-z][a-z'’-]*)?)/i;
+// Case-sensitive: "I'm Dana" is a name, "I'm looking for..." is not
+const CAPITALISED_NAME_PATTERN = /\b(?:I'm|I’m|I am|[Tt]his is)\s+([A-Z][a-z'’-]+)\b/;
+const NOT_NAMES = new Set(['Interested', 'Looking', 'Trying', 'Not', 'Just', 'Having', 'Using', 'Wondering', 'Curious', 'Sure', 'Good', 'Fine', 'Here', 'Back', 'New', 'Calling', 'Still', 'Also']);
+
+export const emptyConversationState = (): ConversationState => ({
+    summary: '',
+    summarizedCount: 0,
+    product: null,
+    sizes: [],
+    zip: null,
+    name: null,
+    firstAid: false,
+});
+
+/**
+ * Pack sizes in `text`, normalized to lower case ("4 x 1 Gallon" -> "4x1 gallon").
+ */
+export const extractSizes = (text: string) =>
+    Array.from(text.matchAll(SIZE_PATTERN), ([, amount, unit]) => `${amount.replace(/\s+/g, '')} ${unit.toLowerCase()}`);
+
+export const extractStatedName = (text: string) => {
+    const stated = text.match(NAME_STATEMENT_PATTERN)?.[1];
+    if (stated) return normalizeName(stated);
+    const capitalised = text.match(CAPITALISED_NAME_PATTERN)?.[1];
+    return capitalised && !NOT_NAMES.has(capitalised) ? normalizeName(capitalised) : null;
+};
+
+/**
+ * Folds one user message into the structured facts. The newest product, ZIP and name win.
+ */
+export const updateConversationFacts = (state: ConversationState, userMessage: string, productIndex: ProductIndex): ConversationState => {
+    const match = resolveProduct(userMessage, productIndex);
+    const product = match && match.score >= RESOLVER_CONFIDENCE_THRESHOLD
+        ? { slug: match.slug, displayName: match.displayName }
+        : state.product;
+    const sizes = extractSizes(userMessage);
+    const sameProduct = !state.product || product?.slug === state.product.slug;
+
+    return {
+        ...state,
+        product,
+        sizes: Array.from(new Set([...state.sizes.filter((size) => !sizes.includes(size)), ...sizes])).slice(-MAX_SIZES),
+        zip: extractZip(userMessage) || state.zip,
+        name: extractStatedName(userMessage) || state.name,
+        firstAid: continuesFirstAid(userMessage, Boolean(state.firstAid), sameProduct),
+    };
+};
+
+/**
+ * Rebuilds the facts from a transcript, for sessions saved without state and requests without a session.
+ */
+export const deriveConversationState = (messages: TranscriptMessage[], productIndex: ProductIndex) =>
+    messages
+        .filter((msg) => msg.role === 'user')
+        .reduce((state, msg) => updateConversationFacts(state, msg.content, productIndex), emptyConversationState());
+
+// The transcript still sent to the model verbatim
+export const unsummarizedMessages = <T extends TranscriptMessage>(messages: T[], state: ConversationState) =>
+    messages.slice(Math.min(state.summarizedCount, messages.length));
+
+export const buildSummaryPrompt = (previousSummary: string, messages: TranscriptMessage[]) => `
+      Update the running summary of a customer's chat with Dr. Aris, United Formulas' chemical safety assistant.
+
+      PREVIOUS SUMMARY:
+      ${previousSummary || '(none)'}
+
+      NEW TURNS:
+      ${messages.map((msg) => `${msg.role === 'user' ? 'user' : 'assistant'}: ${msg.content}`).join('\n')}
+
+      RULES:
+      - Return ONLY the updated summary, at most 120 words, in plain sentences.
+      - Keep every product name, pack size, ZIP code or city, and the customer's name if they gave it.
+      - Keep open questions and what the customer is trying to clean or solve.
+      - Do not add facts that are not in the turns. Do not include first aid or medical instructions.
+    `;
+
+/**
+ * Folds the oldest unsummarized messages into the summary once more than SUMMARIZE_AFTER_MESSAGES
+ * would otherwise be sent. On failure the state is returned unchanged and the next turn retries.
+ */
+export const summarizeConversation = async (
+    state: ConversationState,
+    messages: TranscriptMessage[],
+    llm: LLMProvider
+): Promise<ConversationState> => {
+    if (messages.length - state.summarizedCount <= SUMMARIZE_AFTER_MESSAGES) return state;
+
+    const summarizedCount = messages.length - KEEP_RECENT_MESSAGES;
+    const older = messages.slice(state.summarizedCount, summarizedCount);
+    try {
+        const summary = (await llm.generate(buildSummaryPrompt(state.summary, older))).trim();
+        if (!summary) return state;
+        debugLog(`Summarized ${older.length} older messages; the last ${KEEP_RECENT_MESSAGES} stay verbatim.`);
+        return { ...state, summary, summarizedCount };
+    } catch (err) {
+        console.warn('Failed to summarize conversation:', err);
+        return state;
+    }
+};
+
+export const formatConversationState = (state: ConversationState) => {
+    const lines = [
+        state.product ? `- Current product: ${state.product.displayName} (${state.product.slug})` : '',
+        state.sizes.length > 0 ? `- Sizes mentioned: ${state.sizes.join(', ')}` : '',
+        state.zip ? `- User ZIP: ${state.zip}` : '',
+        state.name ? `- User's name (stated by the user): ${state.name}` : '',
+        state.summary ? `- Earlier in this conversation: ${state.summary}` : '',
+    ].filter(Boolean);
+    return lines.join('\n');
+};
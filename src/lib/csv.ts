@@ -0,0 +1,46 @@
+// Minimal RFC 4180 reader for the WooCommerce enrichment export: quoted fields may hold commas,
+// doubled quotes and line breaks. Rows come back keyed by the header row.
+
+export const parseCsv = (text: string): Record<string, string>[] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (inQuotes) {
+            if (char === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    const [header, ...body] = rows.filter((r) => r.some((value) => value.trim()));
+    if (!header) return [];
+    const keys = header.map((key) => key.trim());
+    return body.map((values) => Object.fromEntries(keys.map((key, i) => [key, (values[i] || '').trim()])));
+};
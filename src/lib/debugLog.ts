@@ -0,0 +1,6 @@
+// Per-request pipeline tracing (routing decisions, tool calls, loaded documents). Off unless CHAT_DEBUG=1,
+// since the lines quote customer messages and document names; warnings and errors always log.
+
+export const debugLog = (message: string) => {
+    if (process.env.CHAT_DEBUG === '1') console.log(message);
+};
@@ -0,0 +1,192 @@
+import { LRUCache } from 'lru-cache';
+import { hasFuzzyKeyword } from '@/lib/productResolver';
+import { getDocumentStore } from '@/lib/documentStore';
+
+const fs = require('fs');
+const path = require('path');
+
+// Deterministic delivery coverage: the model only ever sees the verified lookup result,
+// never the raw ZIP list, so it can't tell a customer we deliver somewhere we don't.
+
+export type DeliveryZone = {
+    zip: string;
+    city: string;
+    county: string;
+};
+
+export type RouteRegion = 'Great Falls' | 'Billings';
+
+export type DeliveryLookup =
+    | {
+        status: 'covered';
+        zip: string;
+        city: string;
+        county: string;
+        region: RouteRegion;
+        window: string;
+    }
+    | { status: 'not_covered'; zip?: string; city?: string }
+    | { status: 'unknown' };
+
+// Counties served by each route truck
+const COUNTY_REGIONS: Record<string, RouteRegion> = {
+    'Cascade County': 'Great Falls',
+    'Teton County': 'Great Falls',
+    'Toole County': 'Great Falls',
+    'Liberty County': 'Great Falls',
+    'Yellowstone County': 'Billings',
+    'Golden Valley County': 'Billings',
+};
+
+// Hub cities get local same/next-day delivery; the rest of the region rides the scheduled route
+const ROUTE_WINDOWS: Record<RouteRegion, { hubCities: string[]; hub: string; outlying: string }> = {
+    'Great Falls': {
+        hubCities: ['Great Falls', 'Black Eagle'],
+        hub: 'Same or next business day (local delivery)',
+        outlying: 'Next scheduled Great Falls route day, typically 1-3 business days',
+    },
+    Billings: {
+        hubCities: ['Billings'],
+        hub: 'Next business day on the Billings route',
+        outlying: 'Next scheduled Billings route day, typically 2-4 business days',
+    },
+};
+
+const DELIVERY_INTENT_KEYWORDS = ['deliver', 'delivery', 'shipping', 'ship'];
+// Five digits not followed by a unit, so "10000 ppm" or "10000 sq ft" isn't read as a ZIP
+const ZIP_PATTERN = /\b(\d{5})(?:-\d{4})?\b(?!\s*(?:ppm|gal|oz|lb|ml|%|sq\b|square|ft\b|feet))/i;
+// A ZIP on its own ("59401", "zip 59401") or after "in" ("do you have it in 59101?")
+const ZIP_REPLY_PATTERN = /^\s*(?:(?:my\s+)?zip(?:\s*code)?(?:\s+is)?\s*:?\s*)?\d{5}(?:-\d{4})?[\s.!?]*$|\b(?:zip(?:\s*code)?(?:\s+is)?|in)\s*:?\s*\d{5}(?:-\d{4})?\b/i;
+
+export const isDeliveryQuestion = (text: string) => hasFuzzyKeyword(text, DELIVERY_INTENT_KEYWORDS);
+
+/**
+ * Whether a message's ZIP is enough to make it a delivery question without delivery words:
+ * a bare ZIP reply, or one that follows "zip" or "in". Other 5-digit numbers (areas, part numbers) aren't.
+ */
+export const isZipReply = (text: string) => extractZip(text) !== null && ZIP_REPLY_PATTERN.test(text);
+
+export const extractZip = (text: string) => text.match(ZIP_PATTERN)?.[1] || null;
+
+export const parseDeliveryZones = (raw: unknown): DeliveryZone[] => {
+    let data = raw;
+    if (typeof raw === 'string') {
+        try {
+            data = raw ? JSON.parse(raw) : [];
+        } catch (err) {
+            console.error('Failed to parse zipcodes JSON:', err);
+            return [];
+        }
+    }
+    if (!Array.isArray(data)) return [];
+    return (data as unknown[])
+        .filter((z): z is Record<string, unknown> => typeof z === 'object' && z !== null)
+        .filter((z) => /^\d{5}$/.test(String(z.zip)))
+        .map((z) => ({ zip: String(z.zip), city: String(z.city || ''), county: String(z.county || '') }));
+};
+
+export const getRouteRegion = (county: string): RouteRegion | null => COUNTY_REGIONS[county] || null;
+
+const toCoveredLookup = (zone: DeliveryZone): DeliveryLookup => {
+    const region = getRouteRegion(zone.county);
+    if (!region) return { status: 'not_covered', zip: zone.zip, city: zone.city };
+    const windows = ROUTE_WINDOWS[region];
+    return {
+        status: 'covered',
+        zip: zone.zip,
+        city: zone.city,
+        county: zone.county,
+        region,
+        window: windows.hubCities.includes(zone.city) ? windows.hub : windows.outlying,
+    };
+};
+
+export const lookupZip = (zip: string, zones: DeliveryZone[]): DeliveryLookup => {
+    const zone = zones.find((z) => z.zip === zip);
+    return zone ? toCoveredLookup(zone) : { status: 'not_covered', zip };
+};
+
+// Longest city names first so "Great Falls" wins over a shorter name inside it
+const findCity = (text: string, zones: DeliveryZone[]) => {
+    const lower = text.toLowerCase();
+    const cities = Array.from(new Set(zones.map((z) => z.city))).sort((a, b) => b.length - a.length);
+    return cities.find((city) => new RegExp(`\\b${city.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(lower)) || null;
+};
+
+/**
+ * Finds a ZIP (preferred) or served city in `texts`, checked in order, and looks it up.
+ * Pass the newest message first so a corrected ZIP overrides an older one.
+ */
+export const findDeliveryLocation = (texts: string[], zones: DeliveryZone[]): DeliveryLookup => {
+    for (const text of texts) {
+        const zip = extractZip(text);
+        if (zip) return lookupZip(zip, zones);
+
+        const city = findCity(text, zones);
+        if (city) {
+            const zone = zones.find((z) => z.city === city) as DeliveryZone;
+            return toCoveredLookup(zone);
+        }
+    }
+    return { status: 'unknown' };
+};
+
+export const formatDeliveryContext = (lookup: DeliveryLookup) => {
+    const policy = 'GENERAL POLICY: We aim to ship all orders the next day. Orders are placed with our team at 406.727.4144 or sales@unitedformulas.com.';
+    if (lookup.status === 'covered') {
+        return `STATUS: DELIVERY VERIFIED.
+            VERIFIED DELIVERY LOOKUP:
+            - ZIP: ${lookup.zip}
+            - City: ${lookup.city}
+            - County: ${lookup.county}
+            - Route Region: ${lookup.region}
+            - Estimated Delivery Window: ${lookup.window}
+
+            ${policy}`;
+    }
+    if (lookup.status === 'not_covered') {
+        const place = [lookup.city, lookup.zip].filter(Boolean).join(' ');
+        return `STATUS: OUTSIDE DELIVERY AREA.
+            VERIFIED DELIVERY LOOKUP: ${place} is NOT on our Great Falls or Billings delivery routes.
+            Do not say we deliver there. Suggest checking shipping options with our team at 406.727.4144.
+
+            ${policy}`;
+    }
+    return `STATUS: DELIVERY LOCATION NEEDED.
+            No ZIP code or city has been given yet. Ask for their ZIP code (or city) so you can check coverage. Do not guess.
+
+            ${policy}`;
+};
+
+const zonesCache = new LRUCache<string, DeliveryZone[]>({
+    max: 1,
+    ttl: 1000 * 60 * 5,
+});
+
+/**
+ * Delivery zones from `delivery_zipcodes.json` in the document store, falling back to the
+ * copy in the repo root when the store is unavailable or doesn't have it.
+ */
+export const getDeliveryZones = async (): Promise<DeliveryZone[]> => {
+    const cached = zonesCache.get('zones');
+    if (cached) return cached;
+
+    let zones: DeliveryZone[] = [];
+    try {
+        const content = await getDocumentStore().read('delivery_zipcodes.json');
+        if (content) zones = parseDeliveryZones(content.toString());
+    } catch (err) {
+        console.warn('Failed to load delivery_zipcodes.json:', err);
+    }
+
+    if (zones.length === 0) {
+        const localPath = path.join(process.cwd(), 'delivery_zipcodes.json');
+        if (fs.existsSync(localPath)) {
+            zones = parseDeliveryZones(fs.readFileSync(localPath, 'utf-8'));
+            console.log("Using local delivery_zipcodes.json fallback.");
+        }
+    }
+
+    zonesCache.set('zones', zones);
+    return zones;
+};
@@ -0,0 +1,171 @@
+// Dilution math for use-solutions, so amounts come from the protocol's ratio and not the model's arithmetic.
+// No server imports: the widget's calculator card runs the same functions in the browser.
+
+export type DilutionRatio =
+    // "2 oz per gallon", "12 oz/gal", "1/2 oz per gallon"; a range ("3-8 oz per gallon") becomes its low and high end
+    | { kind: 'ozPerGallon'; ozPerGallon: number; text: string; label: string }
+    // "1:64" = 1 part concentrate to 64 parts water
+    | { kind: 'parts'; waterParts: number; text: string; label: string }
+    // "500 ppm": a target concentration of the active ingredient, not a volume ratio
+    | { kind: 'ppm'; ppm: number; text: string; label: string };
+
+export type VolumeUnit = 'gal' | 'qt' | 'pt' | 'cup' | 'oz' | 'l' | 'ml';
+
+export type Volume = { amount: number; unit: VolumeUnit };
+
+export type DilutionResult = {
+    ratio: string;
+    // Concentrate share of the finished use-solution, 0..1
+    concentrateFraction: number;
+    solution: { gallons: number; liters: number };
+    concentrate: { ounces: number; milliliters: number };
+    water: { gallons: number; liters: number };
+    // Only when a container price was given
+    costPerGallon?: number;
+};
+
+const FLUID_OUNCES: Record<VolumeUnit, number> = {
+    gal: 128,
+    qt: 32,
+    pt: 16,
+    cup: 8,
+    oz: 1,
+    l: 33.814,
+    ml: 0.033814,
+};
+
+const UNIT_ALIASES: Record<string, VolumeUnit> = {
+    gal: 'gal', gals: 'gal', gallon: 'gal', gallons: 'gal',
+    qt: 'qt', qts: 'qt', quart: 'qt', quarts: 'qt',
+    pt: 'pt', pint: 'pt', pints: 'pt',
+    cup: 'cup', cups: 'cup',
+    oz: 'oz', 'fl oz': 'oz', ounce: 'oz', ounces: 'oz',
+    l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+    ml: 'ml', milliliter: 'ml', milliliters: 'ml',
+};
+
+// A whole number, decimal, fraction ("1/2") or mixed number ("1 1/2")
+const AMOUNT = String.raw`(?:\d+\s+)?\d+\/\d+|\d+(?:\.\d+)?`;
+// Anchored so it never starts inside another number ("3-8" is not "8", "1/2" is not "2"). Optionally a
+// range ("3-8 oz per gallon", "3 to 8 oz per gallon"), parsed as its low and high end
+const OZ_PER_GALLON_PATTERN = new RegExp(
+    String.raw`(?<![\d/.-])(${AMOUNT})(?:\s*(?:-|–|to)\s*(${AMOUNT}))?\s*(?:fl\.?\s*)?(?:oz|ounces?)\.?\)?\s*(?:\/|per|to (?:a|each|1))\s*(?:gal(?:lon)?s?)\b(?:\s+of\s+water)?`,
+    'gi'
+);
+const PARTS_PATTERN = /\b1\s*:\s*(\d+(?:\.\d+)?)\b/g;
+const PPM_PATTERN = /\b(\d+(?:\.\d+)?)\s*ppm\b/gi;
+const LITERS_PER_GALLON = 3.78541;
+const ML_PER_OZ = 29.5735;
+
+const round = (value: number, places = 2) => Number(value.toFixed(places));
+
+// "1 1/2" -> 1.5, "1/2" -> 0.5, "2.5" -> 2.5; NaN for a zero denominator
+const parseAmount = (text: string) => {
+    const fraction = text.match(/^(?:(\d+)\s+)?(\d+)\/(\d+)$/);
+    if (!fraction) return Number(text);
+    const [, whole = '0', numerator, denominator] = fraction;
+    return Number(denominator) > 0 ? Number(whole) + Number(numerator) / Number(denominator) : NaN;
+};
+
+export const parseVolumeUnit = (unit: string): VolumeUnit | null =>
+    UNIT_ALIASES[unit.trim().toLowerCase().replace(/\.$/, '')] || null;
+
+export const toFluidOunces = (volume: Volume) => volume.amount * FLUID_OUNCES[volume.unit];
+
+// The text before the ratio on its line, e.g. "Damp Mopping" from "Damp Mopping: 1 oz per gallon"
+const labelBefore = (text: string, index: number) => {
+    const lineStart = text.lastIndexOf('\n', index) + 1;
+    return text
+        .slice(lineStart, index)
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/[-*:#(\s]+$/, '')
+        .replace(/^[-*#\s]+/, '')
+        .trim()
+        .slice(-60);
+};
+
+/**
+ * Every dilution ratio in a protocol record, in document order. Reversed ranges ("8-3 oz") are skipped.
+ */
+export const parseDilutionRatios = (text: string): DilutionRatio[] => {
+    const found: { index: number; ratio: DilutionRatio }[] = [];
+    for (const match of text.matchAll(OZ_PER_GALLON_PATTERN)) {
+        const low = parseAmount(match[1]);
+        const high = match[2] ? parseAmount(match[2]) : low;
+        // A reversed or out-of-range amount is more likely a misparse than a direction worth computing
+        if (!(low > 0 && high >= low && high <= 128)) continue;
+        const stated = match[0].replace(')', '').trim();
+        const label = labelBefore(text, match.index);
+        if (high === low) {
+            found.push({ index: match.index, ratio: { kind: 'ozPerGallon', ozPerGallon: low, text: stated, label } });
+            continue;
+        }
+        // A range is offered as both ends, so the customer picks the strength instead of getting a midpoint
+        const unit = stated.slice(stated.indexOf(match[2]) + match[2].length).trim();
+        for (const [end, amount] of [['low end', low], ['high end', high]] as const) {
+            const endLabel = label ? `${label} (${end})` : end;
+            found.push({ index: match.index, ratio: { kind: 'ozPerGallon', ozPerGallon: amount, text: `${round(amount, 3)} ${unit}`, label: endLabel } });
+        }
+    }
+    for (const match of text.matchAll(PARTS_PATTERN)) {
+        const waterParts = Number(match[1]);
+        if (waterParts > 0) {
+            found.push({ index: match.index, ratio: { kind: 'parts', waterParts, text: match[0].replace(/\s+/g, ''), label: labelBefore(text, match.index) } });
+        }
+    }
+    for (const match of text.matchAll(PPM_PATTERN)) {
+        found.push({ index: match.index, ratio: { kind: 'ppm', ppm: Number(match[1]), text: match[0].trim(), label: labelBefore(text, match.index) } });
+    }
+    return found.sort((a, b) => a.index - b.index).map(({ ratio }) => ratio);
+};
+
+/**
+ * Share of concentrate in the finished solution, or null for ppm targets (those depend on the
+ * product's active-ingredient strength, which a volume ratio can't capture).
+ */
+export const concentrateFraction = (ratio: DilutionRatio) => {
+    if (ratio.kind === 'ozPerGallon') return Math.min(ratio.ozPerGallon / FLUID_OUNCES.gal, 1);
+    if (ratio.kind === 'parts') return 1 / (1 + ratio.waterParts);
+    return null;
+};
+
+/**
+ * Amounts for one batch. Give the use-solution volume to get the concentrate needed, or the
+ * concentrate volume (e.g. a 5 gallon pail) to get how much use-solution it makes.
+ * `price` is the cost of `concentrate` and adds a cost per gallon of use-solution.
+ */
+export const calculateDilution = (
+    ratio: DilutionRatio,
+    input: { solution?: Volume; concentrate?: Volume; price?: number }
+): DilutionResult | { error: string } => {
+    const fraction = concentrateFraction(ratio);
+    if (fraction === null) {
+        return { error: `${ratio.text} is a concentration target, not a volume ratio. Use the oz per gallon directions from the label.` };
+    }
+
+    let solutionOz: number;
+    if (input.solution && input.solution.amount > 0) {
+        solutionOz = toFluidOunces(input.solution);
+    } else if (input.concentrate && input.concentrate.amount > 0) {
+        solutionOz = toFluidOunces(input.concentrate) / fraction;
+    } else {
+        return { error: 'Give a use-solution volume or a concentrate volume.' };
+    }
+
+    const concentrateOz = solutionOz * fraction;
+    const solutionGallons = solutionOz / FLUID_OUNCES.gal;
+    const waterGallons = (solutionOz - concentrateOz) / FLUID_OUNCES.gal;
+    const result: DilutionResult = {
+        ratio: ratio.text,
+        concentrateFraction: round(fraction, 5),
+        solution: { gallons: round(solutionGallons), liters: round(solutionGallons * LITERS_PER_GALLON) },
+        concentrate: { ounces: round(concentrateOz), milliliters: round(concentrateOz * ML_PER_OZ, 0) },
+        water: { gallons: round(waterGallons), liters: round(waterGallons * LITERS_PER_GALLON) },
+    };
+
+    if (input.price !== undefined && input.price > 0 && input.concentrate && input.concentrate.amount > 0) {
+        const totalSolutionGallons = toFluidOunces(input.concentrate) / fraction / FLUID_OUNCES.gal;
+        result.costPerGallon = round(input.price / totalSolutionGallons, 3);
+    }
+    return result;
+};
@@ -0,0 +1,148 @@
+import { createHash } from 'crypto';
+import { promises as fsp } from 'fs';
+import path from 'path';
+import { LRUCache } from 'lru-cache';
+import { hasSdsStructure, SdsSection, splitSdsSections } from '@/lib/sdsSections';
+
+// Parsed bucket documents, keyed by object name plus its store version (GCS generation/md5Hash, or local mtime/size).
+// A re-uploaded object gets a new version, so stale entries are simply never hit again.
+
+export type ParsedDocument = {
+    name: string;
+    version: string;
+    text: string;
+    // GHS section chunks when the text is SDS-shaped, otherwise empty
+    sections: SdsSection[];
+};
+
+export interface DocumentCacheTier {
+    get(key: string): Promise<ParsedDocument | undefined>;
+    set(key: string, document: ParsedDocument): Promise<void>;
+}
+
+const DEFAULT_MEMORY_BYTES = 64 * 1024 * 1024;
+const DEFAULT_DISK_BYTES = 512 * 1024 * 1024;
+
+// UTF-16 in memory: roughly two bytes per character across the text and its section copies
+const estimateBytes = (document: ParsedDocument) =>
+    2 * (document.text.length + document.sections.reduce((sum, section) => sum + section.text.length + section.title.length, 0));
+
+export const parseDocument = (name: string, version: string, text: string): ParsedDocument => {
+    const sections = splitSdsSections(text);
+    return { name, version, text, sections: hasSdsStructure(sections) ? sections : [] };
+};
+
+export const createMemoryTier = (maxBytes = DEFAULT_MEMORY_BYTES): DocumentCacheTier => {
+    const cache = new LRUCache<string, ParsedDocument>({
+        maxSize: maxBytes,
+        sizeCalculation: (document) => Math.max(1, estimateBytes(document)),
+    });
+    return {
+        async get(key) {
+            return cache.get(key);
+        },
+        async set(key, document) {
+            // Documents larger than the whole tier are served but not cached
+            if (estimateBytes(document) <= maxBytes) cache.set(key, document);
+        },
+    };
+};
+
+/**
+ * JSON files under `dir`, one per key. When the directory grows past `maxBytes`
+ * the least recently written entries are deleted.
+ */
+export const createDiskTier = (dir: string, maxBytes = DEFAULT_DISK_BYTES): DocumentCacheTier => {
+    const fileFor = (key: string) => path.join(dir, `${createHash('sha1').update(key).digest('hex')}.json`);
+
+    const evict = async () => {
+        const names = await fsp.readdir(dir);
+        const entries = await Promise.all(
+            names.filter((name) => name.endsWith('.json')).map(async (name) => {
+                const stat = await fsp.stat(path.join(dir, name));
+                return { name, size: stat.size, mtime: stat.mtimeMs };
+            })
+        );
+        let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+        for (const entry of entries.sort((a, b) => a.mtime - b.mtime)) {
+            if (total <= maxBytes) break;
+            await fsp.rm(path.join(dir, entry.name), { force: true });
+            total -= entry.size;
+        }
+    };
+
+    return {
+        async get(key) {
+            try {
+                return JSON.parse(await fsp.readFile(fileFor(key), 'utf-8'));
+            } catch {
+                return undefined;
+            }
+        },
+        async set(key, document) {
+            try {
+                await fsp.mkdir(dir, { recursive: true });
+                await fsp.writeFile(fileFor(key), JSON.stringify(document));
+                await evict();
+            } catch (err) {
+                console.warn('Document disk cache write failed:', err);
+            }
+        },
+    };
+};
+
+/**
+ * Two-tier read-through cache: memory first, then the optional disk tier, then `load`.
+ * Concurrent misses for the same key share one download.
+ */
+export const createDocumentCache = (tiers: { memory: DocumentCacheTier; disk?: DocumentCacheTier | null }) => {
+    const inFlight = new Map<string, Promise<ParsedDocument>>();
+
+    const get = async (name: string, version: string, load: (name: string) => Promise<string>) => {
+        const key = `${name}#${version}`;
+
+        const fromMemory = await tiers.memory.get(key);
+        if (fromMemory) return fromMemory;
+
+        const pending = inFlight.get(key);
+        if (pending) return pending;
+
+        const promise = (async () => {
+            const fromDisk = await tiers.disk?.get(key);
+            if (fromDisk) {
+                await tiers.memory.set(key, fromDisk);
+                return fromDisk;
+            }
+
+            const document = parseDocument(name, version, await load(name));
+            await tiers.memory.set(key, document);
+            await tiers.disk?.set(key, document);
+            return document;
+        })();
+
+        inFlight.set(key, promise);
+        try {
+            return await promise;
+        } finally {
+            inFlight.delete(key);
+        }
+    };
+
+    return { get };
+};
+
+/**
+ * Cache configured from env: `DOCUMENT_CACHE_MEMORY_MB` sizes the memory tier and
+ * `DOCUMENT_CACHE_DIR` (optional) enables the disk tier, bounded by `DOCUMENT_CACHE_DISK_MB`.
+ */
+export const createDocumentCacheFromEnv = () => {
+    const megabytes = (value: string | undefined, fallback: number) =>
+        value && Number(value) > 0 ? Number(value) * 1024 * 1024 : fallback;
+
+    return createDocumentCache({
+        memory: createMemoryTier(megabytes(process.env.DOCUMENT_CACHE_MEMORY_MB, DEFAULT_MEMORY_BYTES)),
+        disk: process.env.DOCUMENT_CACHE_DIR
+            ? createDiskTier(process.env.DOCUMENT_CACHE_DIR, megabytes(process.env.DOCUMENT_CACHE_DISK_MB, DEFAULT_DISK_BYTES))
+            : null,
+    });
+};
@@ -0,0 +1,111 @@
+import { promises as fsp } from 'fs';
+import path from 'path';
+import { Storage } from '@google-cloud/storage';
+import { getGoogleCloudOptions } from '@/lib/googleCloud';
+
+// Where the knowledge-base documents live: the GCS bucket, or a local directory with the same layout
+// (`grounding/`, `sku_master/`, `sku_protocol/`, `sku_procurement/`, `product_guide.txt`, ...)
+// so the assistant runs offline against a fixture bucket.
+
+export type StoredDocument = {
+    name: string;
+    // Changes whenever the object's content does (GCS generation + md5Hash, or local mtime + size)
+    version: string;
+};
+
+export interface DocumentStore {
+    kind: 'gcs' | 'local';
+    list(prefix?: string): Promise<StoredDocument[]>;
+    // null when the object doesn't exist
+    read(name: string): Promise<Buffer | null>;
+    write(name: string, content: string | Buffer): Promise<void>;
+    // Link a customer can open (public GCS URL, or /api/docs/... for the local store)
+    publicUrl(name: string): string;
+    // Location shown in answer sources, e.g. gs://bucket/grounding/grounding__bio-maxx.txt
+    uri(name: string): string;
+}
+
+export const DEFAULT_BUCKET_NAME = 'united-formulas-files';
+
+export const createGcsDocumentStore = (bucketName = process.env.GCS_BUCKET_NAME || DEFAULT_BUCKET_NAME): DocumentStore => {
+    const bucket = new Storage(getGoogleCloudOptions()).bucket(bucketName);
+    return {
+        kind: 'gcs',
+        async list(prefix) {
+            const [files] = await bucket.getFiles(prefix ? { prefix } : {});
+            return files.map((file) => ({
+                name: file.name,
+                version: `${file.metadata?.generation ?? '0'}:${file.metadata?.md5Hash ?? ''}`,
+            }));
+        },
+        async read(name) {
+            const file = bucket.file(name);
+            const [exists] = await file.exists();
+            if (!exists) return null;
+            const [content] = await file.download();
+            return content;
+        },
+        async write(name, content) {
+            await bucket.file(name).save(content, { contentType: name.endsWith('.txt') ? 'text/plain; charset=utf-8' : undefined });
+        },
+        publicUrl: (name) => `https://storage.googleapis.com/${bucketName}/${encodeURIComponent(name)}`,
+        uri: (name) => `gs://${bucketName}/${name}`,
+    };
+};
+
+/**
+ * Resolves an object name inside `root`, or null if it would escape it ("../", absolute paths).
+ */
+export const resolveLocalPath = (root: string, name: string) => {
+    const resolved = path.resolve(root, name);
+    return resolved.startsWith(path.resolve(root) + path.sep) ? resolved : null;
+};
+
+export const createLocalDocumentStore = (dir: string): DocumentStore => {
+    const root = path.resolve(dir);
+    const walk = async (relative: string): Promise<StoredDocument[]> => {
+        const entries = await fsp.readdir(path.join(root, relative), { withFileTypes: true }).catch(() => []);
+        const nested = await Promise.all(entries.map(async (entry) => {
+            const name = relative ? `${relative}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) return walk(name);
+            const stat = await fsp.stat(path.join(root, name));
+            return [{ name, version: `${Math.floor(stat.mtimeMs)}:${stat.size}` }];
+        }));
+        return nested.flat();
+    };
+
+    return {
+        kind: 'local',
+        async list(prefix) {
+            const documents = await walk('');
+            return documents.filter((document) => !prefix || document.name.startsWith(prefix)).sort((a, b) => a.name.localeCompare(b.name));
+        },
+        async read(name) {
+            const file = resolveLocalPath(root, name);
+            return file ? fsp.readFile(file).catch(() => null) : null;
+        },
+        async write(name, content) {
+            const file = resolveLocalPath(root, name);
+            if (!file) throw new Error(`Invalid document name: ${name}`);
+            await fsp.mkdir(path.dirname(file), { recursive: true });
+            await fsp.writeFile(file, content);
+        },
+        publicUrl: (name) => `/api/docs/${name.split('/').map(encodeURIComponent).join('/')}`,
+        uri: (name) => `${dir.replace(/\/+$/, '')}/${name}`,
+    };
+};
+
+// Kept on globalThis so every API route (bundled separately) shares one client
+const globalStore = globalThis as typeof globalThis & { documentStore?: DocumentStore };
+
+/**
+ * Document store selected by DOCUMENT_STORE: `gcs` (default) or `local`, reading DOCUMENT_STORE_DIR.
+ */
+export const getDocumentStore = () => {
+    if (!globalStore.documentStore) {
+        globalStore.documentStore = process.env.DOCUMENT_STORE === 'local'
+            ? createLocalDocumentStore(process.env.DOCUMENT_STORE_DIR || 'evals/fixtures/bucket')
+            : createGcsDocumentStore();
+    }
+    return globalStore.documentStore;
+};
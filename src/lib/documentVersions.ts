@@ -0,0 +1,144 @@
+import type { ParsedDocument } from '@/lib/documentCache';
+import { diffLines } from '@/lib/ingestion/diff';
+
+// Bucket objects are named `<family>/<family>__<slug>__v<N>.txt` (the grounding merges carry no version).
+// Every family/slug pair resolves to its newest version; older versions stay listed for audit questions
+// ("what changed in the Apex SDS?").
+
+export type DocumentName = {
+    family: string;
+    slug: string;
+    // "1", "0.1"; null for unversioned names
+    version: string | null;
+};
+
+// Group key -> object names, newest version first
+export type DocumentVersionIndex = Map<string, string[]>;
+
+export type VersionChange = {
+    family: string;
+    current: string;
+    previous: string;
+    added: string[];
+    removed: string[];
+};
+
+// "What changed", "previous version", "revision history": questions about a document's past versions
+const VERSION_HISTORY_PATTERN = /\b(?:what(?:'s|\s+has|\s+have)?\s+changed|changes?\s+(?:in|to|between|since)|(?:previous|older|earlier|prior|last)\s+(?:version|revision)s?|version\s+history|revision(?:s|\s+history)?|revised)\b/i;
+
+// Lines of each side of a version diff handed to the model
+const MAX_CHANGE_LINES = 40;
+
+/**
+ * Parses bucket object names like `sku_master/sku_master__apex-5-gal__v1.txt`
+ * or `grounding/grounding__bio-maxx.txt` into their family, slug and version.
+ */
+export const parseDocumentName = (name: string): DocumentName | null => {
+    const base = name.split('/').pop() || name;
+    const parts = base.replace(/\.(txt|pdf)$/i, '').split('__');
+    if (parts.length < 2) return null;
+    const version = parts[2]?.match(/^v(\d+(?:\.\d+)*)$/i)?.[1] ?? null;
+    return { family: parts[0], slug: parts[1], version };
+};
+
+export const documentVersionLabel = (name: string) => {
+    const version = parseDocumentName(name)?.version;
+    return version ? `v${version}` : null;
+};
+
+/**
+ * Orders versions numerically per segment ("0.1" < "1" < "1.2" < "10"); an unversioned name sorts first.
+ */
+export const compareVersions = (a: string | null, b: string | null) => {
+    if (a === b) return 0;
+    if (a === null) return -1;
+    if (b === null) return 1;
+    const left = a.split('.').map(Number);
+    const right = b.split('.').map(Number);
+    for (let i = 0; i < Math.max(left.length, right.length); i++) {
+        const difference = (left[i] || 0) - (right[i] || 0);
+        if (difference !== 0) return difference;
+    }
+    return 0;
+};
+
+const groupKey = (parsed: DocumentName) => `${parsed.family}__${parsed.slug.toLowerCase()}`;
+
+export const buildDocumentVersionIndex = (fileNames: string[]): DocumentVersionIndex => {
+    const index: DocumentVersionIndex = new Map();
+    for (const name of fileNames) {
+        const parsed = parseDocumentName(name);
+        if (!parsed) continue;
+        const key = groupKey(parsed);
+        index.set(key, [...(index.get(key) || []), name]);
+    }
+    for (const names of index.values()) {
+        names.sort((a, b) => compareVersions(parseDocumentName(b)!.version, parseDocumentName(a)!.version) || a.localeCompare(b));
+    }
+    return index;
+};
+
+/**
+ * All versions of the document `name` belongs to, newest first (just `name` when it has no siblings).
+ */
+export const documentVersions = (name: string, index: DocumentVersionIndex) => {
+    const parsed = parseDocumentName(name);
+    return (parsed && index.get(groupKey(parsed))) || [name];
+};
+
+export const latestVersionOf = (name: string, index: DocumentVersionIndex) => documentVersions(name, index)[0];
+
+/**
+ * Drops superseded versions, keeping the listing order of what remains.
+ * Names that don't follow the family__slug naming are kept as they are.
+ */
+export const latestDocumentNames = (fileNames: string[]) => {
+    const index = buildDocumentVersionIndex(fileNames);
+    return fileNames.filter((name) => !parseDocumentName(name) || latestVersionOf(name, index) === name);
+};
+
+export const isVersionHistoryQuestion = (message: string) => VERSION_HISTORY_PATTERN.test(message);
+
+/**
+ * Line diff between each current document and the version before it.
+ * Documents with a single version on file have no entry.
+ */
+export const gatherVersionChanges = async (
+    currentNames: string[],
+    index: DocumentVersionIndex,
+    loadDocument: (name: string) => Promise<ParsedDocument>
+): Promise<VersionChange[]> => {
+    const changes = await Promise.all(currentNames.map(async (current) => {
+        const previous = documentVersions(current, index)[1];
+        if (!previous) return null;
+        try {
+            const [after, before] = await Promise.all([loadDocument(current), loadDocument(previous)]);
+            const { added, removed } = diffLines(before.text.trim(), after.text.trim());
+            return { family: parseDocumentName(current)!.family, current, previous, added, removed };
+        } catch (err) {
+            console.error(`Error comparing ${previous} with ${current}:`, err);
+            return null;
+        }
+    }));
+    return changes.filter((change): change is VersionChange => change !== null);
+};
+
+// Documents are named through `labelOf` (their family label), never by bucket file name
+export const formatVersionHistory = (currentNames: string[], changes: VersionChange[], labelOf: (name: string) => string) => {
+    const blocks = changes.map((change) => {
+        const list = (lines: string[], marker: string) => {
+            const shown = lines.filter((line) => line.trim()).slice(0, MAX_CHANGE_LINES).map((line) => `${marker} ${line}`);
+            return shown.length > 0 ? shown.join('\n') : `${marker} (none)`;
+        };
+        return `=== ${labelOf(change.current)}: ${documentVersionLabel(change.previous) || 'unversioned'} -> ${documentVersionLabel(change.current) || 'unversioned'} ===
+Removed lines:
+${list(change.removed, '-')}
+Added lines:
+${list(change.added, '+')}`;
+    });
+    const singleVersions = currentNames.filter((name) => !changes.some((change) => change.current === name));
+
+    return `VERSION HISTORY (ANSWER "WHAT CHANGED" QUESTIONS ONLY FROM THIS; NAME THE VERSIONS COMPARED):
+${blocks.join('\n\n') || 'No earlier versions are on file for this product\'s documents.'}${singleVersions.length > 0 ? `
+Only one version on file: ${singleVersions.map((name) => `${labelOf(name)} (${documentVersionLabel(name) || 'unversioned'})`).join(', ')}` : ''}`;
+};
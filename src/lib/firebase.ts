@@ -1,33 +0,0 @@
-import { initializeApp, getApps, getApp } from 'firebase/app';
-import { getFirestore, collection, addDoc, serverTimestamp } from 'firebase/firestore';
-
-const firebaseConfig = {
-    apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
-    authDomain: process.env.NEXT_PUBLIC_FIREBASE_AUTH_DOMAIN,
-    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
-    storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
-    messagingSenderId: process.env.NEXT_PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
-    appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID
-};
-
-// Initialize Firebase
-const app = getApps().length > 0 ? getApp() : initializeApp(firebaseConfig);
-const db = getFirestore(app);
-
-export const saveLead = async (name: string, email: string) => {
-    try {
-        const docRef = await addDoc(collection(db, 'leads'), {
-            name,
-            email,
-            source: 'Ask The Chemist Widget',
-            timestamp: serverTimestamp()
-        });
-        console.log('Lead saved with ID: ', docRef.id);
-        return docRef.id;
-    } catch (e) {
-        console.error('Error adding document: ', e);
-        throw e;
-    }
-};
-
-export { db };
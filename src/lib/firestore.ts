@@ -0,0 +1,24 @@
+import { Firestore } from '@google-cloud/firestore';
+import { getGoogleCloudOptions } from '@/lib/googleCloud';
+
+let firestore: Firestore | null = null;
+
+// Server-side Firestore client, created on first use with the same service account as Storage
+export const getFirestore = () => {
+    if (!firestore) {
+        const options = getGoogleCloudOptions();
+        firestore = new Firestore({
+            ...options,
+            projectId: process.env.FIRESTORE_PROJECT_ID || options.projectId,
+            ignoreUndefinedProperties: true,
+        });
+    }
+    return firestore;
+};
+
+/**
+ * Whether Firestore credentials or a project are configured. Stores that default to Firestore in
+ * production fall back to memory without them instead of failing every request.
+ */
+export const isFirestoreConfigured = () =>
+    Boolean(process.env.FIRESTORE_PROJECT_ID || process.env.GCS_CREDENTIALS_BASE64 || process.env.GOOGLE_APPLICATION_CREDENTIALS);
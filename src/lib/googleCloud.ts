@@ -0,0 +1,17 @@
+// Credential options shared by the Google Cloud clients (Storage, Firestore).
+// Priority: Base64-encoded credentials (production) > File path (local development) > default credentials
+export const getGoogleCloudOptions = (): { credentials?: any; keyFilename?: string; projectId?: string } => {
+    // For production: Use Base64-encoded service account JSON
+    if (process.env.GCS_CREDENTIALS_BASE64) {
+        const credentials = JSON.parse(
+            Buffer.from(process.env.GCS_CREDENTIALS_BASE64, 'base64').toString('utf-8')
+        );
+        return { credentials, projectId: credentials.project_id };
+    }
+    // For local development: Use file path
+    if (process.env.GOOGLE_APPLICATION_CREDENTIALS) {
+        return { keyFilename: process.env.GOOGLE_APPLICATION_CREDENTIALS };
+    }
+    // Fallback: Use default application credentials (GCE, Cloud Run, etc.)
+    return {};
+};
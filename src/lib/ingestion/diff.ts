@@ -0,0 +1,52 @@
+import type { ProductMetadata } from '@/lib/productResolver';
+
+// Dry-run diffs: a per-product summary for the metadata, and added/removed lines for text documents.
+
+const MAX_SAMPLE_LINES = 6;
+
+// Lines only in `before` (removed) and only in `after` (added), counting repeats
+export const diffLines = (before: string, after: string) => {
+    const remaining = new Map<string, number>();
+    for (const line of before.split('\n')) remaining.set(line, (remaining.get(line) || 0) + 1);
+    const added: string[] = [];
+    for (const line of after.split('\n')) {
+        const count = remaining.get(line) || 0;
+        if (count > 0) remaining.set(line, count - 1);
+        else added.push(line);
+    }
+    const removed = [...remaining].flatMap(([line, count]) => Array(count).fill(line) as string[]);
+    return { added, removed };
+};
+
+export const summarizeTextDiff = (before: string, after: string) => {
+    const { added, removed } = diffLines(before, after);
+    return [
+        `+${added.length} -${removed.length} lines`,
+        ...removed.slice(0, MAX_SAMPLE_LINES).map((line) => `- ${line.slice(0, 120)}`),
+        ...added.slice(0, MAX_SAMPLE_LINES).map((line) => `+ ${line.slice(0, 120)}`),
+    ];
+};
+
+export const summarizeMetadataDiff = (before: ProductMetadata, after: ProductMetadata) => {
+    const lines: string[] = [];
+    for (const [slug, entry] of Object.entries(after)) {
+        const previous = before[slug];
+        if (!previous) {
+            lines.push(`+ ${slug} (${entry.displayName || 'no name'}, ${entry.variants?.length || 0} variants)`);
+            continue;
+        }
+        const changed = (['displayName', 'category', 'canonicalDescription'] as const).filter((field) => previous[field] !== entry[field]);
+        const addedVariants = (entry.variants || []).filter((v) => !previous.variants?.includes(v));
+        const removedVariants = (previous.variants || []).filter((v) => !entry.variants?.includes(v));
+        const parts = [
+            ...changed,
+            ...addedVariants.map((v) => `+${v}`),
+            ...removedVariants.map((v) => `-${v}`),
+        ];
+        if (parts.length > 0) lines.push(`~ ${slug}: ${parts.join(', ')}`);
+    }
+    for (const slug of Object.keys(before)) {
+        if (!after[slug]) lines.push(`- ${slug}`);
+    }
+    return lines;
+};
@@ -0,0 +1,104 @@
+import type { ProductMetadata, ProductMetadataEntry } from '@/lib/productResolver';
+
+// Enrichment CSV (WooCommerce export: SKU, Name, Short description, Description, Categories)
+// to product_metadata.json. Rows with a description are products; rows without one are pack sizes
+// linked to the product whose SKU they extend ("bio-maxx-5-gal" -> "bio-maxx").
+
+const MIN_DESCRIPTION_LENGTH = 6;
+
+const HTML_ENTITIES: Record<string, string> = {
+    '&nbsp;': ' ',
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#39;': "'",
+};
+
+const decodeEntities = (text: string) =>
+    text
+        .replace(/&(?:nbsp|amp|lt|gt|quot|#39);/g, (entity) => HTML_ENTITIES[entity])
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+
+/**
+ * Plain text from a WooCommerce description: tags, entities and the export's literal `\n` sequences removed.
+ */
+export const cleanDescription = (text: string) =>
+    decodeEntities(text.replace(/<[^>]*>/g, ' ').replace(/\\n/g, ' '))
+        .replace(/\s+/g, ' ')
+        .trim();
+
+/**
+ * Lowercase-hyphenated slug for a CSV or legacy metadata SKU: "r&amp;r-degreaser-5-gal" -> "r-r-degreaser-5-gal",
+ * "Delta Green" -> "delta-green". File lookups compare normalized names, so bucket files keep matching.
+ */
+export const toSkuSlug = (sku: string) =>
+    decodeEntities(sku)
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+
+export type EnrichmentResult = {
+    products: ProductMetadata;
+    // Pack-size rows whose SKU extends no product in the CSV or the existing metadata
+    unlinkedSkus: string[];
+    // Existing keys and variants that were not valid slugs, as "old -> new"
+    renamedSlugs: string[];
+};
+
+/**
+ * Merges the CSV into `existing`: the CSV wins for names, descriptions and categories,
+ * while variants are only ever added, so hand-maintained aliases survive a re-run.
+ * Every SKU, old or new, is stored as a slug; an existing key that changes merges into any entry already there.
+ */
+export const buildProductMetadata = (rows: Record<string, string>[], existing: ProductMetadata = {}): EnrichmentResult => {
+    const products: ProductMetadata = {};
+    const renamedSlugs: string[] = [];
+    const migrate = (sku: string) => {
+        const slug = toSkuSlug(sku);
+        if (slug !== sku) renamedSlugs.push(`${sku} -> ${slug}`);
+        return slug;
+    };
+    for (const [key, entry] of Object.entries(existing)) {
+        const slug = migrate(key);
+        const variants = [...new Set([...(products[slug]?.variants || []), ...(entry.variants || []).map(migrate)])];
+        products[slug] = { ...entry, ...products[slug], variants };
+    }
+
+    // Measured after cleaning, so a pack row whose description is only markup ("'\n\n") stays a pack row
+    const isProductRow = (row: Record<string, string>) =>
+        cleanDescription(row['Short description'] || '').length >= MIN_DESCRIPTION_LENGTH
+        || cleanDescription(row.Description || '').length >= MIN_DESCRIPTION_LENGTH;
+
+    for (const row of rows) {
+        const sku = toSkuSlug(row.SKU || '');
+        if (!sku || !isProductRow(row)) continue;
+        const entry: ProductMetadataEntry = { ...products[sku] };
+        if (row.Name) entry.displayName = cleanDescription(row.Name);
+        const description = cleanDescription(row['Short description'] || row.Description || '');
+        if (description) entry.canonicalDescription = description;
+        if (row.Categories) entry.category = cleanDescription(row.Categories);
+        entry.variants = entry.variants || [];
+        products[sku] = entry;
+    }
+
+    // The longest matching product wins, so "dynamo-x-commercial-5-gal" goes to dynamo-x-commercial, not dynamo-x
+    const slugsByLength = Object.keys(products).sort((a, b) => b.length - a.length);
+    const unlinkedSkus: string[] = [];
+    for (const row of rows) {
+        const sku = toSkuSlug(row.SKU || '');
+        if (!sku || isProductRow(row) || products[sku]) continue;
+        const owner = slugsByLength.find((slug) => sku.startsWith(`${slug}-`));
+        if (!owner) {
+            unlinkedSkus.push(sku);
+            continue;
+        }
+        const variants = products[owner].variants || [];
+        if (!variants.includes(sku)) products[owner].variants = [...variants, sku];
+    }
+
+    for (const entry of Object.values(products)) {
+        if (entry.variants?.length === 0) delete entry.variants;
+    }
+    return { products, unlinkedSkus, renamedSlugs };
+};
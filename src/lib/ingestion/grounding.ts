@@ -0,0 +1,41 @@
+import { promises as fsp } from 'fs';
+import path from 'path';
+import { groundingDocumentName } from '@/lib/ingestion/schemas';
+
+// SDS Intake App exports to grounding documents. Each product is a directory holding
+// `sections/<product>__sec-04-first-aid-measures.txt` files; they are merged in section order
+// under the `## SECTION 04 FIRST AID MEASURES` headers that src/lib/sdsSections.ts splits on.
+
+const SECTION_FILE = /__sec-(.+)\.txt$/;
+
+export type SdsExport = {
+    slug: string;
+    sections: { file: string; heading: string; text: string }[];
+};
+
+export const readSdsExports = async (exportsDir: string): Promise<SdsExport[]> => {
+    const entries = await fsp.readdir(exportsDir, { withFileTypes: true });
+    const exports: SdsExport[] = [];
+    for (const entry of entries.filter((e) => e.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+        const sectionsDir = path.join(exportsDir, entry.name, 'sections');
+        const files = await fsp.readdir(sectionsDir).catch(() => [] as string[]);
+        const sections = [];
+        for (const file of files.filter((f) => SECTION_FILE.test(f)).sort()) {
+            const heading = (file.match(SECTION_FILE)?.[1] || '').replace(/-/g, ' ').toUpperCase();
+            sections.push({ file, heading, text: await fsp.readFile(path.join(sectionsDir, file), 'utf8') });
+        }
+        if (sections.length > 0) exports.push({ slug: entry.name, sections });
+    }
+    return exports;
+};
+
+// No generation timestamp in the body, so re-running on unchanged exports produces identical files (and an empty diff)
+export const buildGroundingDocument = (sds: SdsExport) => ({
+    slug: sds.slug,
+    name: groundingDocumentName(sds.slug),
+    content: [
+        `# TECHNICAL MASTER DATA: ${sds.slug.toUpperCase()}`,
+        '',
+        ...sds.sections.map((section) => `## SECTION ${section.heading}\n${section.text.trim()}\n`),
+    ].join('\n'),
+});
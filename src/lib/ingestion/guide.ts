@@ -0,0 +1,33 @@
+import { latestDocumentNames } from '@/lib/documentVersions';
+
+// The librarian guide (`product_guide.txt` in the bucket): the harvested product catalog followed by
+// the grounding and sku_master file maps, in the format sync_librarian.js has always written.
+// Only the newest version of each file is mapped, so the librarian never picks a superseded one.
+
+export type GuideInput = {
+    // product_guide_harvested.txt, if present
+    harvestedGuide?: string;
+    // Every bucket object name after ingestion, superseded versions included
+    files: string[];
+};
+
+const fileLabel = (name: string, prefix: string) =>
+    name.split(prefix)[1]?.replace('.txt', '').replace(/__v\d+(?:\.\d+)?$/, '').replace(/__/g, ' ').replace(/-/g, ' ') || name;
+
+export const buildLibrarianGuide = ({ harvestedGuide, files }: GuideInput) => {
+    const sorted = latestDocumentNames(files).sort();
+    const lines = ['UNITED FORMULAS PRODUCT LIBRARIAN GUIDE', '========================================', ''];
+
+    if (harvestedGuide) lines.push('## HARVESTED PRODUCT CATALOG (PRIMARY)', harvestedGuide.trim(), '', '');
+
+    lines.push('## TECHNICAL GROUNDING (LIVE GCS)');
+    for (const name of sorted.filter((f) => f.startsWith('grounding/'))) {
+        lines.push(`- ${fileLabel(name, 'grounding__')} -> USE FILE: ${name}`);
+    }
+
+    lines.push('', '## COMMERCE & METADATA (LIVE GCS)');
+    for (const name of sorted.filter((f) => f.startsWith('sku_master/'))) {
+        lines.push(`- ${fileLabel(name, 'sku_master__')} -> USE FILE: ${name}`);
+    }
+    return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,112 @@
+import { parseCsv } from '@/lib/csv';
+import { summarizeMetadataDiff, summarizeTextDiff } from '@/lib/ingestion/diff';
+import { buildProductMetadata } from '@/lib/ingestion/enrichment';
+import { buildGroundingDocument, readSdsExports } from '@/lib/ingestion/grounding';
+import { buildLibrarianGuide } from '@/lib/ingestion/guide';
+import { checkProductSlugs, parseProductMetadata, validateGroundingDocument } from '@/lib/ingestion/schemas';
+import { METADATA_FILE } from '@/lib/ingestion/targets';
+import type { IngestionTarget } from '@/lib/ingestion/targets';
+
+export * from '@/lib/ingestion/schemas';
+export { buildProductMetadata, cleanDescription, toSkuSlug } from '@/lib/ingestion/enrichment';
+export { buildGroundingDocument, readSdsExports } from '@/lib/ingestion/grounding';
+export { buildLibrarianGuide } from '@/lib/ingestion/guide';
+export { createCatalogTarget, createDocumentStoreTarget, createLocalTarget, METADATA_FILE } from '@/lib/ingestion/targets';
+export type { IngestionTarget } from '@/lib/ingestion/targets';
+
+// Builds the knowledge base in one pass: enrichment CSV -> product_metadata.json, SDS exports ->
+// grounding/ documents, and the librarian guide over the resulting file list. Every output is
+// schema-checked and diffed against what the target holds; nothing is written on a dry run or
+// when any output fails its schema.
+
+export const GUIDE_FILE = 'product_guide.txt';
+
+export type IngestionOptions = {
+    // Enrichment CSV text (UF Chemist enrichment.csv)
+    csv?: string;
+    // SDS Intake App exports directory (one sub-directory per product)
+    sdsExportsDir?: string;
+    // product_guide_harvested.txt, prepended to the librarian guide
+    harvestedGuide?: string;
+    // product_metadata.json ships with the app (src/data), or lives in the catalog store once an admin version
+    // exists; documents go to the document store
+    metadataTarget: IngestionTarget;
+    documentTarget: IngestionTarget;
+    dryRun: boolean;
+};
+
+export type FileChange = {
+    target: string;
+    name: string;
+    status: 'added' | 'changed' | 'unchanged';
+    diff: string[];
+};
+
+export type IngestionReport = {
+    changes: FileChange[];
+    // Schema failures; any error means nothing was written
+    errors: string[];
+    notes: string[];
+    written: number;
+};
+
+type PlannedFile = {
+    target: IngestionTarget;
+    name: string;
+    content: string;
+};
+
+export const runIngestion = async (options: IngestionOptions): Promise<IngestionReport> => {
+    const { metadataTarget, documentTarget } = options;
+    const planned: PlannedFile[] = [];
+    const errors: string[] = [];
+    const notes: string[] = [];
+
+    const currentMetadataText = await metadataTarget.read(METADATA_FILE);
+    const currentMetadata = parseProductMetadata(currentMetadataText ? JSON.parse(currentMetadataText) : {});
+    errors.push(...currentMetadata.errors.map((error) => `existing ${METADATA_FILE}: ${error}`));
+
+    if (options.csv !== undefined) {
+        const { products, unlinkedSkus, renamedSlugs } = buildProductMetadata(parseCsv(options.csv), currentMetadata.value);
+        const checked = parseProductMetadata(products);
+        errors.push(...checked.errors, ...checkProductSlugs(checked.value));
+        if (renamedSlugs.length > 0) notes.push(`Renamed to valid slugs: ${renamedSlugs.join(', ')}`);
+        if (unlinkedSkus.length > 0) notes.push(`Pack-size SKUs with no product to link to: ${unlinkedSkus.join(', ')}`);
+        planned.push({ target: metadataTarget, name: METADATA_FILE, content: JSON.stringify(checked.value, null, 4) });
+    }
+
+    if (options.sdsExportsDir) {
+        for (const sds of await readSdsExports(options.sdsExportsDir)) {
+            const document = validateGroundingDocument(buildGroundingDocument(sds));
+            errors.push(...document.errors);
+            planned.push({ target: documentTarget, name: document.value.name, content: document.value.content });
+        }
+    }
+
+    const files = [...new Set([...(await documentTarget.list()), ...planned.filter((p) => p.target === documentTarget).map((p) => p.name)])];
+    planned.push({ target: documentTarget, name: GUIDE_FILE, content: buildLibrarianGuide({ harvestedGuide: options.harvestedGuide, files }) });
+
+    const changes: FileChange[] = [];
+    for (const file of planned) {
+        const before = await file.target.read(file.name);
+        const status = before === null ? 'added' : before === file.content ? 'unchanged' : 'changed';
+        let diff: string[] = [];
+        if (status !== 'unchanged') {
+            diff = file.name === METADATA_FILE
+                ? summarizeMetadataDiff(currentMetadata.value, JSON.parse(file.content))
+                : summarizeTextDiff(before || '', file.content);
+            if (diff.length === 0) diff = ['formatting only'];
+        }
+        changes.push({ target: file.target.label, name: file.name, status, diff });
+    }
+
+    let written = 0;
+    if (!options.dryRun && errors.length === 0) {
+        for (const [i, file] of planned.entries()) {
+            if (changes[i].status === 'unchanged') continue;
+            await file.target.write(file.name, file.content);
+            written++;
+        }
+    }
+    return { changes, errors, notes, written };
+};
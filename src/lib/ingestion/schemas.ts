@@ -0,0 +1,72 @@
+import { isValidSlug, parseProductEntry } from '@/lib/catalog';
+import type { UseCase } from '@/lib/chatTools';
+import type { ProductMetadata } from '@/lib/productResolver';
+import { splitSdsSections } from '@/lib/sdsSections';
+
+// Schemas for the knowledge-base artifacts the chat route consumes: product_metadata.json,
+// use_cases.json, grounding/ SDS documents and the librarian guide. Parsers are tolerant:
+// a bad entry is dropped and reported, so one typo can't take the whole catalog down.
+
+export type SchemaResult<T> = {
+    value: T;
+    errors: string[];
+};
+
+export type GroundingDocument = {
+    slug: string;
+    // Bucket object name, `grounding/grounding__<slug>.txt`
+    name: string;
+    content: string;
+    sectionCount: number;
+};
+
+export const groundingDocumentName = (slug: string) => `grounding/grounding__${slug}.txt`;
+
+export const parseProductMetadata = (raw: unknown): SchemaResult<ProductMetadata> => {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        return { value: {}, errors: ['product metadata must be an object keyed by product slug'] };
+    }
+    const value: ProductMetadata = {};
+    const errors: string[] = [];
+    for (const [slug, entry] of Object.entries(raw)) {
+        const parsed = parseProductEntry(entry);
+        if ('error' in parsed) errors.push(`products.${slug}: ${parsed.error}`);
+        else value[slug] = parsed.entry;
+    }
+    return { value, errors };
+};
+
+// Same rule as the consistency check's invalid-slug: product keys and variants name files and URLs,
+// so anything but a lowercase-hyphenated slug is an error. Kept out of parseProductMetadata so the
+// chat still loads a catalog that has one.
+export const checkProductSlugs = (products: ProductMetadata): string[] =>
+    Object.entries(products).flatMap(([slug, entry]) => [
+        ...(isValidSlug(slug) ? [] : [`products.${slug}: key is not a lowercase-hyphenated slug`]),
+        ...(entry.variants || [])
+            .filter((variant) => !isValidSlug(variant))
+            .map((variant) => `products.${slug}.variants: "${variant}" is not a lowercase-hyphenated slug`),
+    ]);
+
+export const parseUseCaseList = (raw: unknown): SchemaResult<UseCase[]> => {
+    if (!Array.isArray(raw)) return { value: [], errors: ['use cases must be an array'] };
+    const value: UseCase[] = [];
+    const errors: string[] = [];
+    raw.forEach((item, i) => {
+        const valid = item && typeof item === 'object'
+            && typeof item.issue === 'string' && item.issue.trim()
+            && typeof item.solution === 'string'
+            && Array.isArray(item.products) && item.products.every((slug: unknown) => typeof slug === 'string');
+        if (valid) value.push({ issue: item.issue, solution: item.solution, products: item.products });
+        else errors.push(`useCases[${i}]: needs issue, solution and a products array of slugs`);
+    });
+    return { value, errors };
+};
+
+// A grounding document is only useful if the SDS splitter finds its `## SECTION n` headers
+export const validateGroundingDocument = (document: Omit<GroundingDocument, 'sectionCount'>): SchemaResult<GroundingDocument> => {
+    const sectionCount = splitSdsSections(document.content).filter((section) => section.number > 0).length;
+    return {
+        value: { ...document, sectionCount },
+        errors: sectionCount === 0 ? [`${document.name}: no SDS sections found`] : [],
+    };
+};
@@ -0,0 +1,54 @@
+import path from 'path';
+import type { CatalogSnapshot } from '@/lib/catalog';
+import { saveCatalog } from '@/lib/catalogStore';
+import { createLocalDocumentStore, DocumentStore, getDocumentStore } from '@/lib/documentStore';
+import type { ProductMetadata } from '@/lib/productResolver';
+
+// Where ingestion output goes: the configured document store the chat route reads (GCS or
+// DOCUMENT_STORE_DIR), or any local directory laid out the same way for review before uploading.
+// Product metadata goes to the catalog store instead once the admin area has saved a version.
+
+export const METADATA_FILE = 'product_metadata.json';
+
+export interface IngestionTarget {
+    label: string;
+    // null when the object doesn't exist yet
+    read(name: string): Promise<string | null>;
+    write(name: string, content: string): Promise<void>;
+    list(): Promise<string[]>;
+}
+
+const storeTarget = (store: DocumentStore, label: string): IngestionTarget => ({
+    label,
+    read: async (name) => (await store.read(name))?.toString() ?? null,
+    write: (name, content) => store.write(name, content),
+    list: async () => (await store.list()).map((document) => document.name),
+});
+
+export const createLocalTarget = (dir: string) => storeTarget(createLocalDocumentStore(dir), path.resolve(dir));
+
+export const createDocumentStoreTarget = () => {
+    const store = getDocumentStore();
+    return storeTarget(store, store.uri('').replace(/\/$/, ''));
+};
+
+/**
+ * Product metadata held in the catalog store. Reads the given version's products and saves the
+ * ingested metadata as the next version (use cases unchanged), so the chat picks it up like an admin edit.
+ */
+export const createCatalogTarget = (snapshot: CatalogSnapshot): IngestionTarget => ({
+    label: `catalog store (version ${snapshot.version})`,
+    read: async (name) => (name === METADATA_FILE ? JSON.stringify(snapshot.data.products, null, 4) : null),
+    async write(name, content) {
+        if (name !== METADATA_FILE) throw new Error(`The catalog store only holds ${METADATA_FILE}, not ${name}`);
+        const products = JSON.parse(content) as ProductMetadata;
+        const result = await saveCatalog(
+            { version: snapshot.version, data: snapshot.data },
+            { products, useCases: snapshot.data.useCases },
+            { author: 'ingest', summary: `Ingested product metadata (${Object.keys(products).length} products)` },
+        );
+        if (result.status === 'conflict') throw new Error(`Catalog version ${result.version} was saved during ingestion; run it again`);
+        if (result.status === 'invalid') throw new Error(`Catalog rejected the ingested metadata: ${result.issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ')}`);
+    },
+    list: async () => [METADATA_FILE],
+});
@@ -0,0 +1,3 @@
+// Shown next to the consent buttons in the widget and stored verbatim with each consent decision.
+// Change the wording here (never inline) so stored records always say what the user actually saw.
+export const CATALOGUE_CONSENT_WORDING = 'Email me the United Formulas product catalogue and related product updates.';
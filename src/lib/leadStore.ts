@@ -0,0 +1,36 @@
+import type { Query } from '@google-cloud/firestore';
+import { getFirestore } from '@/lib/firestore';
+import { createMemoryLeadStore, Lead, LeadStore } from '@/lib/leads';
+
+const LEADS_COLLECTION = 'leads';
+
+export const createFirestoreLeadStore = (): LeadStore => {
+    const leads = () => getFirestore().collection(LEADS_COLLECTION);
+    const first = async (query: Query) => {
+        const snapshot = await query.limit(1).get();
+        return snapshot.empty ? null : (snapshot.docs[0].data() as Lead);
+    };
+
+    return {
+        findByEmail: (email) => first(leads().where('email', '==', email)),
+        findBySession: (sessionId) => first(leads().where('sessionIds', 'array-contains', sessionId)),
+        async save(lead) {
+            await leads().doc(lead.id).set(lead);
+        },
+        async delete(id) {
+            await leads().doc(id).delete();
+        },
+    };
+};
+
+let leadStore: LeadStore | null = null;
+
+/**
+ * Lead store selected by LEAD_STORE: `firestore` (default) or `memory` for local runs and tests.
+ */
+export const getLeadStore = () => {
+    if (!leadStore) {
+        leadStore = process.env.LEAD_STORE === 'memory' ? createMemoryLeadStore() : createFirestoreLeadStore();
+    }
+    return leadStore;
+};
@@ -0,0 +1,209 @@
+import { extractZip } from '@/lib/delivery';
+import { CATALOGUE_CONSENT_WORDING } from '@/lib/leadConsent';
+import { ProductIndex, resolveProducts, RESOLVER_CONFIDENCE_THRESHOLD } from '@/lib/productResolver';
+
+// Leads captured by the chat widget: one record per person, matched by email, else by chat session.
+
+export const LEAD_SOURCE = 'Ask The Chemist Widget';
+
+export type LeadConsent = {
+    catalogueEmail: boolean;
+    // The exact text the user agreed to (or declined)
+    wording: string;
+    recordedAt: string;
+};
+
+export type Lead = {
+    id: string;
+    name: string | null;
+    email: string | null;
+    sessionIds: string[];
+    consent: LeadConsent | null;
+    // Product slugs discussed in the conversation
+    products: string[];
+    zip: string | null;
+    source: string;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export type LeadInput = {
+    sessionId: string;
+    name?: string;
+    email?: string;
+    consent?: { catalogueEmail: boolean };
+    products?: string[];
+    zip?: string | null;
+};
+
+export interface LeadStore {
+    findByEmail(email: string): Promise<Lead | null>;
+    findBySession(sessionId: string): Promise<Lead | null>;
+    save(lead: Lead): Promise<void>;
+    delete(id: string): Promise<void>;
+}
+
+const EMAIL_PATTERN = /^[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}$/;
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{8,100}$/;
+const NAME_PREFIX_PATTERN = /^(?:hi|hello|hey)?[\s,!.]*(?:my name is|my name's|i'm|i am|this is|call me|it's|name is)\s+/i;
+const MAX_NAME_LENGTH = 80;
+
+export const normalizeEmail = (value: string) => {
+    const email = value.trim().toLowerCase();
+    return email.length <= 254 && EMAIL_PATTERN.test(email) ? email : null;
+};
+
+/**
+ * "my name is jane doe!" -> "Jane Doe". Returns null for anything that doesn't look like a name
+ * (digits, emails, sentences), since the widget can only guess which reply contains the name.
+ */
+export const normalizeName = (value: string) => {
+    const name = value
+        .trim()
+        .replace(NAME_PREFIX_PATTERN, '')
+        .replace(/[.!,]+$/, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+    if (!name || name.length > MAX_NAME_LENGTH) return null;
+    if (!/^[\p{L}][\p{L}'’ .-]*$/u.test(name) || name.split(' ').length > 4) return null;
+    // Respect deliberate casing ("McDonald", "DeWitt"); only fix all-lower or all-upper input
+    const needsCasing = name === name.toLowerCase() || name === name.toUpperCase();
+    return needsCasing
+        ? name.toLowerCase().replace(/(^|[\s'’-])(\p{L})/gu, (_, sep: string, letter: string) => sep + letter.toUpperCase())
+        : name;
+};
+
+/**
+ * Validates a POST /api/leads body. Returns the normalized input or a message for the `details` field.
+ */
+export const parseLeadRequest = (body: any): { input: LeadInput } | { error: string } => {
+    const sessionId = typeof body?.sessionId === 'string' ? body.sessionId.trim() : '';
+    if (!SESSION_ID_PATTERN.test(sessionId)) return { error: 'sessionId is required' };
+
+    const input: LeadInput = { sessionId };
+
+    if (body?.name !== undefined) {
+        const name = typeof body.name === 'string' ? normalizeName(body.name) : null;
+        if (!name) return { error: 'name is not a valid name' };
+        input.name = name;
+    }
+
+    if (body?.email !== undefined) {
+        const email = typeof body.email === 'string' ? normalizeEmail(body.email) : null;
+        if (!email) return { error: 'email is not a valid email address' };
+        input.email = email;
+    }
+
+    if (body?.consent !== undefined) {
+        if (typeof body.consent?.catalogueEmail !== 'boolean') return { error: 'consent.catalogueEmail must be true or false' };
+        input.consent = { catalogueEmail: body.consent.catalogueEmail };
+    }
+
+    if (!input.name && !input.email) return { error: 'name or email is required' };
+    // Explicit opt-in or opt-out is required before we keep an email address
+    if (input.email && !input.consent) return { error: 'consent is required with an email' };
+
+    return { input };
+};
+
+/**
+ * Lead context from the conversation: products the user named and the newest ZIP they gave.
+ */
+export const extractLeadContext = (userMessages: string[], productIndex: ProductIndex) => {
+    const products = new Set<string>();
+    for (const text of userMessages) {
+        for (const match of resolveProducts(text, productIndex)) {
+            if (match.score >= RESOLVER_CONFIDENCE_THRESHOLD) products.add(match.slug);
+        }
+    }
+    const zip = [...userMessages].reverse().map(extractZip).find(Boolean) || null;
+    return { products: Array.from(products), zip };
+};
+
+const union = (a: string[], b: string[]) => Array.from(new Set([...a, ...b]));
+
+/**
+ * Whether `sessionId` started the lead. Emails aren't verified, so only that session may change the
+ * lead or see its contact details; sessions attached later through the email may not.
+ */
+export const isLeadOwner = (lead: Lead, sessionId: string) => lead.sessionIds[0] === sessionId;
+
+/**
+ * Creates or updates the lead for this email/session instead of writing a new record per change.
+ * A session-only lead (name given before email) is folded into the email's lead once the email arrives.
+ * Emails aren't verified, so only the session that started a lead (its first session ID) may change its
+ * name, email, consent or ZIP; a session attached later through the email only fills in what is missing
+ * and adds the products it discussed.
+ */
+export const upsertLead = async (store: LeadStore, input: LeadInput, newId: () => string): Promise<Lead> => {
+    const now = new Date().toISOString();
+    const bySession = await store.findBySession(input.sessionId);
+    const byEmail = input.email && input.email !== bySession?.email ? await store.findByEmail(input.email) : null;
+
+    // Fold in the session's lead only if it has no email yet; one with a different email is another person
+    const folded = byEmail && bySession && !bySession.email ? bySession : null;
+
+    let lead: Lead = byEmail || bySession || {
+        id: newId(),
+        name: null,
+        email: null,
+        sessionIds: [input.sessionId],
+        consent: null,
+        products: [],
+        zip: null,
+        source: LEAD_SOURCE,
+        createdAt: now,
+        updatedAt: now,
+    };
+    if (folded) {
+        lead = {
+            ...lead,
+            name: lead.name || folded.name,
+            sessionIds: union(lead.sessionIds, folded.sessionIds),
+            products: union(lead.products, folded.products),
+            zip: lead.zip || folded.zip,
+            createdAt: lead.createdAt < folded.createdAt ? lead.createdAt : folded.createdAt,
+        };
+    }
+
+    const owner = isLeadOwner(lead, input.sessionId);
+    const pick = <T>(given: T | null | undefined, current: T | null): T | null =>
+        (owner ? given || current : current || given) || null;
+    const consent = input.consent
+        ? { catalogueEmail: input.consent.catalogueEmail, wording: CATALOGUE_CONSENT_WORDING, recordedAt: now }
+        : null;
+
+    const updated: Lead = {
+        ...lead,
+        name: pick(input.name, lead.name),
+        email: pick(input.email, lead.email),
+        sessionIds: union(lead.sessionIds, [input.sessionId]),
+        consent: pick(consent, lead.consent),
+        products: union(lead.products, input.products || []),
+        zip: pick(input.zip, lead.zip),
+        updatedAt: now,
+    };
+
+    await store.save(updated);
+    if (folded) await store.delete(folded.id);
+    return updated;
+};
+
+export const createMemoryLeadStore = (): LeadStore & { leads: Map<string, Lead> } => {
+    const leads = new Map<string, Lead>();
+    return {
+        leads,
+        async findByEmail(email) {
+            return Array.from(leads.values()).find((lead) => lead.email === email) || null;
+        },
+        async findBySession(sessionId) {
+            return Array.from(leads.values()).find((lead) => lead.sessionIds.includes(sessionId)) || null;
+        },
+        async save(lead) {
+            leads.set(lead.id, { ...lead });
+        },
+        async delete(id) {
+            leads.delete(id);
+        },
+    };
+};
@@ -0,0 +1,180 @@
+import type { LLMMessage, LLMProvider } from '@/lib/llm';
+import { isComparisonQuestion, resolveComparisonProducts } from '@/lib/comparison';
+import { ConversationState, formatConversationState } from '@/lib/conversationState';
+import { debugLog } from '@/lib/debugLog';
+import { isDeliveryQuestion, isZipReply } from '@/lib/delivery';
+import {
+    hasFuzzyKeyword,
+    ProductIndex,
+    ProductMatch,
+    ProductMetadata,
+    resolveProduct,
+    RESOLVER_CONFIDENCE_THRESHOLD,
+} from '@/lib/productResolver';
+
+// Step 1 of a chat turn: decide which knowledge source answers the question.
+// The local resolver and delivery checks run first; the "Master Librarian" LLM only sees what they can't settle.
+
+export type LibrarianKnowledge = {
+    // Bucket object names, newline-separated, as shown to the librarian
+    fileList: string;
+    productGuide: string;
+    // Raw use_cases.json text
+    useCases: string;
+    productMetadata: ProductMetadata;
+    productIndex: ProductIndex;
+};
+
+export type ContextSelection = {
+    // A bucket object name, one of LIBRARIAN_KEYWORDS, or COMPARE
+    selectedFile: string;
+    resolvedProduct: ProductMatch | null;
+    // The 2-4 products of a COMPARE selection, in the order the user named them
+    comparedProducts?: ProductMatch[];
+    source: 'delivery' | 'resolver' | 'state' | 'librarian';
+};
+
+export const LIBRARIAN_KEYWORDS = ['USECARE', 'GUIDE', 'DELIVERY', 'CLARIFY', 'NONE', 'GENERAL'];
+
+// Delivery questions that also name a product still go to the librarian so it can return DELIVERY
+const DELIVERY_KEYWORDS = ['deliver', 'delivery', 'shipping', 'ship', 'order', 'zip'];
+
+// "Is it safe on aluminum?" refers to the product already under discussion
+const PRONOUN_PATTERN = /\b(?:it|its|it's|this|that|they|them|these|those)\b/i;
+
+// Safety Catch-all for Category Searches (Fuzzy Support)
+const CATEGORY_KEYWORDS = ['wash', 'cleaner', 'clner', 'wassh', 'soap', 'detergent', 'degreas', 'acid', 'caustic', 'sanitiz', 'disinfect', 'mop', 'wax', 'polish', 'dish', 'stain', 'remove', 'solution', 'floor', 'gym'];
+
+export const isLikelySearch = (message: string) => {
+    const qLower = message.toLowerCase();
+    return CATEGORY_KEYWORDS.some(k => qLower.includes(k));
+};
+
+export const buildSelectionPrompt = (message: string, history: LLMMessage[], knowledge: LibrarianKnowledge, state?: ConversationState) => {
+    const recentHistory = history.slice(-6).map((h) => `${h.role}: ${h.content}`).join('\n');
+    const premiumKeys = Object.keys(knowledge.productMetadata).join(', ');
+    const conversationState = state ? formatConversationState(state) : '';
+
+    return `
+      You are the "Master Librarian" for United Formulas.
+      Your job is to pick the BEST file or knowledge source to answer the user's question.
+
+      CONVERSATION STATE (covers turns older than the recent context):
+      ${conversationState || 'Nothing recorded yet.'}
+
+      RECENT CONTEXT:
+      ${recentHistory}
+
+      USER QUESTION: "${message}"
+
+      PREMIUM PRODUCTS (Use these names if mentioned):
+      ${premiumKeys}
+
+      PRODUCT GUIDE (MAPPING names to technical files):
+      ${knowledge.productGuide}
+
+      DIRECT USE-CASE SOLUTIONS:
+      ${knowledge.useCases}
+
+      AVAILABLE FILES:
+      ${knowledge.fileList}
+
+      SELECTION RULES:
+      1. DELIVERY/ORDERING: If the user asks about delivery, ordering, shipping, or receiving more of a product (even if misspelled like "delever"), RETURN "DELIVERY".
+      2. USE-CASE MATCH: If the user describes a problem (e.g. "wine stains", "grease"), check DIRECT USE-CASE SOLUTIONS. If a match is found, RETURN "USECARE".
+      3. SEARCH & TYPOS: If the user is searching for a category, chemical, or use-case, RETURN "GUIDE".
+      4. DIRECT MATCH: If a product name is mentioned (e.g. "Nugget Car Wash", "Ace", "Delta Green"), pick its grounding file.
+      5. PRONOUNS: Resolve "it", "this", "that" to the previous context, or to the Current product in the CONVERSATION STATE.
+      6. CLARIFY: Only return "CLARIFY" if they ask a technical/safety question ("Is it toxic?") but no product name has been mentioned yet.
+      7. RETURN ONLY THE FILENAME or "USECARE" or "GUIDE" or "DELIVERY" or "CLARIFY" or "NONE" or "GENERAL".
+
+      CRITICAL: If the user is asking for a recommendation (e.g. "what do you recommend for...", "I need a good...", "how do I clean..."), ALWAYS RETURN "GUIDE". Do NOT return "CLARIFY" for recommendation or general help requests.
+    `;
+};
+
+/**
+ * Turns the librarian's raw reply into a keyword or a real file name.
+ * Chatty or unknown replies fall back to GUIDE for category searches, otherwise NONE.
+ */
+export const cleanLibrarianSelection = (raw: string, message: string, fileList: string) => {
+    let selectedFile = raw.trim();
+    const likelySearch = isLikelySearch(message);
+
+    // If Gemini didn't pick something specific but it's a general keyword search, fallback to GUIDE
+    if (likelySearch && !['USECARE', 'DELIVERY', 'CLARIFY'].includes(selectedFile.toUpperCase())) {
+        debugLog("Category keyword detected and no specific match, focusing on GUIDE.");
+        selectedFile = "GUIDE";
+    }
+
+    // Robust cleanup: find the FIRST occurrence of a valid keyword
+    const upperSelected = selectedFile.toUpperCase();
+    for (const kw of LIBRARIAN_KEYWORDS) {
+        if (upperSelected.includes(kw)) {
+            selectedFile = kw;
+            break;
+        }
+    }
+
+    // Final fallback cleanup for filenames (remove markdown/quotes)
+    selectedFile = selectedFile.replace(/```(?:\w+)?/g, '').replace(/['"`]/g, '').split('\n')[0].trim();
+
+    // Final validation: Is it a keyword or a real file?
+    const isKnownKeyword = LIBRARIAN_KEYWORDS.includes(selectedFile);
+    const isRealFile = fileList.includes(selectedFile);
+
+    if (!isKnownKeyword && !isRealFile) {
+        // If it's a long sentence, it's definitely not a match
+        if (selectedFile.length > 100 || selectedFile.includes(' ')) {
+            debugLog(`Gemini was too chatty or missed: "${selectedFile}". Falling back to NONE.`);
+            selectedFile = likelySearch ? "GUIDE" : "NONE";
+        }
+    }
+
+    return selectedFile;
+};
+
+/**
+ * Deterministic resolution first: only falls back to the librarian LLM when confidence is low.
+ * A pronoun question with a product already in the conversation state goes straight to that product.
+ */
+export const selectContext = async (
+    message: string,
+    history: LLMMessage[],
+    knowledge: LibrarianKnowledge,
+    llm: LLMProvider,
+    state?: ConversationState
+): Promise<ContextSelection> => {
+    if (isDeliveryQuestion(message) || isZipReply(message)) {
+        return { selectedFile: 'DELIVERY', resolvedProduct: null, source: 'delivery' };
+    }
+
+    const mentionsDelivery = hasFuzzyKeyword(message, DELIVERY_KEYWORDS);
+    if (isComparisonQuestion(message) && !mentionsDelivery) {
+        const comparedProducts = resolveComparisonProducts(message, knowledge.productIndex);
+        if (comparedProducts) {
+            debugLog(`Comparison of ${comparedProducts.map((p) => p.slug).join(', ')}.`);
+            return { selectedFile: 'COMPARE', resolvedProduct: null, comparedProducts, source: 'resolver' };
+        }
+    }
+
+    const productMatch = resolveProduct(message, knowledge.productIndex);
+    if (productMatch && productMatch.score >= RESOLVER_CONFIDENCE_THRESHOLD && productMatch.files.length > 0 && !mentionsDelivery) {
+        debugLog(`Resolver matched ${productMatch.slug} via "${productMatch.matchedAlias}" (score ${productMatch.score}).`);
+        return { selectedFile: productMatch.files[0], resolvedProduct: productMatch, source: 'resolver' };
+    }
+
+    if (state?.product && PRONOUN_PATTERN.test(message) && !mentionsDelivery && !isLikelySearch(message)) {
+        const stateMatch = resolveProduct(state.product.slug, knowledge.productIndex);
+        if (stateMatch && stateMatch.slug === state.product.slug && stateMatch.files.length > 0) {
+            debugLog(`Pronoun resolved to ${stateMatch.slug} from conversation state.`);
+            return { selectedFile: stateMatch.files[0], resolvedProduct: stateMatch, source: 'state' };
+        }
+    }
+
+    const raw = await llm.generate(buildSelectionPrompt(message, history, knowledge, state));
+    return {
+        selectedFile: cleanLibrarianSelection(raw, message, knowledge.fileList),
+        resolvedProduct: null,
+        source: 'librarian',
+    };
+};
@@ -0,0 +1,28 @@
+// Provider failures the chat API reports with their own codes, so a quota or a slow upstream
+// isn't answered as a server bug. Both SDK errors (Gemini's `status`) and fetch errors (an
+// undici `cause.code`) are recognised; anything else stays an internal error.
+
+export type LLMErrorCode = 'RATE_LIMITED' | 'UPSTREAM_TIMEOUT';
+
+const TIMEOUT_STATUSES = new Set([408, 504]);
+const TIMEOUT_NAMES = new Set(['AbortError', 'TimeoutError', 'GoogleGenerativeAIAbortError']);
+const TIMEOUT_CODES = new Set(['ETIMEDOUT', 'ESOCKETTIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT']);
+
+/**
+ * RATE_LIMITED for a 429 or an exhausted quota, UPSTREAM_TIMEOUT for an aborted or timed-out
+ * request, otherwise null. Follows `cause`, where fetch puts the network error.
+ */
+export const classifyLLMError = (err: unknown): LLMErrorCode | null => {
+    if (!(err instanceof Error)) return null;
+    const { status, code } = err as Error & { status?: unknown; code?: unknown };
+    if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED|rate limit/i.test(err.message)) return 'RATE_LIMITED';
+    if (
+        (typeof status === 'number' && TIMEOUT_STATUSES.has(status))
+        || TIMEOUT_NAMES.has(err.name)
+        || (typeof code === 'string' && TIMEOUT_CODES.has(code))
+        || /DEADLINE_EXCEEDED|timed out/i.test(err.message)
+    ) {
+        return 'UPSTREAM_TIMEOUT';
+    }
+    return classifyLLMError(err.cause);
+};
@@ -0,0 +1,76 @@
+import {
+    EnhancedGenerateContentResponse,
+    FunctionDeclaration,
+    FunctionResponsePart,
+    GoogleGenerativeAI,
+} from '@google/generative-ai';
+import type { LLMChatOptions, LLMProvider, LLMReply, LLMTurnInput } from '@/lib/llm/types';
+
+const toParts = (input: LLMTurnInput): string | FunctionResponsePart[] =>
+    typeof input === 'string'
+        ? input
+        : input.map((result) => ({ functionResponse: { name: result.name, response: result.response } }));
+
+const toReply = (response: EnhancedGenerateContentResponse): LLMReply => ({
+    text: response.text(),
+    toolCalls: (response.functionCalls() || []).map((call) => ({ name: call.name, args: (call.args || {}) as Record<string, any> })),
+});
+
+export const createGeminiProvider = (apiKey: string, model = 'gemini-2.0-flash'): LLMProvider => {
+    const genAI = new GoogleGenerativeAI(apiKey);
+
+    return {
+        name: 'gemini',
+        model,
+
+        async generate(prompt) {
+            const result = await genAI.getGenerativeModel({ model }).generateContent(prompt);
+            return result.response.text();
+        },
+
+        chat(options: LLMChatOptions) {
+            const chatModel = genAI.getGenerativeModel({
+                model,
+                systemInstruction: options.systemInstruction,
+                // Our JSON schema uses the same lowercase type names as Gemini's SchemaType
+                tools: options.tools?.length
+                    ? [{ functionDeclarations: options.tools as unknown as FunctionDeclaration[] }]
+                    : undefined,
+            });
+
+            const history = (options.history || []).map((msg) => ({
+                role: msg.role,
+                parts: [{ text: msg.content }],
+            }));
+
+            // Gemini rejects a history that starts with a model turn
+            while (history.length > 0 && history[0].role === 'model') {
+                history.shift();
+            }
+
+            const chat = chatModel.startChat({ history });
+
+            return {
+                async send(input) {
+                    const result = await chat.sendMessage(toParts(input));
+                    return toReply(result.response);
+                },
+
+                stream(input) {
+                    const pending = chat.sendMessageStream(toParts(input));
+                    const stream = (async function* () {
+                        const result = await pending;
+                        for await (const chunk of result.stream) {
+                            const text = chunk.text();
+                            if (text) yield text;
+                        }
+                    })();
+                    const response = pending.then(async (result) => toReply(await result.response));
+                    // Failures surface through `stream`; don't also report them as unhandled
+                    response.catch(() => {});
+                    return { stream, response };
+                },
+            };
+        },
+    };
+};
@@ -0,0 +1,96 @@
+import { createGeminiProvider } from '@/lib/llm/gemini';
+import { createMockProvider, MockScript } from '@/lib/llm/mock';
+import { createOpenAICompatibleProvider } from '@/lib/llm/openaiCompatible';
+import type { LLMProvider } from '@/lib/llm/types';
+
+const fs = require('fs');
+
+export * from '@/lib/llm/types';
+export { classifyLLMError } from '@/lib/llm/errors';
+export type { LLMErrorCode } from '@/lib/llm/errors';
+export { createGeminiProvider } from '@/lib/llm/gemini';
+export { createMockProvider } from '@/lib/llm/mock';
+export type { MockProvider, MockReply, MockRequest, MockRule, MockScript } from '@/lib/llm/mock';
+export { createOpenAICompatibleProvider } from '@/lib/llm/openaiCompatible';
+
+export type LLMProviderName = 'gemini' | 'openai' | 'mock';
+
+export type LLMConfig = {
+    provider: LLMProviderName;
+    model: string;
+    apiKey?: string;
+    baseUrl?: string;
+    // JSON file of mock rules (`{ rules, fallback }`) for the mock provider
+    mockScriptPath?: string;
+};
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+    gemini: 'gemini-2.0-flash',
+    openai: 'llama3.1',
+    mock: 'mock',
+};
+
+// Ollama's OpenAI-compatible endpoint
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Reads `LLM_PROVIDER` (gemini | openai | mock, default gemini) and `LLM_MODEL`.
+ * Gemini uses `GOOGLE_GENERATIVE_AI_API_KEY`; the OpenAI-compatible backend uses `LLM_BASE_URL` and `LLM_API_KEY`.
+ */
+export const getLLMConfig = (env: Record<string, string | undefined> = process.env): LLMConfig => {
+    const requested = (env.LLM_PROVIDER || 'gemini').toLowerCase();
+    const provider: LLMProviderName = requested in DEFAULT_MODELS ? (requested as LLMProviderName) : 'gemini';
+    if (provider !== requested) {
+        console.warn(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}", using gemini.`);
+    }
+
+    return {
+        provider,
+        model: env.LLM_MODEL || DEFAULT_MODELS[provider],
+        apiKey: provider === 'gemini' ? env.GOOGLE_GENERATIVE_AI_API_KEY : env.LLM_API_KEY,
+        baseUrl: provider === 'openai' ? env.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL : undefined,
+        mockScriptPath: provider === 'mock' ? env.LLM_MOCK_SCRIPT : undefined,
+    };
+};
+
+const loadMockScript = (scriptPath?: string): MockScript => {
+    if (!scriptPath) return {};
+    try {
+        return JSON.parse(fs.readFileSync(scriptPath, 'utf-8'));
+    } catch (err) {
+        console.error(`Failed to load mock LLM script ${scriptPath}:`, err);
+        return {};
+    }
+};
+
+/**
+ * Builds the provider for `config`, or returns null when it is missing required settings (e.g. no Gemini API key).
+ */
+export const createLLMProvider = (config: LLMConfig): LLMProvider | null => {
+    switch (config.provider) {
+        case 'gemini':
+            return config.apiKey ? createGeminiProvider(config.apiKey, config.model) : null;
+        case 'openai':
+            return createOpenAICompatibleProvider({
+                baseUrl: config.baseUrl || DEFAULT_OPENAI_BASE_URL,
+                model: config.model,
+                apiKey: config.apiKey,
+            });
+        case 'mock':
+            return createMockProvider(loadMockScript(config.mockScriptPath), config.model);
+    }
+};
+
+let defaultProvider: LLMProvider | null | undefined;
+
+/**
+ * The provider configured from env, created once per server instance.
+ */
+export const getLLMProvider = (): LLMProvider | null => {
+    if (defaultProvider === undefined) {
+        const config = getLLMConfig();
+        defaultProvider = createLLMProvider(config);
+        if (defaultProvider) console.log(`LLM provider: ${config.provider} (${config.model})`);
+    }
+    return defaultProvider;
+};
@@ -0,0 +1,113 @@
+import type {
+    LLMChatOptions,
+    LLMMessage,
+    LLMProvider,
+    LLMReply,
+    LLMToolResult,
+    LLMTurnInput,
+} from '@/lib/llm/types';
+
+// Deterministic scripted backend: no network, same reply for the same input every time.
+// Used by offline tests/evals and by `LLM_PROVIDER=mock` for local development without an API key.
+
+export type MockRequest = {
+    kind: 'generate' | 'chat';
+    // The prompt, the user message, or the JSON of the tool results being returned
+    text: string;
+    systemInstruction?: string;
+    history: LLMMessage[];
+    toolResults?: LLMToolResult[];
+};
+
+export type MockReply = string | { text?: string; toolCalls?: { name: string; args?: Record<string, any> }[] };
+
+export type MockRule = {
+    kind?: 'generate' | 'chat';
+    // Case-insensitive substring or regex tested against `request.text`; omitted matches everything
+    match?: string | RegExp;
+    reply: MockReply | ((request: MockRequest) => MockReply);
+};
+
+export type MockScript = {
+    rules?: MockRule[];
+    // Reply when no rule matches
+    fallback?: MockReply;
+};
+
+export type MockProvider = LLMProvider & {
+    // Every request received, in order, for assertions
+    calls: MockRequest[];
+};
+
+const matches = (rule: MockRule, request: MockRequest) => {
+    if (rule.kind && rule.kind !== request.kind) return false;
+    if (rule.match === undefined) return true;
+    return typeof rule.match === 'string'
+        ? request.text.toLowerCase().includes(rule.match.toLowerCase())
+        : rule.match.test(request.text);
+};
+
+const toReply = (reply: MockReply): LLMReply =>
+    typeof reply === 'string'
+        ? { text: reply, toolCalls: [] }
+        : {
+            text: reply.text || '',
+            toolCalls: (reply.toolCalls || []).map((call, i) => ({ id: `mock_call_${i}`, name: call.name, args: call.args || {} })),
+        };
+
+// Word-sized chunks so streaming consumers see more than one chunk
+const chunkText = (text: string) => text.match(/\S+\s*|\s+/g) || [];
+
+export const createMockProvider = (script: MockScript = {}, model = 'mock'): MockProvider => {
+    const calls: MockRequest[] = [];
+
+    const respond = (request: MockRequest): LLMReply => {
+        calls.push(request);
+        const rule = (script.rules || []).find((candidate) => matches(candidate, request));
+        const reply = rule
+            ? (typeof rule.reply === 'function' ? rule.reply(request) : rule.reply)
+            : script.fallback ?? '';
+        return toReply(reply);
+    };
+
+    return {
+        name: 'mock',
+        model,
+        calls,
+
+        async generate(prompt) {
+            return respond({ kind: 'generate', text: prompt, history: [] }).text;
+        },
+
+        chat(options: LLMChatOptions) {
+            const history: LLMMessage[] = [...(options.history || [])];
+
+            const send = (input: LLMTurnInput) => {
+                const reply = respond({
+                    kind: 'chat',
+                    text: typeof input === 'string' ? input : JSON.stringify(input),
+                    systemInstruction: options.systemInstruction,
+                    history: [...history],
+                    toolResults: typeof input === 'string' ? undefined : input,
+                });
+                if (typeof input === 'string') history.push({ role: 'user', content: input });
+                if (reply.text) history.push({ role: 'model', content: reply.text });
+                return reply;
+            };
+
+            return {
+                async send(input) {
+                    return send(input);
+                },
+
+                stream(input) {
+                    const reply = send(input);
+                    const stream = (async function* () {
+                        for (const chunk of chunkText(reply.text)) yield chunk;
+                    })();
+                    return { stream, response: Promise.resolve(reply) };
+                },
+            };
+        },
+    };
+};
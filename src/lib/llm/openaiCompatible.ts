@@ -0,0 +1,184 @@
+import type { LLMChatOptions, LLMProvider, LLMReply, LLMToolCall, LLMTurnInput } from '@/lib/llm/types';
+
+// Any server that speaks the OpenAI chat completions API: Ollama, llama.cpp's server, vLLM, LM Studio, OpenAI itself.
+
+type OpenAIMessage =
+    | { role: 'system' | 'user'; content: string }
+    | { role: 'assistant'; content: string | null; tool_calls?: any[] }
+    | { role: 'tool'; tool_call_id: string; content: string };
+
+export type OpenAICompatibleConfig = {
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+};
+
+const parseArgs = (raw: string) => {
+    try {
+        return raw ? JSON.parse(raw) : {};
+    } catch {
+        console.warn(`Unparseable tool arguments from model: ${raw}`);
+        return {};
+    }
+};
+
+const toAssistantMessage = (reply: LLMReply): OpenAIMessage => ({
+    role: 'assistant',
+    content: reply.text || null,
+    tool_calls: reply.toolCalls.length
+        ? reply.toolCalls.map((call) => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.args) },
+        }))
+        : undefined,
+});
+
+// Some local servers omit call ids; results still need one to pair with
+const withIds = (calls: LLMToolCall[]) => calls.map((call, i) => ({ ...call, id: call.id || `call_${Date.now()}_${i}` }));
+
+/**
+ * Yields the `data:` payloads of a server-sent events body, stopping at `[DONE]`.
+ */
+async function* readEvents(body: ReadableStream<Uint8Array>) {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            const data = line.trim().replace(/^data:\s*/, '');
+            if (!line.trim().startsWith('data:') || !data) continue;
+            if (data === '[DONE]') return;
+            yield JSON.parse(data);
+        }
+    }
+}
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): LLMProvider => {
+    const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+    const post = async (body: object) => {
+        const res = await fetch(endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+            },
+            body: JSON.stringify({ model: config.model, ...body }),
+        });
+        if (!res.ok) {
+            // The status is kept on the error so the route can tell a 429 or 504 from a failure
+            throw Object.assign(new Error(`LLM request failed (${res.status}): ${(await res.text()).slice(0, 500)}`), { status: res.status });
+        }
+        return res;
+    };
+
+    return {
+        name: 'openai',
+        model: config.model,
+
+        async generate(prompt) {
+            const res = await post({ messages: [{ role: 'user', content: prompt }] });
+            const data = await res.json();
+            return data.choices?.[0]?.message?.content || '';
+        },
+
+        chat(options: LLMChatOptions) {
+            const messages: OpenAIMessage[] = [
+                ...(options.systemInstruction ? [{ role: 'system' as const, content: options.systemInstruction }] : []),
+                ...(options.history || []).map((msg): OpenAIMessage =>
+                    msg.role === 'user'
+                        ? { role: 'user', content: msg.content }
+                        : { role: 'assistant', content: msg.content }
+                ),
+            ];
+            const tools = options.tools?.length
+                ? options.tools.map((tool) => ({ type: 'function', function: tool }))
+                : undefined;
+
+            const append = (input: LLMTurnInput) => {
+                if (typeof input === 'string') {
+                    messages.push({ role: 'user', content: input });
+                } else {
+                    for (const result of input) {
+                        messages.push({ role: 'tool', tool_call_id: result.id || result.name, content: JSON.stringify(result.response) });
+                    }
+                }
+            };
+
+            return {
+                async send(input) {
+                    append(input);
+                    const res = await post({ messages, tools });
+                    const message = (await res.json()).choices?.[0]?.message || {};
+                    const reply: LLMReply = {
+                        text: message.content || '',
+                        toolCalls: withIds((message.tool_calls || []).map((call: any) => ({
+                            id: call.id,
+                            name: call.function?.name,
+                            args: parseArgs(call.function?.arguments || ''),
+                        }))),
+                    };
+                    messages.push(toAssistantMessage(reply));
+                    return reply;
+                },
+
+                stream(input) {
+                    append(input);
+                    let resolveReply: (reply: LLMReply) => void = () => {};
+                    let rejectReply: (err: unknown) => void = () => {};
+                    const response = new Promise<LLMReply>((resolve, reject) => {
+                        resolveReply = resolve;
+                        rejectReply = reject;
+                    });
+                    // Failures surface through `stream`; don't also report them as unhandled
+                    response.catch(() => {});
+
+                    const stream = (async function* () {
+                        try {
+                            const res = await post({ messages, tools, stream: true });
+                            let text = '';
+                            // Tool call arguments arrive in fragments, keyed by index
+                            const partialCalls: { id?: string; name: string; arguments: string }[] = [];
+
+                            for await (const event of readEvents(res.body as ReadableStream<Uint8Array>)) {
+                                const delta = event.choices?.[0]?.delta || {};
+                                if (delta.content) {
+                                    text += delta.content;
+                                    yield delta.content as string;
+                                }
+                                for (const fragment of delta.tool_calls || []) {
+                                    const call = partialCalls[fragment.index ?? 0] ||= { name: '', arguments: '' };
+                                    if (fragment.id) call.id = fragment.id;
+                                    if (fragment.function?.name) call.name += fragment.function.name;
+                                    if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+                                }
+                            }
+
+                            const reply: LLMReply = {
+                                text,
+                                toolCalls: withIds(partialCalls.filter(Boolean).map((call) => ({
+                                    id: call.id,
+                                    name: call.name,
+                                    args: parseArgs(call.arguments),
+                                }))),
+                            };
+                            messages.push(toAssistantMessage(reply));
+                            resolveReply(reply);
+                        } catch (err) {
+                            rejectReply(err);
+                            throw err;
+                        }
+                    })();
+
+                    return { stream, response };
+                },
+            };
+        },
+    };
+};
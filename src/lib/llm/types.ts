@@ -0,0 +1,73 @@
+// Provider-neutral shapes shared by every LLM backend (Gemini, OpenAI-compatible, mock).
+
+export type LLMRole = 'user' | 'model';
+
+export type LLMMessage = {
+    role: LLMRole;
+    content: string;
+};
+
+// Plain JSON Schema subset understood by both Gemini and OpenAI-style function calling
+export type LLMJsonSchema = {
+    type: 'object' | 'string' | 'integer' | 'number' | 'boolean' | 'array';
+    description?: string;
+    properties?: Record<string, LLMJsonSchema>;
+    items?: LLMJsonSchema;
+    enum?: string[];
+    required?: string[];
+};
+
+export type LLMToolDeclaration = {
+    name: string;
+    description: string;
+    parameters: LLMJsonSchema;
+};
+
+export type LLMToolCall = {
+    // OpenAI-style backends pair results with calls by id; Gemini pairs them by name
+    id?: string;
+    name: string;
+    args: Record<string, any>;
+};
+
+export type LLMToolResult = {
+    id?: string;
+    name: string;
+    response: object;
+};
+
+// What the model said in one round: answer text, tool calls, or both
+export type LLMReply = {
+    text: string;
+    toolCalls: LLMToolCall[];
+};
+
+export type LLMStreamReply = {
+    // Answer text as it arrives
+    stream: AsyncIterable<string>;
+    // Resolves once the stream has been consumed
+    response: Promise<LLMReply>;
+};
+
+export type LLMChatOptions = {
+    systemInstruction?: string;
+    history?: LLMMessage[];
+    tools?: LLMToolDeclaration[];
+};
+
+// A user message, or the results of the tool calls from the previous round
+export type LLMTurnInput = string | LLMToolResult[];
+
+export interface LLMChatSession {
+    send(input: LLMTurnInput): Promise<LLMReply>;
+    stream(input: LLMTurnInput): LLMStreamReply;
+}
+
+export interface LLMProvider {
+    readonly name: string;
+    readonly model: string;
+    // Single-shot completion (used by the librarian)
+    generate(prompt: string): Promise<string>;
+    // Multi-turn session; it keeps its own history, including tool rounds
+    chat(options: LLMChatOptions): LLMChatSession;
+}
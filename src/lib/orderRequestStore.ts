@@ -0,0 +1,30 @@
+import { getFirestore } from '@/lib/firestore';
+import { createMemoryOrderRequestStore, OrderRequest, OrderRequestStore } from '@/lib/orderRequests';
+
+const ORDER_REQUESTS_COLLECTION = 'orderRequests';
+
+export const createFirestoreOrderRequestStore = (): OrderRequestStore => {
+    const requests = () => getFirestore().collection(ORDER_REQUESTS_COLLECTION);
+    return {
+        async save(request) {
+            await requests().doc(request.id).set(request);
+        },
+        async get(id) {
+            const snapshot = await requests().doc(id).get();
+            return snapshot.exists ? (snapshot.data() as OrderRequest) : null;
+        },
+    };
+};
+
+const globalStore = globalThis as typeof globalThis & { orderRequestStore?: OrderRequestStore };
+
+/**
+ * Order request store selected by ORDER_REQUEST_STORE: `memory` (default in development) or `firestore` (default in production).
+ */
+export const getOrderRequestStore = () => {
+    if (!globalStore.orderRequestStore) {
+        const kind = process.env.ORDER_REQUEST_STORE || (process.env.NODE_ENV === 'production' ? 'firestore' : 'memory');
+        globalStore.orderRequestStore = kind === 'firestore' ? createFirestoreOrderRequestStore() : createMemoryOrderRequestStore();
+    }
+    return globalStore.orderRequestStore;
+};
@@ -0,0 +1,309 @@
+import { DeliveryLookup, DeliveryZone, lookupZip } from '@/lib/delivery';
+import { normalizeEmail, normalizeName } from '@/lib/leads';
+import { getPackSizes, PackSize, parsePackSize } from '@/lib/packSizes';
+import { isValidSessionId } from '@/lib/sessions';
+import type { ProductIndex, ProductMetadata } from '@/lib/productResolver';
+
+// Quote / order requests built in the chat: the assistant drafts a cart (product, pack size, quantity,
+// delivery ZIP, contact), the customer edits and submits it from the widget, and sales gets a
+// notification with everything needed to quote. Nothing is ordered until sales confirms.
+
+export type OrderContact = {
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+    company: string | null;
+};
+
+export type OrderLine = {
+    slug: string;
+    product: string;
+    // Pack variant slug from packSizes.ts; null until the customer picks a size (or the product has none)
+    sku: string | null;
+    // "4 x 1 gal"
+    pack: string | null;
+    // Number of packs (cases, pails, bags)
+    quantity: number;
+};
+
+// A draft line also carries the product's packs, for the card's size picker
+export type OrderDraftLine = OrderLine & {
+    packs: { sku: string; label: string }[];
+};
+
+export type OrderDraft = {
+    lines: OrderDraftLine[];
+    zip: string | null;
+    delivery: DeliveryLookup;
+    contact: OrderContact;
+    // Fields the customer still has to fill in before the request can be sent
+    missing: string[];
+    // Requested items that matched no catalog product
+    unmatched: string[];
+};
+
+// What sales receives; stored with the request so a mailer (or a person) can act on it
+export type SalesNotification = {
+    to: string[];
+    replyTo: string | null;
+    subject: string;
+    text: string;
+};
+
+export type OrderRequest = {
+    id: string;
+    sessionId: string | null;
+    leadId: string | null;
+    status: 'new';
+    lines: OrderLine[];
+    zip: string;
+    delivery: DeliveryLookup;
+    contact: OrderContact;
+    notes: string | null;
+    notification: SalesNotification;
+    createdAt: string;
+};
+
+export type OrderRequestInput = Pick<OrderRequest, 'sessionId' | 'lines' | 'zip' | 'delivery' | 'contact' | 'notes'>;
+
+export interface OrderRequestStore {
+    save(request: OrderRequest): Promise<void>;
+    get(id: string): Promise<OrderRequest | null>;
+}
+
+export const MAX_ORDER_LINES = 20;
+export const MAX_ORDER_QUANTITY = 500;
+const MAX_NOTES_LENGTH = 1000;
+const MAX_COMPANY_LENGTH = 120;
+
+export const emptyContact = (): OrderContact => ({ name: null, email: null, phone: null, company: null });
+
+/**
+ * US phone numbers in any common format -> "406-727-4144"; null for anything else.
+ */
+export const normalizePhone = (value: string) => {
+    const digits = value.replace(/\D/g, '').replace(/^1(?=\d{10}$)/, '');
+    return digits.length === 10 ? `${digits.slice(0, 3)}-${digits.slice(3, 6)}-${digits.slice(6)}` : null;
+};
+
+const packOption = (pack: PackSize) => ({ sku: pack.sku, label: pack.qualifier ? `${pack.qualifier} ${pack.label}` : pack.label });
+
+/**
+ * The pack a customer's wording names: a SKU ("bio-maxx-4x1-gal"), a size ("4x1 gallon", "5 gal pail")
+ * or just a unit when the product has a single pack in it ("quarts"). Null when ambiguous.
+ */
+export const findPack = (packs: PackSize[], size: string) => {
+    const wanted = size.trim().toLowerCase();
+    if (!wanted) return null;
+    const bySku = packs.find((pack) => pack.aliases.includes(wanted));
+    if (bySku) return bySku;
+
+    const parsed = parsePackSize(wanted.replace(/\b(?:pails?|cases?|bags?|drums?|jugs?|of)\b/g, ' ').trim());
+    if (parsed) {
+        const matches = packs.filter((pack) => pack.count === parsed.count && pack.unitSize === parsed.unitSize && pack.unit === parsed.unit);
+        return matches.length === 1 ? matches[0] : null;
+    }
+    const byUnit = packs.filter((pack) => parsePackSize(`1 ${wanted}`)?.unit === pack.unit);
+    return byUnit.length === 1 ? byUnit[0] : null;
+};
+
+const missingFields = (lines: OrderLine[], zip: string | null, contact: OrderContact) => [
+    ...(lines.length === 0 ? ['items'] : []),
+    ...(lines.some((line) => !line.sku) ? ['pack size'] : []),
+    ...(zip ? [] : ['delivery ZIP']),
+    ...(contact.email || contact.phone ? [] : ['email or phone']),
+];
+
+/**
+ * Builds the cart the widget shows from the items the assistant extracted.
+ * Products go through `resolve` (the resolver), sizes through findPack; the ZIP is checked against delivery zones.
+ */
+export const buildOrderDraft = (
+    items: { product: string; size?: string; quantity?: number }[],
+    zip: string | null,
+    contact: OrderContact,
+    ctx: {
+        productMetadata: ProductMetadata;
+        productIndex: ProductIndex;
+        deliveryZones: DeliveryZone[];
+        resolve: (product: string) => string | null;
+    }
+): OrderDraft => {
+    const lines: OrderDraftLine[] = [];
+    const unmatched: string[] = [];
+    for (const item of items.slice(0, MAX_ORDER_LINES)) {
+        const slug = ctx.resolve(item.product);
+        if (!slug) {
+            unmatched.push(item.product);
+            continue;
+        }
+        const packs = getPackSizes(slug, ctx.productMetadata, ctx.productIndex);
+        const pack = packs.length === 1 ? packs[0] : findPack(packs, item.size || '');
+        const quantity = Math.min(Math.max(Math.round(Number(item.quantity) || 1), 1), MAX_ORDER_QUANTITY);
+        lines.push({
+            slug,
+            product: ctx.productMetadata[slug]?.displayName || slug,
+            sku: pack?.sku || null,
+            pack: pack?.label || null,
+            quantity,
+            packs: packs.map(packOption),
+        });
+    }
+
+    return {
+        lines,
+        zip,
+        delivery: zip ? lookupZip(zip, ctx.deliveryZones) : { status: 'unknown' },
+        contact,
+        missing: missingFields(lines, zip, contact),
+        unmatched,
+    };
+};
+
+const parseLines = (raw: unknown, metadata: ProductMetadata): { lines: OrderLine[] } | { error: string } => {
+    if (!Array.isArray(raw) || raw.length === 0) return { error: 'lines must be a non-empty array' };
+    if (raw.length > MAX_ORDER_LINES) return { error: `lines can have at most ${MAX_ORDER_LINES} items` };
+
+    const lines: OrderLine[] = [];
+    for (const [i, line] of raw.entries()) {
+        const slug = typeof line?.slug === 'string' ? line.slug.trim() : '';
+        if (!metadata[slug]) return { error: `lines[${i}].slug is not a catalog product` };
+
+        const quantity = Number(line?.quantity);
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_ORDER_QUANTITY) {
+            return { error: `lines[${i}].quantity must be a whole number from 1 to ${MAX_ORDER_QUANTITY}` };
+        }
+
+        const packs = getPackSizes(slug, metadata);
+        const sku = typeof line?.sku === 'string' ? line.sku.trim().toLowerCase() : '';
+        const pack = sku ? packs.find((p) => p.aliases.includes(sku)) : null;
+        if (sku && !pack) return { error: `lines[${i}].sku is not a pack size of ${slug}` };
+        if (!pack && packs.length > 0) return { error: `lines[${i}].sku is required for ${slug}` };
+
+        // Any spelling of the pack is a valid SKU; the draft already picked the one the bucket files use
+        lines.push({ slug, product: metadata[slug].displayName || slug, sku: pack ? sku : null, pack: pack?.label || null, quantity });
+    }
+    return { lines };
+};
+
+// A JSON body's fields; anything that isn't an object has none
+const asRecord = (value: unknown): Record<string, unknown> =>
+    value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+const parseContact = (raw: unknown, fallback: OrderContact): { contact: OrderContact } | { error: string } => {
+    const contact = { ...fallback };
+    const fields = asRecord(raw);
+    const field = (name: keyof OrderContact, normalize: (value: string) => string | null) => {
+        const value = fields[name];
+        if (value === undefined || value === null || value === '') return null;
+        const normalized = typeof value === 'string' ? normalize(value) : null;
+        if (!normalized) return `contact.${name} is not valid`;
+        contact[name] = normalized;
+        return null;
+    };
+    const error = field('name', normalizeName)
+        || field('email', normalizeEmail)
+        || field('phone', normalizePhone)
+        || field('company', (value) => value.trim().slice(0, MAX_COMPANY_LENGTH) || null);
+    if (error) return { error };
+    if (!contact.email && !contact.phone) return { error: 'contact.email or contact.phone is required' };
+    return { contact };
+};
+
+/**
+ * Validates a POST /api/order-requests body. Contact fields missing from the body fall back to
+ * `fallbackContact` (the lead captured in the chat). Returns the normalized input or a message for `details`.
+ */
+export const parseOrderRequest = (
+    body: unknown,
+    metadata: ProductMetadata,
+    deliveryZones: DeliveryZone[],
+    fallbackContact: OrderContact = emptyContact()
+): { input: OrderRequestInput } | { error: string } => {
+    const fields = asRecord(body);
+    if (fields.sessionId !== undefined && !isValidSessionId(fields.sessionId)) return { error: 'sessionId is not a valid session ID' };
+
+    const parsedLines = parseLines(fields.lines, metadata);
+    if ('error' in parsedLines) return parsedLines;
+
+    const zip = typeof fields.zip === 'string' ? fields.zip.trim() : '';
+    if (!/^\d{5}$/.test(zip)) return { error: 'zip must be a 5-digit ZIP code' };
+
+    const parsedContact = parseContact(fields.contact, fallbackContact);
+    if ('error' in parsedContact) return parsedContact;
+
+    if (fields.notes !== undefined && typeof fields.notes !== 'string') return { error: 'notes must be a string' };
+    const notes = typeof fields.notes === 'string' ? fields.notes.trim().slice(0, MAX_NOTES_LENGTH) || null : null;
+
+    return {
+        input: {
+            sessionId: isValidSessionId(fields.sessionId) ? fields.sessionId : null,
+            lines: parsedLines.lines,
+            zip,
+            delivery: lookupZip(zip, deliveryZones),
+            contact: parsedContact.contact,
+            notes,
+        },
+    };
+};
+
+// Short reference quoted to the customer and in the sales subject line
+export const orderReference = (id: string) => id.slice(0, 8).toUpperCase();
+
+const describeLine = (line: OrderLine) => `${line.quantity} x ${line.product}${line.pack ? ` (${line.pack})` : ''}`;
+
+const describeDelivery = (delivery: DeliveryLookup, zip: string) => {
+    if (delivery.status === 'covered') return `${zip}, ${delivery.city} (${delivery.county}): ${delivery.region} route, ${delivery.window}`;
+    return `${zip}: outside the delivery area, quote shipping`;
+};
+
+/**
+ * The notification sales gets for a new request; `recipients` comes from SALES_EMAIL.
+ */
+export const buildSalesNotification = (request: Omit<OrderRequest, 'notification'>, recipients: string[]): SalesNotification => {
+    const { contact } = request;
+    const reference = orderReference(request.id);
+    return {
+        to: recipients,
+        replyTo: contact.email,
+        subject: `Quote request ${reference}: ${request.lines.map(describeLine).join(', ')} (ZIP ${request.zip})`,
+        text: [
+            `New quote request from the Ask The Chemist widget (reference ${reference}).`,
+            '',
+            'Items:',
+            ...request.lines.map((line) => `- ${describeLine(line)}${line.sku ? `, SKU ${line.sku}` : ''}`),
+            '',
+            `Delivery: ${describeDelivery(request.delivery, request.zip)}`,
+            '',
+            'Contact:',
+            `- Name: ${contact.name || 'not given'}`,
+            `- Email: ${contact.email || 'not given'}`,
+            `- Phone: ${contact.phone || 'not given'}`,
+            ...(contact.company ? [`- Company: ${contact.company}`] : []),
+            ...(request.notes ? ['', `Notes: ${request.notes}`] : []),
+            '',
+            `Chat session: ${request.sessionId || 'none'}${request.leadId ? `, lead ${request.leadId}` : ''}`,
+        ].join('\n'),
+    };
+};
+
+export const createOrderRequest = (
+    input: OrderRequestInput,
+    options: { id: string; leadId: string | null; recipients: string[] }
+): OrderRequest => {
+    const request = { ...input, id: options.id, leadId: options.leadId, status: 'new' as const, createdAt: new Date().toISOString() };
+    return { ...request, notification: buildSalesNotification(request, options.recipients) };
+};
+
+export const createMemoryOrderRequestStore = (): OrderRequestStore & { requests: Map<string, OrderRequest> } => {
+    const requests = new Map<string, OrderRequest>();
+    return {
+        requests,
+        async save(request) {
+            requests.set(request.id, { ...request });
+        },
+        async get(id) {
+            return requests.get(id) || null;
+        },
+    };
+};
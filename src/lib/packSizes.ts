@@ -0,0 +1,211 @@
+import { parseDocumentName } from '@/lib/documentVersions';
+import { normalizeProductText, ProductIndex, ProductMetadata } from '@/lib/productResolver';
+
+// Pack sizes parsed from the variant slugs in product_metadata.json, which spell them several ways
+// ("bio-maxx-4x1-gallon", "bio-maxx-4x1-gal", "brite-oeb-4x8-lbs", "genie-24x16-oz"). Spellings of one pack
+// collapse into a single entry linked to its procurement and master records, so size questions
+// ("do you have Bio-Maxx in quarts?") are answered from structured data instead of a list of slugs.
+
+export type PackUnit = 'gal' | 'qt' | 'oz' | 'lb';
+
+export type PackSize = {
+    // Variant slug, in the spelling the bucket files use when there is one
+    sku: string;
+    // Every variant slug that spells this pack
+    aliases: string[];
+    // Words between the product slug and the size ("99" in isopropyl-alcohol-99-5-gal)
+    qualifier: string | null;
+    // Containers per pack (4 in "4x1 gal"; 1 for a single pail or bag)
+    count: number;
+    unitSize: number;
+    unit: PackUnit;
+    // Whole pack in gallons (liquids; oz are fluid ounces) or pounds (powders)
+    total: number;
+    totalUnit: 'gal' | 'lb';
+    // "4 x 1 gal", "5 gal"
+    label: string;
+    procurementFile: string | null;
+    masterFile: string | null;
+};
+
+export type PackSizeQuery = {
+    units: PackUnit[];
+    // 'case' for multi-container packs, 'single' for one pail, drum or bag
+    container: 'case' | 'single' | null;
+    extreme: 'largest' | 'smallest' | null;
+};
+
+export type PackSizeCheck = {
+    slug: string;
+    product: string;
+    query: PackSizeQuery;
+    // Packs that answer the question (all packs when it names no unit, container or extreme)
+    matches: PackSize[];
+    packs: PackSize[];
+};
+
+const PACK_UNITS: PackUnit[] = ['gal', 'qt', 'oz', 'lb'];
+
+const GALLONS_PER_UNIT: Record<Exclude<PackUnit, 'lb'>, number> = { gal: 1, qt: 0.25, oz: 1 / 128 };
+
+const UNIT_WORDS: [RegExp, PackUnit][] = [
+    [/\b(?:gal|gals|gallons?)\b/i, 'gal'],
+    [/\b(?:qt|qts|quarts?)\b/i, 'qt'],
+    [/\b(?:oz|ounces?)\b/i, 'oz'],
+    [/\b(?:lb|lbs|pounds?)\b/i, 'lb'],
+];
+
+// Size words make a pack question on their own; stock words only together with a unit ("have it in quarts?")
+const SIZE_PATTERN = /\b(?:sizes?|pack(?:s|aged|age|ed)?|pails?|cases?|jugs?|drums?|bags?|containers?|biggest|largest|smallest|bulk)\b/i;
+const STOCK_PATTERN = /\b(?:have|has|carry|sell|stock|offer|comes?\s+in|available)\b/i;
+// "How many gallons does a 5 gallon pail make at 1:64?" is for the dilution calculator
+const DILUTION_PATTERN = /\b(?:dilut\w*|makes?|ratio|per\s+gallon|use[- ]solution|mop)\b|\b1\s*:\s*\d+/i;
+const LARGEST_PATTERN = /\b(?:biggest|largest|bulk)\b/i;
+const SMALLEST_PATTERN = /\b(?:smallest|littlest|least)\b/i;
+const CASE_PATTERN = /\b(?:cases?|jugs?|bottles?)\b/i;
+const SINGLE_PATTERN = /\b(?:pails?|drums?|bags?|buckets?)\b/i;
+
+const isNumber = (token: string | undefined) => token !== undefined && /^\d+$/.test(token);
+
+const formatAmount = (value: number) => Number(value.toFixed(2)).toString();
+
+/**
+ * Parses a variant slug's trailing size ("-4x1-gallon", "-25-lb", "-5gal") into count x unit size.
+ * Returns null for variants that are product lines rather than pack sizes ("bio-maxx-pf").
+ */
+export const parsePackSize = (variant: string, productSlug = '') => {
+    const tokens = normalizeProductText(variant);
+    const unit = tokens[tokens.length - 1] as PackUnit;
+    if (!PACK_UNITS.includes(unit) || !isNumber(tokens[tokens.length - 2])) return null;
+
+    const unitSize = Number(tokens[tokens.length - 2]);
+    const multiplied = tokens[tokens.length - 3] === 'x' && isNumber(tokens[tokens.length - 4]);
+    const count = multiplied ? Number(tokens[tokens.length - 4]) : 1;
+    if (unitSize <= 0 || count <= 0) return null;
+
+    const productTokens = normalizeProductText(productSlug);
+    let rest = tokens.slice(0, tokens.length - (multiplied ? 4 : 2));
+    if (productTokens.length > 0 && productTokens.every((token, i) => rest[i] === token)) rest = rest.slice(productTokens.length);
+
+    const total = unit === 'lb' ? count * unitSize : count * unitSize * GALLONS_PER_UNIT[unit];
+    return {
+        qualifier: rest.length > 0 ? rest.join(' ') : null,
+        count,
+        unitSize,
+        unit,
+        total: Number(total.toFixed(3)),
+        totalUnit: unit === 'lb' ? 'lb' as const : 'gal' as const,
+        label: count > 1 ? `${count} x ${unitSize} ${unit}` : `${unitSize} ${unit}`,
+    };
+};
+
+/**
+ * The product's pack sizes, one entry per distinct pack, smallest first.
+ * With the resolver index, each pack is linked to its own procurement and master records.
+ */
+export const getPackSizes = (slug: string, metadata: ProductMetadata, index?: ProductIndex): PackSize[] => {
+    const packs = new Map<string, PackSize>();
+    for (const variant of metadata[slug]?.variants || []) {
+        const parsed = parsePackSize(variant, slug);
+        if (!parsed) continue;
+        const key = `${parsed.qualifier}|${parsed.count}|${parsed.unitSize}|${parsed.unit}`;
+        const files = index?.filesBySlug.get(variant) || [];
+        const fileOf = (family: string) => files.find((name) => parseDocumentName(name)?.family === family) || null;
+
+        const existing = packs.get(key);
+        if (!existing) {
+            packs.set(key, { sku: variant, aliases: [variant], ...parsed, procurementFile: fileOf('sku_procurement'), masterFile: fileOf('sku_master') });
+            continue;
+        }
+        existing.aliases.push(variant);
+        existing.procurementFile ||= fileOf('sku_procurement');
+        existing.masterFile ||= fileOf('sku_master');
+    }
+    // The spelling the bucket files use is the one to quote
+    for (const pack of packs.values()) {
+        const fileSlug = parseDocumentName(pack.procurementFile || pack.masterFile || '')?.slug;
+        if (fileSlug && pack.aliases.includes(fileSlug)) pack.sku = fileSlug;
+    }
+    return [...packs.values()].sort((a, b) =>
+        (a.qualifier || '').localeCompare(b.qualifier || '') || a.totalUnit.localeCompare(b.totalUnit) || a.total - b.total || b.count - a.count
+    );
+};
+
+export const describePackSize = (pack: PackSize) => {
+    const total = pack.count > 1 || pack.unit !== pack.totalUnit ? ` (${formatAmount(pack.total)} ${pack.totalUnit} total)` : '';
+    return `${pack.qualifier ? `${pack.qualifier}: ` : ''}${pack.label}${total}`;
+};
+
+export const formatPackSizeList = (packs: PackSize[]) =>
+    packs.length > 0 ? packs.map(describePackSize).join(', ') : '';
+
+/**
+ * What a pack-size question asks for, or null when the message isn't about pack sizes.
+ */
+export const parsePackSizeQuery = (message: string): PackSizeQuery | null => {
+    if (DILUTION_PATTERN.test(message)) return null;
+    const units = UNIT_WORDS.filter(([pattern]) => pattern.test(message)).map(([, unit]) => unit);
+    if (!SIZE_PATTERN.test(message) && !(STOCK_PATTERN.test(message) && units.length > 0)) return null;
+    return {
+        units,
+        container: CASE_PATTERN.test(message) ? 'case' : SINGLE_PATTERN.test(message) ? 'single' : null,
+        extreme: LARGEST_PATTERN.test(message) ? 'largest' : SMALLEST_PATTERN.test(message) ? 'smallest' : null,
+    };
+};
+
+export const matchPackSizes = (packs: PackSize[], query: PackSizeQuery) => {
+    let matches = packs
+        .filter((pack) => query.units.length === 0 || query.units.includes(pack.unit))
+        .filter((pack) => !query.container || (query.container === 'case' ? pack.count > 1 : pack.count === 1));
+    if (query.extreme && matches.length > 0) {
+        // Gallons and pounds don't compare, so the extreme is taken within the more common measure
+        const liquids = matches.filter((pack) => pack.totalUnit === 'gal');
+        const pool = liquids.length * 2 >= matches.length ? liquids : matches.filter((pack) => pack.totalUnit === 'lb');
+        const target = query.extreme === 'largest' ? Math.max(...pool.map((p) => p.total)) : Math.min(...pool.map((p) => p.total));
+        matches = pool.filter((pack) => pack.total === target);
+    }
+    return matches;
+};
+
+/**
+ * Deterministic answer to a pack-size question about one product, or null when the message
+ * isn't about pack sizes or the product has none on file.
+ */
+export const checkPackSizes = (message: string, slug: string, metadata: ProductMetadata, index?: ProductIndex): PackSizeCheck | null => {
+    const query = parsePackSizeQuery(message);
+    if (!query) return null;
+    const packs = getPackSizes(slug, metadata, index);
+    if (packs.length === 0) return null;
+    return {
+        slug,
+        product: metadata[slug]?.displayName || slug,
+        query,
+        matches: matchPackSizes(packs, query),
+        packs,
+    };
+};
+
+const describeQuery = (query: PackSizeQuery) => {
+    const parts = [
+        query.extreme,
+        query.units.length > 0 ? query.units.join(' or ') : null,
+        query.container === 'case' ? 'case' : query.container === 'single' ? 'single-container' : null,
+    ].filter(Boolean);
+    return parts.length > 0 ? `${parts.join(' ')} pack` : 'pack sizes';
+};
+
+export const formatPackSizeContext = (check: PackSizeCheck) => {
+    const line = (pack: PackSize) =>
+        `- ${describePackSize(pack)}, SKU ${pack.sku}${pack.procurementFile ? ` (procurement record: ${pack.procurementFile})` : ''}`;
+    const verdict = check.matches.length > 0
+        ? `YES. Matching: ${check.matches.map(describePackSize).join('; ')}`
+        : `NO. ${check.product} has no ${describeQuery(check.query)} on file.`;
+
+    return `PACK SIZE CHECK (VERIFIED FROM THE CATALOG; ANSWER SIZE QUESTIONS EXACTLY FROM THIS):
+            - Product: ${check.product}
+            - Asked for: ${describeQuery(check.query)}
+            - Result: ${verdict}
+            - All pack sizes on file:
+            ${check.packs.map(line).join('\n            ')}
+            Never offer a size that is not listed here. The customer sees these sizes as a picker under the answer.`;
+};
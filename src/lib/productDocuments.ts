@@ -0,0 +1,132 @@
+import { documentVersionLabel, parseDocumentName } from '@/lib/documentVersions';
+import { selectRelevantSections } from '@/lib/retrieval';
+import { formatSdsSection } from '@/lib/sdsSections';
+import type { ParsedDocument } from '@/lib/documentCache';
+
+// Document families stored per SKU in the bucket (plus the SDS merges in grounding/).
+// Anything else the librarian selects (PDF SDS uploads, company docs) is treated as 'other'.
+export type DocumentFamily = 'grounding' | 'sku_master' | 'sku_protocol' | 'sku_procurement' | 'other';
+
+export type ProductDocument = {
+    family: DocumentFamily;
+    name: string;
+    label: string;
+    // "v1", "v0.1"; null for unversioned files
+    version: string | null;
+    text: string;
+    truncated: boolean;
+    // SDS section numbers included when the document was split by GHS section
+    sections?: number[];
+};
+
+// Character budget per source so one long SDS can't crowd out the protocol or pack-size data
+export const SOURCE_BUDGETS: Record<DocumentFamily, number> = {
+    grounding: 14000,
+    sku_protocol: 6000,
+    sku_master: 4000,
+    sku_procurement: 3000,
+    other: 30000,
+};
+
+const SOURCE_LABELS: Record<DocumentFamily, string> = {
+    grounding: 'SDS / SAFETY DATA',
+    sku_master: 'PRODUCT MASTER RECORD',
+    sku_protocol: 'DILUTION & USE PROTOCOL',
+    sku_procurement: 'PROCUREMENT & PACK SIZES',
+    other: 'TECHNICAL RECORD',
+};
+
+const FAMILY_ORDER: DocumentFamily[] = ['grounding', 'other', 'sku_master', 'sku_protocol', 'sku_procurement'];
+
+export const getDocumentFamily = (name: string): DocumentFamily => {
+    const family = parseDocumentName(name)?.family;
+    return FAMILY_ORDER.includes(family as DocumentFamily) ? (family as DocumentFamily) : 'other';
+};
+
+/**
+ * Whether a file is a Safety Data Sheet: a grounding document or an uploaded SDS PDF.
+ * Master, protocol and procurement records are never linked as the SDS.
+ */
+export const isSdsFile = (name: string) => {
+    const family = getDocumentFamily(name);
+    return family === 'grounding' || (family === 'other' && /\.pdf$/i.test(name));
+};
+
+/**
+ * Picks one file per family from a product's candidate files.
+ * Candidates are expected in preference order (the resolver lists the product's own files first).
+ */
+export const selectFamilyFiles = (files: string[]) => {
+    const selected = new Map<DocumentFamily, string>();
+    for (const name of files) {
+        const family = getDocumentFamily(name);
+        if (!selected.has(family)) selected.set(family, name);
+    }
+    return FAMILY_ORDER.filter((family) => selected.has(family)).map((family) => ({
+        family,
+        name: selected.get(family) as string,
+    }));
+};
+
+// Cut at the last line break inside the budget so we don't hand the model half a sentence
+export const trimToBudget = (text: string, budget: number) => {
+    if (text.length <= budget) return { text, truncated: false };
+    const slice = text.slice(0, budget);
+    const lastBreak = slice.lastIndexOf('\n');
+    return { text: lastBreak > budget * 0.5 ? slice.slice(0, lastBreak) : slice, truncated: true };
+};
+
+// SDS-bearing families are split on GHS sections and only the sections relevant to the question are kept
+const SECTIONED_FAMILIES: DocumentFamily[] = ['grounding', 'other'];
+
+const extractRelevantText = async (document: ParsedDocument, family: DocumentFamily, query: string) => {
+    const budget = SOURCE_BUDGETS[family];
+    if (SECTIONED_FAMILIES.includes(family) && document.sections.length > 0) {
+        const relevant = await selectRelevantSections(query, document.sections, budget);
+        const text = relevant.map(formatSdsSection).join('\n\n');
+        return { text, truncated: relevant.length < document.sections.length, sections: relevant.map((s) => s.number) };
+    }
+    return trimToBudget(document.text.trim(), budget);
+};
+
+/**
+ * Loads the grounding, master, protocol and procurement documents for a product,
+ * each trimmed to its per-source budget. SDS text is reduced to the GHS sections
+ * that best match `query`. Failed downloads are skipped, not fatal.
+ */
+export const gatherProductDocuments = async (
+    files: string[],
+    loadDocument: (name: string) => Promise<ParsedDocument>,
+    query = ''
+): Promise<ProductDocument[]> => {
+    const selected = selectFamilyFiles(files);
+
+    const documents = await Promise.all(
+        selected.map(async ({ family, name }) => {
+            try {
+                const document = await loadDocument(name);
+                const extracted = await extractRelevantText(document, family, query);
+                return { family, name, label: SOURCE_LABELS[family], version: documentVersionLabel(name), ...extracted };
+            } catch (err) {
+                console.error(`Error reading ${name}:`, err);
+                return null;
+            }
+        })
+    );
+
+    return documents.filter((doc): doc is ProductDocument => doc !== null && doc.text.length > 0);
+};
+
+/**
+ * Source blocks for the prompt, headed by family and product ("SDS / SAFETY DATA — Bio-Maxx — v2").
+ * Bucket file names are left out: the model must not name internal paths, so it isn't shown any.
+ */
+export const formatProductDocuments = (documents: ProductDocument[], productName?: string) =>
+    documents
+        .map((doc) => {
+            const product = productName ? ` — ${productName}` : '';
+            const version = doc.version ? ` — ${doc.version}` : '';
+            const scope = doc.sections ? ` — SDS Sections ${doc.sections.join(', ')}` : '';
+            return `=== SOURCE: ${doc.label}${product}${version}${scope} ===\n${doc.text}${doc.truncated && !doc.sections ? '\n[...truncated]' : ''}`;
+        })
+        .join('\n\n');
@@ -0,0 +1,288 @@
+import { latestDocumentNames, parseDocumentName } from '@/lib/documentVersions';
+
+// Deterministic product resolution for the chat route.
+// Indexes product_metadata.json (keys, display names, variants) and the bucket
+// filenames so a user message can be mapped to a product without an LLM call.
+
+export type ProductMetadataEntry = {
+    displayName?: string;
+    canonicalDescription?: string;
+    category?: string;
+    variants?: string[];
+};
+
+export type ProductMetadata = Record<string, ProductMetadataEntry>;
+
+type AliasSource = 'key' | 'displayName' | 'variant' | 'file' | 'shortName';
+
+type ProductAlias = {
+    slug: string;
+    variant?: string;
+    source: AliasSource;
+    tokens: string[];
+    compact: string;
+};
+
+export type ProductIndex = {
+    aliases: ProductAlias[];
+    // Bucket files keyed by product slug (and by variant slug for pack-size specific files)
+    filesBySlug: Map<string, string[]>;
+    metadata: ProductMetadata;
+};
+
+export type ProductMatch = {
+    slug: string;
+    displayName: string;
+    variant?: string;
+    score: number;
+    matchedAlias: string;
+    files: string[];
+};
+
+// Above this score the route trusts the resolver and skips the librarian LLM call
+export const RESOLVER_CONFIDENCE_THRESHOLD = 0.82;
+
+// Weight applied per alias source: exact keys and display names are the strongest signal
+const SOURCE_WEIGHT: Record<AliasSource, number> = {
+    key: 1,
+    displayName: 1,
+    variant: 0.99,
+    file: 0.97,
+    shortName: 0.93,
+};
+
+// Descriptors that customers routinely leave off ("Big Sky" for "Big Sky Concentrate")
+const GENERIC_SUFFIXES = ['concentrate', 'cleaner', 'detergent', 'non slip floor cleaner'];
+
+// Pack-size units collapse to one spelling so "4x1-gallon", "4x1-gal" and "4x1 gallons" match
+const UNIT_ALIASES: Record<string, string> = {
+    gallon: 'gal',
+    gallons: 'gal',
+    gals: 'gal',
+    quart: 'qt',
+    quarts: 'qt',
+    qts: 'qt',
+    pound: 'lb',
+    pounds: 'lb',
+    lbs: 'lb',
+    ounce: 'oz',
+    ounces: 'oz',
+};
+
+// Single-token aliases shorter than this must match exactly (avoids "rip" matching "tip")
+const MIN_FUZZY_LENGTH = 5;
+
+const FILE_FAMILY_PRIORITY = ['grounding', 'sku_master', 'sku_protocol', 'sku_procurement'];
+
+export const normalizeProductText = (text: string): string[] =>
+    text
+        .toLowerCase()
+        .replace(/&amp;/g, '&')
+        .replace(/\.(txt|pdf)$/g, '')
+        .replace(/([a-z])(\d)/g, '$1 $2')
+        .replace(/(\d)([a-z])/g, '$1 $2')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim()
+        .split(' ')
+        .filter(Boolean)
+        .map((token) => UNIT_ALIASES[token] || token);
+
+const levenshtein = (a: string, b: string) => {
+    if (a === b) return 0;
+    if (!a.length) return b.length;
+    if (!b.length) return a.length;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+export const similarity = (a: string, b: string) => {
+    const longest = Math.max(a.length, b.length);
+    if (longest === 0) return 1;
+    return 1 - levenshtein(a, b) / longest;
+};
+
+/**
+ * Typo-tolerant keyword check used for intent hints ("delever", "clner").
+ * Matches when any word in the text is within one edit of a keyword (two for long keywords).
+ */
+export const hasFuzzyKeyword = (text: string, keywords: string[]) => {
+    const words = text.toLowerCase().split(/[^a-z]+/).filter(Boolean);
+    return words.some((word) =>
+        keywords.some((keyword) => {
+            if (word.startsWith(keyword)) return true;
+            if (keyword.length < 6) return false;
+            const stem = word.slice(0, keyword.length + 1);
+            const allowed = keyword.length >= 8 ? 2 : 1;
+            return levenshtein(stem, keyword) <= allowed || levenshtein(word, keyword) <= allowed;
+        })
+    );
+};
+
+const toAlias = (slug: string, text: string, source: AliasSource, variant?: string): ProductAlias | null => {
+    const tokens = normalizeProductText(text);
+    if (tokens.length === 0) return null;
+    return { slug, variant, source, tokens, compact: tokens.join('') };
+};
+
+const familyRank = (name: string) => {
+    const family = parseDocumentName(name)?.family || '';
+    const rank = FILE_FAMILY_PRIORITY.indexOf(family);
+    return rank === -1 ? FILE_FAMILY_PRIORITY.length : rank;
+};
+
+export const buildProductIndex = (metadata: ProductMetadata, fileNames: string[] = []): ProductIndex => {
+    const aliases: ProductAlias[] = [];
+    const compactToTarget = new Map<string, { slug: string; variant?: string }>();
+    const push = (alias: ProductAlias | null) => {
+        if (alias) aliases.push(alias);
+    };
+
+    for (const [slug, details] of Object.entries(metadata)) {
+        push(toAlias(slug, slug, 'key'));
+        if (details.displayName) push(toAlias(slug, details.displayName, 'displayName'));
+
+        for (const name of [slug, details.displayName || '']) {
+            const normalized = normalizeProductText(name).join(' ');
+            for (const suffix of GENERIC_SUFFIXES) {
+                if (normalized.endsWith(` ${suffix}`)) {
+                    push(toAlias(slug, normalized.slice(0, -suffix.length), 'shortName'));
+                }
+            }
+        }
+
+        compactToTarget.set(normalizeProductText(slug).join(''), { slug });
+    }
+
+    // Variants are indexed after all keys so a product key always wins over another product's variant
+    for (const [slug, details] of Object.entries(metadata)) {
+        for (const variant of details.variants || []) {
+            push(toAlias(slug, variant, 'variant', variant));
+            const compact = normalizeProductText(variant).join('');
+            if (!compactToTarget.has(compact)) compactToTarget.set(compact, { slug, variant });
+        }
+    }
+
+    const filesBySlug = new Map<string, string[]>();
+    const addFile = (key: string, name: string) => {
+        const list = filesBySlug.get(key) || [];
+        list.push(name);
+        filesBySlug.set(key, list);
+    };
+
+    // Only the newest version of each document is resolvable; older ones stay in the listing for audit questions
+    for (const name of latestDocumentNames(fileNames)) {
+        const parsed = parseDocumentName(name);
+        if (!parsed) continue;
+        const compact = normalizeProductText(parsed.slug).join('');
+
+        let target = compactToTarget.get(compact);
+        if (!target) {
+            // Fall back to the longest product key that prefixes the file slug ("fyer-squire-4x4-lb" has no exact entry)
+            let bestLength = 0;
+            for (const [keyCompact, candidate] of compactToTarget) {
+                if (!candidate.variant && compact.startsWith(keyCompact) && keyCompact.length > bestLength) {
+                    target = candidate;
+                    bestLength = keyCompact.length;
+                }
+            }
+        }
+        if (!target) continue;
+
+        push(toAlias(target.slug, parsed.slug, 'file', target.variant));
+        addFile(target.variant || target.slug, name);
+        if (target.variant) addFile(target.slug, name);
+    }
+
+    // Family priority first, then the product's own file ahead of its pack-size variants
+    const slugLength = (name: string) => parseDocumentName(name)?.slug.length || 0;
+    for (const list of filesBySlug.values()) {
+        list.sort((a, b) => familyRank(a) - familyRank(b) || slugLength(a) - slugLength(b));
+    }
+
+    return { aliases, filesBySlug, metadata };
+};
+
+type AliasScore = { score: number; start: number; end: number };
+
+const scoreAlias = (alias: ProductAlias, queryTokens: string[]): AliasScore => {
+    const size = alias.tokens.length;
+    let best: AliasScore = { score: 0, start: 0, end: 0 };
+
+    for (let length = Math.max(1, size - 1); length <= size + 1; length++) {
+        for (let start = 0; start + length <= queryTokens.length; start++) {
+            const window = queryTokens.slice(start, start + length).join('');
+            if (window === alias.compact) return { score: 1, start, end: start + length };
+            if (alias.compact.length < MIN_FUZZY_LENGTH) continue;
+            if (Math.abs(window.length - alias.compact.length) > alias.compact.length * 0.3) continue;
+            const score = similarity(window, alias.compact);
+            if (score > best.score) best = { score, start, end: start + length };
+        }
+    }
+
+    return best;
+};
+
+/**
+ * Ranks products mentioned in `query`. Scores are 0..1; ties prefer the longer
+ * (more specific) alias so "Delta Green Concentrate" beats "Delta Green".
+ */
+export const resolveProducts = (query: string, index: ProductIndex, limit = 5): ProductMatch[] => {
+    const queryTokens = normalizeProductText(query);
+    if (queryTokens.length === 0) return [];
+
+    type Candidate = { slug: string; alias: ProductAlias; score: number; start: number; end: number };
+    const bestBySlug = new Map<string, Candidate>();
+
+    for (const alias of index.aliases) {
+        const match = scoreAlias(alias, queryTokens);
+        if (match.score < 0.75) continue;
+        const score = match.score * SOURCE_WEIGHT[alias.source];
+        const current = bestBySlug.get(alias.slug);
+        // A longer alias that scores about as well is the more specific mention ("bio maxx 4x1 gal" over "bio maxx")
+        const moreSpecific = current && alias.compact.length > current.alias.compact.length && score >= current.score - 0.02;
+        if (!current || score > current.score || moreSpecific) {
+            bestBySlug.set(alias.slug, { slug: alias.slug, alias, score, start: match.start, end: match.end });
+        }
+    }
+
+    const ranked = Array.from(bestBySlug.values()).sort(
+        (a, b) => b.score - a.score || b.alias.compact.length - a.alias.compact.length
+    );
+
+    // Drop matches nested inside a stronger, longer mention ("delta green" inside "delta green concentrate")
+    const accepted: Candidate[] = [];
+    for (const candidate of ranked) {
+        const nested = accepted.some(
+            (other) =>
+                candidate.start >= other.start &&
+                candidate.end <= other.end &&
+                candidate.alias.compact.length <= other.alias.compact.length
+        );
+        if (!nested) accepted.push(candidate);
+    }
+
+    return accepted.slice(0, limit).map(({ slug, alias, score }) => ({
+        slug,
+        displayName: index.metadata[slug]?.displayName || slug,
+        variant: alias.variant,
+        score: Number(score.toFixed(3)),
+        matchedAlias: alias.tokens.join(' '),
+        // Pack-size specific files first, then the base product's files for any family the variant lacks
+        files: Array.from(new Set([
+            ...(alias.variant ? index.filesBySlug.get(alias.variant) || [] : []),
+            ...(index.filesBySlug.get(slug) || []),
+        ])),
+    }));
+};
+
+export const resolveProduct = (query: string, index: ProductIndex): ProductMatch | null =>
+    resolveProducts(query, index, 1)[0] || null;
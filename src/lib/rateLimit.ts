@@ -0,0 +1,41 @@
+import { LRUCache } from 'lru-cache';
+import type { NextRequest } from 'next/server';
+
+// Fixed-window request limits per client IP, in memory (per server instance).
+
+type RateLimitEntry = { count: number; expiresAt: number };
+
+export const getClientIp = (req: NextRequest) => {
+    const forwardedFor = req.headers.get('x-forwarded-for');
+    return forwardedFor?.split(',')[0].trim() || 'unknown';
+};
+
+/**
+ * Returns `isRateLimited(clientIp)`, which counts the request and reports whether it is over the limit.
+ */
+export const createRateLimiter = ({ windowMs, maxRequests }: { windowMs: number; maxRequests: number }) => {
+    const requests = new LRUCache<string, RateLimitEntry>({
+        max: 500,
+        ttl: windowMs,
+    });
+
+    return (clientIp: string) => {
+        const now = Date.now();
+        const entry = requests.get(clientIp);
+
+        if (!entry || entry.expiresAt <= now) {
+            requests.set(clientIp, { count: 1, expiresAt: now + windowMs });
+            return false;
+        }
+
+        if (entry.count >= maxRequests) {
+            return true;
+        }
+
+        requests.set(clientIp, { ...entry, count: entry.count + 1 });
+        return false;
+    };
+};
+
+// The chat route's limit, shared by the endpoints a chat client calls
+export const CHAT_RATE_LIMIT = { windowMs: 60_000, maxRequests: 30 };
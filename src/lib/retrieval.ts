@@ -0,0 +1,204 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { LRUCache } from 'lru-cache';
+import { formatSdsSection, SdsSection } from '@/lib/sdsSections';
+
+// Scores SDS sections against the user's question so only the relevant ones reach the model.
+// BM25 runs locally on every request; an embeddings backend can be layered on top via env.
+
+export type RankedSection = SdsSection & { score: number };
+
+export interface EmbeddingBackend {
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+const STOPWORDS = new Set([
+    'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in',
+    'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'should', 'so', 'tell', 'that', 'the', 'this', 'to', 'use', 'what',
+    'when', 'where', 'which', 'who', 'will', 'with', 'you', 'your', 'we', 'our',
+]);
+
+// Customer phrasing -> SDS vocabulary. Keeps "is it toxic?" from missing Section 11.
+const QUERY_EXPANSIONS: Record<string, string> = {
+    ppe: 'personal protective equipment gloves goggles respirator protection',
+    gloves: 'personal protective equipment hand protection',
+    goggles: 'eye protection personal protective equipment',
+    eyes: 'eye contact rinse first aid',
+    eye: 'eye contact rinse first aid',
+    skin: 'skin contact first aid',
+    swallow: 'ingestion first aid',
+    swallowed: 'ingestion first aid',
+    drank: 'ingestion first aid',
+    breathe: 'inhalation first aid',
+    fumes: 'inhalation vapor ventilation',
+    exposure: 'first aid contact exposure controls',
+    toxic: 'toxicological toxicity acute hazard',
+    poison: 'toxicological toxicity ingestion first aid',
+    dangerous: 'hazard identification signal word',
+    hazard: 'hazard identification statements',
+    flammable: 'flash point fire flammability',
+    fire: 'fire fighting extinguishing media flash point',
+    spill: 'accidental release containment cleanup',
+    store: 'handling storage',
+    storage: 'handling storage',
+    mix: 'incompatible materials reactivity stability',
+    mixing: 'incompatible materials reactivity stability',
+    ph: 'physical chemical properties ph',
+    ship: 'transport un number',
+    shipping: 'transport un number',
+    dispose: 'disposal considerations',
+    ingredients: 'composition ingredients cas',
+};
+
+// Sections sent when nothing in the question scores (e.g. "tell me about Bio-Maxx")
+export const DEFAULT_SDS_SECTIONS = [1, 2];
+
+const MAX_SECTIONS = 4;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export const tokenize = (text: string) =>
+    text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((token) => token.length > 1 && !STOPWORDS.has(token));
+
+export const expandQuery = (query: string) => {
+    const tokens = tokenize(query);
+    const expanded = tokens.flatMap((token) => [token, ...(QUERY_EXPANSIONS[token] ? tokenize(QUERY_EXPANSIONS[token]) : [])]);
+    return Array.from(new Set(expanded));
+};
+
+/**
+ * Okapi BM25 over the given documents. Returns one score per document, in input order.
+ */
+export const bm25Scores = (queryTokens: string[], documents: string[]) => {
+    const docTokens = documents.map(tokenize);
+    const avgLength = docTokens.reduce((sum, tokens) => sum + tokens.length, 0) / Math.max(docTokens.length, 1);
+    const documentFrequency = new Map<string, number>();
+    for (const tokens of docTokens) {
+        for (const token of new Set(tokens)) {
+            documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+        }
+    }
+
+    return docTokens.map((tokens) => {
+        const termFrequency = new Map<string, number>();
+        for (const token of tokens) termFrequency.set(token, (termFrequency.get(token) || 0) + 1);
+
+        return queryTokens.reduce((score, token) => {
+            const tf = termFrequency.get(token) || 0;
+            if (tf === 0) return score;
+            const df = documentFrequency.get(token) || 0;
+            const idf = Math.log(1 + (docTokens.length - df + 0.5) / (df + 0.5));
+            const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (tokens.length / (avgLength || 1)));
+            return score + idf * ((tf * (BM25_K1 + 1)) / norm);
+        }, 0);
+    });
+};
+
+const cosine = (a: number[], b: number[]) => {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Section text repeats across requests for the same product, so embeddings are memoized
+const embeddingCache = new LRUCache<string, number[]>({ max: 2000 });
+
+export const createGeminiEmbeddingBackend = (apiKey: string, model = 'text-embedding-004'): EmbeddingBackend => {
+    const embedder = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+    return {
+        async embed(texts) {
+            const missing = texts.filter((text) => !embeddingCache.has(text));
+            if (missing.length > 0) {
+                const result = await embedder.batchEmbedContents({
+                    requests: missing.map((text) => ({ content: { role: 'user', parts: [{ text: text.slice(0, 8000) }] } })),
+                });
+                result.embeddings.forEach((embedding, i) => embeddingCache.set(missing[i], embedding.values));
+            }
+            return texts.map((text) => embeddingCache.get(text) || []);
+        },
+    };
+};
+
+/**
+ * Embeddings are opt-in (`RETRIEVAL_EMBEDDINGS=gemini`); BM25 alone is the default.
+ */
+export const getEmbeddingBackend = (): EmbeddingBackend | null => {
+    if (process.env.RETRIEVAL_EMBEDDINGS === 'gemini' && process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
+        return createGeminiEmbeddingBackend(process.env.GOOGLE_GENERATIVE_AI_API_KEY);
+    }
+    return null;
+};
+
+const normalizeScores = (scores: number[]) => {
+    const max = Math.max(...scores, 0);
+    return max > 0 ? scores.map((score) => score / max) : scores.map(() => 0);
+};
+
+export const rankSections = async (
+    query: string,
+    sections: SdsSection[],
+    backend: EmbeddingBackend | null = null
+): Promise<RankedSection[]> => {
+    const documents = sections.map(formatSdsSection);
+    const lexical = normalizeScores(bm25Scores(expandQuery(query), documents));
+
+    let scores = lexical;
+    if (backend) {
+        try {
+            const [queryVector, ...sectionVectors] = await backend.embed([query, ...documents]);
+            const semantic = sectionVectors.map((vector) => Math.max(0, cosine(queryVector, vector)));
+            // Blend so an exact lexical hit ("Section 8", "PPE") still outranks a vaguely similar section
+            scores = lexical.map((score, i) => 0.6 * score + 0.4 * semantic[i]);
+        } catch (err) {
+            console.warn('Embedding backend failed, using BM25 only:', err);
+        }
+    }
+
+    return sections
+        .map((section, i) => ({ ...section, score: Number(scores[i].toFixed(4)) }))
+        .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Picks the best-scoring sections that fit in `budget` characters, returned in SDS order.
+ * Sections scoring below 25% of the top hit are dropped; with no hits the defaults are used.
+ */
+export const selectRelevantSections = async (
+    query: string,
+    sections: SdsSection[],
+    budget: number,
+    backend: EmbeddingBackend | null = getEmbeddingBackend()
+): Promise<SdsSection[]> => {
+    const numbered = sections.filter((section) => section.number > 0);
+    const ranked = await rankSections(query, numbered, backend);
+    const top = ranked[0]?.score || 0;
+
+    const candidates = top > 0
+        ? ranked.filter((section) => section.score >= top * 0.25).slice(0, MAX_SECTIONS)
+        : numbered.filter((section) => DEFAULT_SDS_SECTIONS.includes(section.number));
+
+    const selected: SdsSection[] = [];
+    let used = 0;
+    for (const section of candidates) {
+        const length = formatSdsSection(section).length;
+        if (used + length > budget) {
+            // Always keep the single best section, trimmed if needed
+            if (selected.length === 0) {
+                selected.push({ ...section, text: section.text.slice(0, budget) });
+            }
+            continue;
+        }
+        selected.push(section);
+        used += length;
+    }
+
+    return selected.sort((a, b) => a.number - b.number);
+};
@@ -0,0 +1,324 @@
+import { LRUCache } from 'lru-cache';
+import type { ParsedDocument } from '@/lib/documentCache';
+import { getDocumentFamily } from '@/lib/productDocuments';
+import type { SdsSection } from '@/lib/sdsSections';
+
+// Typed view of a Safety Data Sheet, parsed from the GHS sections of a grounding file or PDF SDS.
+// Answers about PPE, hazards or transport use these fields instead of the model's recall, and the
+// widget's safety card shows the pictograms and signal word. Fields the SDS doesn't state stay null/empty.
+
+export type GhsPictogram = {
+    code: string;
+    name: string;
+};
+
+export type GhsStatement = {
+    // "H314" or "P280"; inferred from the standard phrase when the SDS omits the code
+    code: string;
+    text: string;
+};
+
+export type FirstAidRoute = 'eyes' | 'skin' | 'inhalation' | 'ingestion';
+
+export type PpeArea = 'eyes' | 'hands' | 'respiratory' | 'body';
+
+export type SafetyDataSheet = {
+    productName: string | null;
+    // Bucket object the sheet was parsed from, and its cache version
+    source: { name: string; version: string };
+    signalWord: 'Danger' | 'Warning' | null;
+    pictograms: GhsPictogram[];
+    hazardStatements: GhsStatement[];
+    precautionaryStatements: GhsStatement[];
+    firstAid: Partial<Record<FirstAidRoute, string>>;
+    ppe: Partial<Record<PpeArea, string>>;
+    flashPoint: string | null;
+    ph: string | null;
+    storage: string | null;
+    transport: {
+        unNumber: string | null;
+        properShippingName: string | null;
+        hazardClass: string | null;
+        packingGroup: string | null;
+        // false when Section 14 says the product is not regulated for transport
+        regulated: boolean | null;
+    };
+};
+
+export const GHS_PICTOGRAMS: Record<string, string> = {
+    GHS01: 'Exploding bomb',
+    GHS02: 'Flame',
+    GHS03: 'Flame over circle',
+    GHS04: 'Gas cylinder',
+    GHS05: 'Corrosion',
+    GHS06: 'Skull and crossbones',
+    GHS07: 'Exclamation mark',
+    GHS08: 'Health hazard',
+    GHS09: 'Environment',
+};
+
+// Pictogram names as SDS authors write them
+const PICTOGRAM_NAME_PATTERNS: [string, RegExp][] = [
+    ['GHS01', /exploding bomb|\bexplosive\b/i],
+    ['GHS02', /\bflame\b(?! over)/i],
+    ['GHS03', /flame over circle/i],
+    ['GHS04', /gas cylinder/i],
+    ['GHS05', /\bcorrosion\b|\bcorrosive\b/i],
+    ['GHS06', /skull and crossbones/i],
+    ['GHS07', /exclamation mark/i],
+    ['GHS08', /health hazard/i],
+    ['GHS09', /\benvironment\b|dead tree|dead fish/i],
+];
+
+// Hazard statements, for SDS files that give the phrase without the code. Longest phrases first.
+const HAZARD_PHRASES: [string, string][] = [
+    ['H410', 'Very toxic to aquatic life with long lasting effects'],
+    ['H411', 'Toxic to aquatic life with long lasting effects'],
+    ['H412', 'Harmful to aquatic life with long lasting effects'],
+    ['H314', 'Causes severe skin burns and eye damage'],
+    ['H225', 'Highly flammable liquid and vapo(?:u)?r'],
+    ['H226', 'Flammable liquid and vapo(?:u)?r'],
+    ['H272', 'May intensify fire; oxidi[sz]er'],
+    ['H290', 'May be corrosive to metals'],
+    ['H318', 'Causes serious eye damage'],
+    ['H319', 'Causes serious eye irritation'],
+    ['H315', 'Causes skin irritation'],
+    ['H317', 'May cause an allergic skin reaction'],
+    ['H335', 'May cause respiratory irritation'],
+    ['H336', 'May cause drowsiness or dizziness'],
+    ['H301', 'Toxic if swallowed'],
+    ['H302', 'Harmful if swallowed'],
+    ['H331', 'Toxic if inhaled'],
+    ['H332', 'Harmful if inhaled'],
+    ['H312', 'Harmful in contact with skin'],
+    ['H304', 'May be fatal if swallowed and enters airways'],
+    ['H400', 'Very toxic to aquatic life'],
+];
+
+const PICTOGRAM_ORDER = Object.keys(GHS_PICTOGRAMS);
+
+// The pictogram a hazard code requires (GHS Annex 3); codes without one are left out
+const pictogramForHazard = (code: string): string | null => {
+    const n = Number(code.slice(1));
+    if (n >= 200 && n <= 205) return 'GHS01';
+    if ((n >= 220 && n <= 228) || n === 241 || n === 242 || (n >= 250 && n <= 252) || n === 260 || n === 261) return 'GHS02';
+    if (n >= 270 && n <= 272) return 'GHS03';
+    if (n === 280 || n === 281) return 'GHS04';
+    if (n === 290 || n === 314 || n === 318) return 'GHS05';
+    if ([300, 301, 310, 311, 330, 331].includes(n)) return 'GHS06';
+    if ([302, 312, 315, 317, 319, 332, 335, 336].includes(n)) return 'GHS07';
+    if ([304, 334, 340, 341, 350, 351, 360, 361, 370, 371, 372, 373].includes(n)) return 'GHS08';
+    if (n === 400 || n === 410 || n === 411) return 'GHS09';
+    return null;
+};
+
+const FIRST_AID_LABELS: [FirstAidRoute, RegExp][] = [
+    ['eyes', /\beyes?\b/i],
+    ['skin', /\bskin\b/i],
+    ['inhalation', /\binhal/i],
+    ['ingestion', /\bingest|\bswallow/i],
+];
+
+const PPE_PATTERNS: [PpeArea, RegExp][] = [
+    ['eyes', /\bgoggles\b|safety glasses|face shield|eye (?:\/ ?face )?protection|eye protection/i],
+    ['hands', /\bgloves?\b|hand protection/i],
+    ['respiratory', /respirat|\bmask\b|ventilation/i],
+    ['body', /protective clothing|\bapron\b|\bboots\b|body protection|skin protection/i],
+];
+
+// Questions a safety card is shown for: PPE, hazards, handling, physical data, transport
+const SAFETY_QUESTION_PATTERN = /\bppe\b|protect|\bgloves?\b|goggles|respirator|\bhazard|\bdanger|\bsafe(?:ty)?\b|\btoxic|corrosive|flammab|flash ?point|\bph\b|first[\s-]?aid|exposure|\bstor(?:e|age|ing)\b|\bship(?:ping)?\b|\btransport|\bun ?number|pictogram|signal word|\b(?:m?sds)\b/i;
+
+const CODE_LIST = String.raw`[HP]\d{3}(?:\s*\+\s*[HP]\d{3})*`;
+const STATEMENT_PATTERN = new RegExp(String.raw`\b(${CODE_LIST})\b\s*[:\-–]?\s*([^\n]*)`, 'g');
+const MAX_FIELD_LENGTH = 400;
+
+const sectionText = (sections: SdsSection[], number: number) =>
+    sections.filter((section) => section.number === number).map((section) => section.text).join('\n');
+
+const clean = (text: string) => text.replace(/[*_#`]+/g, '').replace(/\s+/g, ' ').trim();
+
+const truncate = (text: string, max = MAX_FIELD_LENGTH) => (text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text);
+
+const splitSentences = (text: string) =>
+    text.split(/\n+|(?<=[.!?])\s+/).map(clean).filter(Boolean);
+
+// First "Label: value" on a line, e.g. "Flash point: > 200 °F"
+const labelledValue = (text: string, label: RegExp) => {
+    for (const line of text.split('\n')) {
+        const match = clean(line).match(new RegExp(String.raw`^(?:[-•]\s*)?${label.source}\s*(?:\([^)]*\))?\s*[:\-–]\s*(.+)$`, 'i'));
+        if (match) return truncate(match[1].trim());
+    }
+    return null;
+};
+
+const parseStatements = (text: string, prefix: 'H' | 'P'): GhsStatement[] => {
+    const statements: GhsStatement[] = [];
+    const seen = new Set<string>();
+    for (const match of text.matchAll(STATEMENT_PATTERN)) {
+        const code = match[1].replace(/\s+/g, '');
+        if (!code.startsWith(prefix) || seen.has(code)) continue;
+        seen.add(code);
+        statements.push({ code, text: truncate(clean(match[2]).replace(/^[-–:]\s*/, '').replace(/\.$/, '')) });
+    }
+    if (prefix === 'H') {
+        for (const [code, phrase] of HAZARD_PHRASES) {
+            if (seen.has(code)) continue;
+            const found = text.match(new RegExp(`\\b${phrase}\\b`, 'i'));
+            // A shorter phrase inside one already matched ("Very toxic to aquatic life" in H410) isn't a separate hazard
+            if (found && !statements.some((s) => s.text.toLowerCase().includes(found[0].toLowerCase()))) {
+                seen.add(code);
+                statements.push({ code, text: found[0] });
+            }
+        }
+    }
+    return statements;
+};
+
+const parsePictograms = (hazardText: string, hazards: GhsStatement[]): GhsPictogram[] => {
+    // Pictograms the SDS names itself are kept as stated
+    const stated = new Set<string>();
+    for (const match of hazardText.matchAll(/\bGHS0([1-9])\b/g)) stated.add(`GHS0${match[1]}`);
+    for (const [code, pattern] of PICTOGRAM_NAME_PATTERNS) {
+        if (hazardText.split('\n').some((line) => /pictogram|symbol/i.test(line) && pattern.test(line))) stated.add(code);
+    }
+
+    const hazardCodes = hazards.flatMap((statement) => statement.code.split('+'));
+    const derived = new Set(hazardCodes.map(pictogramForHazard).filter((code): code is string => code !== null));
+    // GHS precedence: no exclamation mark with the skull, nor with corrosion when it would only mark skin/eye irritation
+    const irritantOnly = hazardCodes.filter((code) => pictogramForHazard(code) === 'GHS07').every((code) => code === 'H315' || code === 'H319');
+    if (derived.has('GHS06') || (derived.has('GHS05') && irritantOnly)) derived.delete('GHS07');
+
+    const codes = new Set([...stated, ...derived]);
+    return PICTOGRAM_ORDER.filter((code) => codes.has(code)).map((code) => ({ code, name: GHS_PICTOGRAMS[code] }));
+};
+
+const parseSignalWord = (hazardText: string): SafetyDataSheet['signalWord'] => {
+    const text = hazardText.replace(/[*_#`]+/g, '');
+    const stated = text.match(/signal word\s*[:\-–]?\s*(danger|warning)\b/i)?.[1]
+        || text.match(/^\s*(DANGER|WARNING)[!.\s]*$/m)?.[1];
+    if (!stated) return null;
+    return stated.toLowerCase() === 'danger' ? 'Danger' : 'Warning';
+};
+
+const parseFirstAid = (text: string) => {
+    const firstAid: SafetyDataSheet['firstAid'] = {};
+    for (const line of text.split('\n')) {
+        const match = clean(line).match(/^(?:[-•]\s*)?([A-Za-z /]{3,40}?)\s*[:\-–]\s*(.+)$/);
+        if (!match) continue;
+        const route = FIRST_AID_LABELS.find(([, pattern]) => pattern.test(match[1]))?.[0];
+        if (route && !firstAid[route]) firstAid[route] = truncate(match[2]);
+    }
+    return firstAid;
+};
+
+const parsePpe = (text: string) => {
+    const ppe: SafetyDataSheet['ppe'] = {};
+    for (const line of splitSentences(text)) {
+        // "Hand protection: Nitrile gloves" -> "Nitrile gloves"; the area is the field name
+        const sentence = line.replace(/^[A-Za-z /]{0,30}protection\s*[:\-–]\s*/i, '');
+        for (const [area, pattern] of PPE_PATTERNS) {
+            if (pattern.test(line)) ppe[area] = truncate(ppe[area] ? `${ppe[area]} ${sentence}` : sentence);
+        }
+    }
+    return ppe;
+};
+
+const parseTransport = (text: string): SafetyDataSheet['transport'] => {
+    const unNumber = text.match(/\bUN\s?-?(\d{4})\b/)?.[1];
+    const notRegulated = /not (?:regulated|restricted|dangerous goods)|non-?regulated/i.test(text);
+    return {
+        unNumber: unNumber ? `UN${unNumber}` : null,
+        properShippingName: labelledValue(text, /proper shipping name/),
+        hazardClass: labelledValue(text, /(?:transport )?hazard class(?:\(es\))?/),
+        packingGroup: labelledValue(text, /packing group/),
+        regulated: unNumber ? true : notRegulated ? false : null,
+    };
+};
+
+export const isSafetyQuestion = (message: string) => SAFETY_QUESTION_PATTERN.test(message);
+
+/**
+ * The typed model of an SDS document, or null when the document isn't split into GHS sections.
+ */
+export const parseSafetyDataSheet = (document: ParsedDocument): SafetyDataSheet | null => {
+    const { sections } = document;
+    if (sections.length === 0) return null;
+
+    const hazardText = sectionText(sections, 2);
+    const hazardStatements = parseStatements(hazardText, 'H');
+    const storage = splitSentences(sectionText(sections, 7)).join(' ');
+
+    return {
+        productName: labelledValue(sectionText(sections, 1), /product (?:name|identifier)/),
+        source: { name: document.name, version: document.version },
+        signalWord: parseSignalWord(hazardText),
+        pictograms: parsePictograms(hazardText, hazardStatements),
+        hazardStatements,
+        precautionaryStatements: parseStatements(hazardText, 'P'),
+        firstAid: parseFirstAid(sectionText(sections, 4)),
+        ppe: parsePpe(sectionText(sections, 8)),
+        flashPoint: labelledValue(sectionText(sections, 9), /flash ?point/),
+        ph: labelledValue(sectionText(sections, 9), /ph\b/),
+        storage: storage ? truncate(storage) : null,
+        transport: parseTransport(sectionText(sections, 14)),
+    };
+};
+
+// Parsed sheets per product slug; a new document version (re-upload) replaces the entry
+const sheetCache = new LRUCache<string, SafetyDataSheet>({ max: 500 });
+
+/**
+ * The product's SDS from the first of its grounding/PDF SDS files that has GHS sections.
+ */
+export const getSafetyDataSheet = async (
+    slug: string,
+    files: string[],
+    loadDocument: (name: string) => Promise<ParsedDocument>
+): Promise<SafetyDataSheet | null> => {
+    const sdsFiles = files.filter((name) => ['grounding', 'other'].includes(getDocumentFamily(name)));
+    for (const name of sdsFiles) {
+        let document: ParsedDocument;
+        try {
+            document = await loadDocument(name);
+        } catch (err) {
+            console.error(`Error reading ${name}:`, err);
+            continue;
+        }
+        const cached = sheetCache.get(slug);
+        if (cached && cached.source.name === document.name && cached.source.version === document.version) return cached;
+
+        const sheet = parseSafetyDataSheet(document);
+        if (sheet) {
+            sheetCache.set(slug, sheet);
+            return sheet;
+        }
+    }
+    return null;
+};
+
+const FIRST_AID_TITLES: Record<FirstAidRoute, string> = { eyes: 'Eyes', skin: 'Skin', inhalation: 'Inhalation', ingestion: 'Ingestion' };
+const PPE_TITLES: Record<PpeArea, string> = { eyes: 'Eyes/face', hands: 'Hands', respiratory: 'Respiratory', body: 'Body' };
+
+/**
+ * The sheet's fields as RETRIEVED DATA lines, each tagged with the SDS section it came from.
+ */
+export const formatSafetyDataSheet = (sheet: SafetyDataSheet) => {
+    const statements = (list: GhsStatement[]) => list.map((s) => `${s.code} ${s.text}`).join('; ');
+    const { transport } = sheet;
+    const lines = [
+        `- Signal word (SDS Section 2): ${sheet.signalWord || 'None stated'}`,
+        sheet.pictograms.length > 0 ? `- GHS pictograms (SDS Section 2): ${sheet.pictograms.map((p) => `${p.name} (${p.code})`).join(', ')}` : '',
+        sheet.hazardStatements.length > 0 ? `- Hazard statements (SDS Section 2): ${statements(sheet.hazardStatements)}` : '',
+        sheet.precautionaryStatements.length > 0 ? `- Precautionary statements (SDS Section 2): ${statements(sheet.precautionaryStatements)}` : '',
+        ...(Object.keys(sheet.ppe) as PpeArea[]).map((area) => `- PPE, ${PPE_TITLES[area]} (SDS Section 8): ${sheet.ppe[area]}`),
+        ...(Object.keys(sheet.firstAid) as FirstAidRoute[]).map((route) => `- First aid, ${FIRST_AID_TITLES[route]} (SDS Section 4): ${sheet.firstAid[route]}`),
+        sheet.flashPoint ? `- Flash point (SDS Section 9): ${sheet.flashPoint}` : '',
+        sheet.ph ? `- pH (SDS Section 9): ${sheet.ph}` : '',
+        sheet.storage ? `- Storage (SDS Section 7): ${sheet.storage}` : '',
+        transport.unNumber
+            ? `- Transport (SDS Section 14): ${[transport.unNumber, transport.properShippingName, transport.hazardClass && `class ${transport.hazardClass}`, transport.packingGroup && `packing group ${transport.packingGroup}`].filter(Boolean).join(', ')}`
+            : transport.regulated === false ? '- Transport (SDS Section 14): Not regulated' : '',
+    ].filter(Boolean);
+    return lines.join('\n            ');
+};
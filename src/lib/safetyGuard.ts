@@ -0,0 +1,220 @@
+import {
+    FIRST_AID_DISCLAIMER,
+    formatSdsLink,
+    isFirstAidQuestion,
+    MEDICAL_TEXT_PATTERNS,
+    startsWithDisclaimer,
+} from '@/lib/answerRules';
+import { tokenize } from '@/lib/retrieval';
+
+// Post-generation checks on Dr. Aris's answer. The prompt asks for the disclaimer, the SDS link and
+// SDS-only safety statements; this makes sure the text that reaches the customer actually has them.
+
+export type GuardCheck = 'disclaimer' | 'sdsLink' | 'grounding' | 'medicalText';
+
+export type GuardEvent = {
+    check: GuardCheck;
+    action: 'fixed' | 'regenerated' | 'stripped' | 'replaced';
+    detail: string;
+};
+
+export type GuardContext = {
+    message: string;
+    // Whether the conversation is about an exposure, follow-ups included (conversation state);
+    // defaults to classifying `message` alone
+    firstAid?: boolean;
+    // The answer asks which product the user means (CLARIFY), so there is nothing to ground yet
+    clarifying?: boolean;
+    // Public SDS link for the identified product; null when no SDS is on file
+    sdsUrl: string | null;
+    // SDS text that was retrieved for this answer
+    sdsText: string;
+};
+
+export type GuardResult = {
+    text: string;
+    events: GuardEvent[];
+};
+
+// Sentences that give PPE or first-aid instructions
+const SAFETY_STATEMENT_PATTERN = /\b(?:rinse|flush|wash|induce vomiting|fresh air|contact lenses|gloves|goggles|face shield|respirator|eye protection|protective (?:clothing|equipment)|ventilation)\b/i;
+const SDS_LINK_PATTERN = /\[View Official SDS Sheet\]\([^)]*\)/g;
+// Share of a statement's words that must appear in the SDS for it to count as grounded
+const MIN_GROUNDED_OVERLAP = 0.6;
+
+// First-aid (4) and exposure controls/PPE (8) sections, used verbatim when the model's answer can't be trusted
+const FALLBACK_SDS_SECTIONS = [4, 8];
+
+// First-aid answer when no SDS text was retrieved: nothing the model wrote can be checked, so none of it is sent
+const NO_SDS_FALLBACK = 'We do not have the Safety Data Sheet for this product on file, so I cannot give first aid instructions for it. Follow the first aid section of the product label or its SDS, and in an emergency call 911 or Poison Control (1-800-222-1222). Our team at 406.727.4144 can send you the SDS.';
+
+const splitSentences = (line: string) => line.match(/[^.!?]+(?:[.!?]+|$)\s*/g) || [line];
+
+/**
+ * PPE and first-aid sentences in `answer` whose words mostly don't appear in the SDS text.
+ */
+export const findUngroundedStatements = (answer: string, sdsText: string) => {
+    const sdsTokens = new Set(tokenize(sdsText));
+    return answer
+        .replace(SDS_LINK_PATTERN, '')
+        .replace(FIRST_AID_DISCLAIMER, '')
+        .split('\n')
+        .flatMap(splitSentences)
+        .map((sentence) => sentence.trim())
+        .filter((sentence) => SAFETY_STATEMENT_PATTERN.test(sentence))
+        .filter((sentence) => {
+            const tokens = tokenize(sentence.replace(/\(per SDS Section \d+\)/gi, ''));
+            if (tokens.length === 0) return false;
+            const found = tokens.filter((token) => sdsTokens.has(token)).length;
+            return found / tokens.length < MIN_GROUNDED_OVERLAP;
+        });
+};
+
+/**
+ * Removes sentences (and lines left empty) that match the PROHIBITION rule's medical text.
+ */
+export const stripMedicalText = (answer: string) => {
+    const removed: string[] = [];
+    const lines = answer.split('\n').flatMap((line) => {
+        if (!MEDICAL_TEXT_PATTERNS.some((pattern) => pattern.test(line))) return [line];
+        const kept = splitSentences(line).filter((sentence) => {
+            const medical = MEDICAL_TEXT_PATTERNS.some((pattern) => pattern.test(sentence));
+            if (medical) removed.push(sentence.trim());
+            return !medical;
+        });
+        const rebuilt = kept.join('').trimEnd();
+        return rebuilt.replace(/^[\s>*_#-]*$/, '') ? [rebuilt] : [];
+    });
+    return { text: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim(), removed };
+};
+
+const firstAidSdsText = (sdsText: string) => {
+    const blocks = sdsText.split(/(?=^--- SDS Section \d+:)/m);
+    const relevant = blocks.filter((block) => {
+        const number = Number(block.match(/^--- SDS Section (\d+):/)?.[1]);
+        return FALLBACK_SDS_SECTIONS.includes(number);
+    });
+    return (relevant.length > 0 ? relevant.join('') : sdsText).trim();
+};
+
+const ensureDisclaimer = (answer: string) =>
+    startsWithDisclaimer(answer)
+        ? answer
+        : `${FIRST_AID_DISCLAIMER}\n\n${answer.split(FIRST_AID_DISCLAIMER).join('').trim()}`;
+
+// Drops any other SDS link and puts the correct one at the very bottom
+const ensureSdsLink = (answer: string, sdsUrl: string) =>
+    `${answer.replace(SDS_LINK_PATTERN, '').trimEnd()}\n\n${formatSdsLink(sdsUrl)}`;
+
+const hasCorrectLink = (answer: string, sdsUrl: string) => {
+    const links = answer.match(SDS_LINK_PATTERN) || [];
+    return links.length === 1 && links[0] === formatSdsLink(sdsUrl) && answer.trimEnd().endsWith(links[0]);
+};
+
+const logEvents = (text: string, events: GuardEvent[]): GuardResult => {
+    for (const event of events) {
+        console.warn(`[guard] ${event.check} ${event.action}: ${event.detail}`);
+    }
+    return { text, events };
+};
+
+/**
+ * Checks and repairs a finished answer.
+ * - First-aid/exposure questions get the mandated opening sentence and the product's SDS link.
+ *   Their PPE/first-aid statements must be grounded in the retrieved SDS text: otherwise `regenerate`
+ *   is tried once, then the answer falls back to the SDS first-aid/PPE text verbatim. Without any SDS
+ *   text the answer is replaced by a pointer to the label, SDS and emergency numbers.
+ * - Every other answer has unsolicited medical text stripped.
+ * Every repair is returned as an event and logged.
+ */
+export const guardAnswer = async (
+    answer: string,
+    ctx: GuardContext,
+    regenerate?: (correction: string) => Promise<string>
+): Promise<GuardResult> => {
+    const events: GuardEvent[] = [];
+    let text = answer;
+
+    if (!(ctx.firstAid ?? isFirstAidQuestion(ctx.message))) {
+        const { text: stripped, removed } = stripMedicalText(text);
+        if (removed.length > 0) {
+            events.push({ check: 'medicalText', action: 'stripped', detail: removed.join(' | ') });
+            text = stripped;
+        }
+        return logEvents(text, events);
+    }
+
+    // No product identified yet: the answer should be asking which one, so there is no SDS to check against
+    if (ctx.clarifying) return { text, events };
+
+    // Fail closed: with no SDS text, no statement in the answer can be shown to be grounded
+    if (!ctx.sdsText.trim()) {
+        text = `${FIRST_AID_DISCLAIMER}\n\n${NO_SDS_FALLBACK}`;
+        events.push({ check: 'grounding', action: 'replaced', detail: 'No SDS text was retrieved for this first-aid answer' });
+        return logEvents(ctx.sdsUrl ? ensureSdsLink(text, ctx.sdsUrl) : text, events);
+    }
+
+    const ungrounded = findUngroundedStatements(text, ctx.sdsText);
+    if (ungrounded.length > 0 && regenerate) {
+        const correction = `Your previous answer contained safety statements that are not in the retrieved SDS: ${ungrounded.map((s) => `"${s}"`).join(', ')}. Answer again using only the first aid and PPE wording from the SDS.`;
+        text = await regenerate(correction);
+        events.push({ check: 'grounding', action: 'regenerated', detail: ungrounded.join(' | ') });
+    }
+
+    const stillUngrounded = findUngroundedStatements(text, ctx.sdsText);
+    if (stillUngrounded.length > 0) {
+        text = `${FIRST_AID_DISCLAIMER}\n\n${firstAidSdsText(ctx.sdsText)}`;
+        events.push({ check: 'grounding', action: 'replaced', detail: stillUngrounded.join(' | ') });
+    }
+
+    if (!startsWithDisclaimer(text)) {
+        text = ensureDisclaimer(text);
+        events.push({ check: 'disclaimer', action: 'fixed', detail: 'Mandated first-aid sentence was not the opening line' });
+    }
+
+    if (ctx.sdsUrl && !hasCorrectLink(text, ctx.sdsUrl)) {
+        text = ensureSdsLink(text, ctx.sdsUrl);
+        events.push({ check: 'sdsLink', action: 'fixed', detail: `SDS link set to ${ctx.sdsUrl}` });
+    }
+
+    return logEvents(text, events);
+};
+
+// End of the last complete sentence or line; text after it may still grow into a medical sentence
+const SENTENCE_END_PATTERN = /[.!?](?=\s)|\n/g;
+
+/**
+ * Streams an answer without letting the guard's targets reach the customer before the guard runs.
+ * Exposure answers are held back entirely and sent as one guarded chunk. Other answers stream sentence
+ * by sentence until one carries medical text the guard would strip; everything from there waits for the guard.
+ * `finish` sends what is left of the guarded text, or returns false when already-sent text has to be replaced.
+ */
+export const createGuardedStream = (firstAid: boolean, emit: (text: string) => void) => {
+    let received = '';
+    let sent = '';
+    let holding = firstAid;
+
+    return {
+        push(text: string) {
+            received += text;
+            if (holding) return;
+            const end = Math.max(...Array.from(received.matchAll(SENTENCE_END_PATTERN), (match) => match.index + 1), 0);
+            const pending = received.slice(sent.length, end);
+            if (!pending) return;
+            if (MEDICAL_TEXT_PATTERNS.some((pattern) => pattern.test(pending))) {
+                holding = true;
+                return;
+            }
+            sent += pending;
+            emit(pending);
+        },
+        get text() {
+            return received;
+        },
+        finish(guarded: string) {
+            if (!guarded.startsWith(sent)) return false;
+            if (guarded.length > sent.length) emit(guarded.slice(sent.length));
+            return true;
+        },
+    };
+};
@@ -0,0 +1,95 @@
+// Splits SDS text into its 16 GHS sections.
+// Grounding files written by sync_sds_data.js use `## SECTION 04 FIRST AID MEASURES` headers;
+// raw PDF SDS text usually has `SECTION 4: First-aid measures` or `4. FIRST AID MEASURES` lines.
+
+export type SdsSection = {
+    number: number; // 1-16, or 0 for any preamble before Section 1
+    title: string;
+    text: string;
+};
+
+export const GHS_SECTION_TITLES: Record<number, string> = {
+    1: 'Identification',
+    2: 'Hazard Identification',
+    3: 'Composition / Information on Ingredients',
+    4: 'First Aid Measures',
+    5: 'Fire-Fighting Measures',
+    6: 'Accidental Release Measures',
+    7: 'Handling and Storage',
+    8: 'Exposure Controls / Personal Protection',
+    9: 'Physical and Chemical Properties',
+    10: 'Stability and Reactivity',
+    11: 'Toxicological Information',
+    12: 'Ecological Information',
+    13: 'Disposal Considerations',
+    14: 'Transport Information',
+    15: 'Regulatory Information',
+    16: 'Other Information',
+};
+
+const MARKDOWN_HEADER = /^##\s*SECTION\s+0?(\d{1,2})\b[\s:.\-–]*(.*)$/i;
+const PDF_HEADER = /^\s*(?:(?:SECTION|Section)\s+0?(\d{1,2})|0?(\d{1,2})\.)\s*[:.\-–]?\s*([A-Z][A-Za-z ,/&()\-]{3,80})?\s*$/;
+
+// A bare "4. Something" line only counts as a header when it looks like the GHS title for that number
+const titleMatches = (number: number, title: string) => {
+    const expected = GHS_SECTION_TITLES[number]?.toLowerCase().split(/[^a-z]+/).filter((w) => w.length > 3) || [];
+    const actual = title.toLowerCase();
+    return expected.some((word) => actual.includes(word.slice(0, 5)));
+};
+
+const parseHeader = (line: string, expectedNext: number) => {
+    const markdown = line.match(MARKDOWN_HEADER);
+    if (markdown) {
+        const number = Number(markdown[1]);
+        return number >= 1 && number <= 16 ? { number, title: markdown[2].trim() } : null;
+    }
+
+    const pdf = line.match(PDF_HEADER);
+    if (!pdf) return null;
+    const number = Number(pdf[1] || pdf[2]);
+    const title = (pdf[3] || '').trim();
+    if (number < 1 || number > 16) return null;
+    // Numbered-list lines inside a section ("1. Rinse with water") must not start a new section
+    if (!pdf[1] && (number !== expectedNext || !titleMatches(number, title))) return null;
+    return { number, title };
+};
+
+export const splitSdsSections = (text: string): SdsSection[] => {
+    const sections: SdsSection[] = [];
+    let current: SdsSection = { number: 0, title: 'Preamble', text: '' };
+    const lines: string[] = [];
+
+    const flush = () => {
+        current.text = lines.join('\n').trim();
+        if (current.text.length > 0 || current.number > 0) sections.push(current);
+        lines.length = 0;
+    };
+
+    for (const line of text.split(/\r?\n/)) {
+        const header = parseHeader(line, current.number + 1);
+        if (header) {
+            flush();
+            current = {
+                number: header.number,
+                title: header.title || GHS_SECTION_TITLES[header.number],
+                text: '',
+            };
+            continue;
+        }
+        lines.push(line);
+    }
+    flush();
+
+    return sections;
+};
+
+// Enough distinct sections to trust the split; otherwise callers fall back to plain trimming
+export const hasSdsStructure = (sections: SdsSection[]) =>
+    new Set(sections.filter((s) => s.number > 0).map((s) => s.number)).size >= 3;
+
+export const formatSdsSection = (section: SdsSection) => {
+    const title = GHS_SECTION_TITLES[section.number] || section.title;
+    return section.number > 0
+        ? `--- SDS Section ${section.number}: ${title} ---\n${section.text}`
+        : section.text;
+};
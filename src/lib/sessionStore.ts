@@ -0,0 +1,48 @@
+import { getFirestore, isFirestoreConfigured } from '@/lib/firestore';
+import { appendMessages, ChatSession, createMemorySessionStore, newSession, SessionStore } from '@/lib/sessions';
+
+const SESSIONS_COLLECTION = 'chatSessions';
+
+export const createFirestoreSessionStore = (): SessionStore => {
+    const sessions = () => getFirestore().collection(SESSIONS_COLLECTION);
+
+    return {
+        async create(id) {
+            const session = newSession(id);
+            await sessions().doc(id).create(session);
+            return session;
+        },
+        async get(id) {
+            const snapshot = await sessions().doc(id).get();
+            return snapshot.exists ? (snapshot.data() as ChatSession) : null;
+        },
+        // In a transaction so two tabs on the same session can't overwrite each other's turns
+        append: (id, messages, state) => getFirestore().runTransaction(async (transaction) => {
+            const ref = sessions().doc(id);
+            const snapshot = await transaction.get(ref);
+            if (!snapshot.exists) return null;
+            const updated = appendMessages(snapshot.data() as ChatSession, messages, state);
+            transaction.set(ref, updated);
+            return updated;
+        }),
+    };
+};
+
+// Kept on globalThis: each API route is bundled separately, and the memory store must be shared between them
+const globalStore = globalThis as typeof globalThis & { chatSessionStore?: SessionStore };
+
+/**
+ * Session store selected by SESSION_STORE: `memory` (default in development) or `firestore` (default in
+ * production when Firestore is configured; otherwise memory, with a warning, so chats still work).
+ */
+export const getSessionStore = () => {
+    if (!globalStore.chatSessionStore) {
+        let kind = process.env.SESSION_STORE;
+        if (!kind && process.env.NODE_ENV === 'production') {
+            kind = isFirestoreConfigured() ? 'firestore' : 'memory';
+            if (kind === 'memory') console.warn('Firestore is not configured (FIRESTORE_PROJECT_ID or GCS credentials); chat sessions are kept in memory');
+        }
+        globalStore.chatSessionStore = kind === 'firestore' ? createFirestoreSessionStore() : createMemorySessionStore();
+    }
+    return globalStore.chatSessionStore;
+};
@@ -0,0 +1,82 @@
+import { LRUCache } from 'lru-cache';
+import type { ConversationState } from '@/lib/conversationState';
+import type { AnswerCard } from '@/lib/answerCards';
+import type { AnswerSource } from '@/lib/sources';
+
+// Chat sessions: the server keeps the transcript, the widget only keeps the session ID.
+
+export type SessionMessage = {
+    role: 'user' | 'assistant';
+    content: string;
+    // ISO timestamp
+    createdAt: string;
+    // Assistant messages only: the documents behind the answer
+    sources?: AnswerSource[];
+    cards?: AnswerCard[];
+};
+
+export type ChatSession = {
+    id: string;
+    messages: SessionMessage[];
+    // Summary and facts carried beyond the recent-history window (absent on sessions saved before it existed)
+    state?: ConversationState;
+    createdAt: string;
+    updatedAt: string;
+};
+
+export interface SessionStore {
+    create(id: string): Promise<ChatSession>;
+    get(id: string): Promise<ChatSession | null>;
+    // Appends to the transcript (and replaces the state if given); resolves to null if the session doesn't exist
+    append(id: string, messages: SessionMessage[], state?: ConversationState): Promise<ChatSession | null>;
+}
+
+// Oldest turns are dropped beyond this so a session document stays well under Firestore's 1 MB limit
+export const MAX_SESSION_MESSAGES = 100;
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{8,100}$/;
+const MEMORY_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const isValidSessionId = (id: unknown): id is string =>
+    typeof id === 'string' && SESSION_ID_PATTERN.test(id);
+
+export const newSession = (id: string): ChatSession => {
+    const now = new Date().toISOString();
+    return { id, messages: [], createdAt: now, updatedAt: now };
+};
+
+export const appendMessages = (session: ChatSession, messages: SessionMessage[], state = session.state): ChatSession => {
+    const all = [...session.messages, ...messages];
+    const dropped = Math.max(0, all.length - MAX_SESSION_MESSAGES);
+    return {
+        ...session,
+        messages: all.slice(dropped),
+        // Dropped messages were the oldest, so they are no longer counted as summarized
+        ...(state ? { state: { ...state, summarizedCount: Math.max(0, state.summarizedCount - dropped) } } : {}),
+        updatedAt: new Date().toISOString(),
+    };
+};
+
+export const createMemorySessionStore = (): SessionStore => {
+    const sessions = new LRUCache<string, ChatSession>({
+        max: 1000,
+        ttl: MEMORY_SESSION_TTL_MS,
+        updateAgeOnGet: true,
+    });
+    return {
+        async create(id) {
+            const session = newSession(id);
+            sessions.set(id, session);
+            return session;
+        },
+        async get(id) {
+            return sessions.get(id) || null;
+        },
+        async append(id, messages, state) {
+            const session = sessions.get(id);
+            if (!session) return null;
+            const updated = appendMessages(session, messages, state);
+            sessions.set(id, updated);
+            return updated;
+        },
+    };
+};
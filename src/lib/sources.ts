@@ -0,0 +1,89 @@
+import { documentVersionLabel } from '@/lib/documentVersions';
+import type { ProductDocument } from '@/lib/productDocuments';
+import { getDocumentUri, getPublicUrl } from '@/lib/storage';
+
+// The documents and data files behind an answer, returned with it so customers (and their
+// compliance staff) can see where a statement came from. An empty list means general knowledge.
+
+export type AnswerSource = {
+    // 'document' for bucket objects, 'catalog' for the local data files in src/data
+    type: 'document' | 'catalog';
+    name: string;
+    label: string;
+    // gs:// path of a bucket object
+    path: string | null;
+    url: string | null;
+    // Version of a versioned bucket object ("v1", "v0.1")
+    version?: string;
+    // SDS sections used, when the document was split by GHS section
+    sections?: number[];
+};
+
+export const PRODUCT_METADATA_SOURCE: AnswerSource = {
+    type: 'catalog',
+    name: 'product_metadata.json',
+    label: 'PRODUCT METADATA',
+    path: null,
+    url: null,
+};
+
+export const USE_CASES_SOURCE: AnswerSource = {
+    type: 'catalog',
+    name: 'use_cases.json',
+    label: 'USE-CASE SOLUTIONS',
+    path: null,
+    url: null,
+};
+
+export const bucketSource = (name: string, label: string, sections?: number[]): AnswerSource => {
+    const version = documentVersionLabel(name);
+    return {
+        type: 'document',
+        name,
+        label,
+        path: getDocumentUri(name),
+        url: getPublicUrl(name),
+        ...(version ? { version } : {}),
+        ...(sections ? { sections } : {}),
+    };
+};
+
+export const documentSources = (documents: ProductDocument[]) =>
+    documents.map((doc) => bucketSource(doc.name, doc.label, doc.sections));
+
+/**
+ * Sources behind a tool result; tools that fail or find nothing contribute none.
+ */
+export const toolResultSources = (name: string, result: any): AnswerSource[] => {
+    if (!result || 'error' in result) return [];
+    if (name === 'getSdsSection') return [bucketSource(result.source, 'SDS / SAFETY DATA', [result.section])];
+    if (name === 'getSafetyDataSheet') return [bucketSource(result.source, 'SDS / SAFETY DATA')];
+    if (name === 'getProductDetails' || name === 'searchCatalog') return [PRODUCT_METADATA_SOURCE];
+    if (name === 'findUseCase' && result.matches?.length > 0) return [USE_CASES_SOURCE];
+    if (name === 'calculateDilution') {
+        if (result.source === 'product_metadata.json') return [PRODUCT_METADATA_SOURCE];
+        return result.source ? [bucketSource(result.source, 'DILUTION & USE PROTOCOL')] : [];
+    }
+    if (name === 'checkDelivery') return [bucketSource('delivery_zipcodes.json', 'DELIVERY ZONES')];
+    if (name === 'prepareOrderRequest') {
+        return [PRODUCT_METADATA_SOURCE, ...(result.zip ? [bucketSource('delivery_zipcodes.json', 'DELIVERY ZONES')] : [])];
+    }
+    return [];
+};
+
+/**
+ * One entry per source name, in first-seen order, with their SDS sections combined.
+ */
+export const mergeSources = (sources: AnswerSource[]) => {
+    const merged = new Map<string, AnswerSource>();
+    for (const source of sources) {
+        const existing = merged.get(source.name);
+        if (!existing) {
+            merged.set(source.name, { ...source });
+        } else if (source.sections) {
+            const sections = new Set([...(existing.sections || []), ...source.sections]);
+            existing.sections = Array.from(sections).sort((a, b) => a - b);
+        }
+    }
+    return Array.from(merged.values());
+};
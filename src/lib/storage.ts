@@ -0,0 +1,30 @@
+import { getDocumentStore } from '@/lib/documentStore';
+
+const PDFParser = require("pdf2json");
+
+// Document helpers over the configured DocumentStore (GCS bucket or local directory, see documentStore.ts)
+
+export const getPublicUrl = (name: string) => getDocumentStore().publicUrl(name);
+
+export const getDocumentUri = (name: string) => getDocumentStore().uri(name);
+
+const parsePdfText = (buffer: Buffer): Promise<string> => {
+    const pdfParser = new PDFParser(null, 1);
+    return new Promise((resolve, reject) => {
+        pdfParser.on("pdfParser_dataError", (errData: any) => reject(errData.parserError));
+        pdfParser.on("pdfParser_dataReady", () => resolve(pdfParser.getRawTextContent()));
+        pdfParser.parseBuffer(buffer);
+    });
+};
+
+/**
+ * Reads a stored document and returns its text (PDFs are run through pdf2json).
+ */
+export const downloadDocumentText = async (name: string) => {
+    const fileBuffer = await getDocumentStore().read(name);
+    if (!fileBuffer) throw new Error(`Document not found: ${name}`);
+    if (name.toLowerCase().endsWith('.pdf')) {
+        return parsePdfText(fileBuffer);
+    }
+    return fileBuffer.toString();
+};
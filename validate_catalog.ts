@@ -0,0 +1,101 @@
+import { checkCatalogConsistency, ConsistencyIssue } from '@/lib/catalogConsistency';
+import { loadCatalog } from '@/lib/catalogStore';
+import { parseCsv } from '@/lib/csv';
+import { getDocumentStore } from '@/lib/documentStore';
+import { getDocumentFamily } from '@/lib/productDocuments';
+import { downloadDocumentText } from '@/lib/storage';
+
+const fs = require('fs');
+const path = require('path');
+require('dotenv').config({ path: '.env.local', quiet: true });
+
+// Catalog consistency report: metadata vs use cases, librarian guide, enrichment CSV and bucket files.
+//
+//   npm run validate:catalog                               list the document store (DOCUMENT_STORE)
+//   npm run validate:catalog -- --files all_files_in_bucket.txt   use a saved listing instead (offline)
+//   npm run validate:catalog -- --contents                 also scan SDS and protocol texts for placeholders
+//   npm run validate:catalog -- --json                     print the full report as JSON
+//   npm run validate:catalog -- --verbose                  list every issue, not the first few per check
+//
+// Exits non-zero when the report has errors.
+
+const GUIDE_PATH = path.join(__dirname, 'product_guide_harvested.txt');
+const CSV_PATH = path.join(__dirname, 'UF Product Enrichment', 'UF Chemist enrichment.csv');
+const ISSUES_PER_CHECK = 5;
+const DOWNLOAD_CONCURRENCY = 8;
+
+const args = process.argv.slice(2);
+const json = args.includes('--json');
+const verbose = args.includes('--verbose');
+const scanContents = args.includes('--contents');
+const listingFile = args.includes('--files') ? args[args.indexOf('--files') + 1] : null;
+
+const readIfExists = (file: string) => (fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : undefined);
+
+// A saved listing may carry log lines around the object names (see list_gcs.js), so only file names are kept
+const readListing = (file: string): string[] =>
+    fs.readFileSync(file, 'utf-8')
+        .split(/\r?\n/)
+        .map((line: string) => line.trim())
+        .filter((line: string) => /\.(txt|pdf)$/i.test(line) && !line.startsWith('['));
+
+const listBucket = async (): Promise<string[]> => (await getDocumentStore().list()).map((document) => document.name);
+
+// SDS and protocol texts are the ones the model quotes, so they are the ones worth scanning
+const downloadDocuments = async (files: string[]) => {
+    const names = files.filter((name) => ['grounding', 'sku_protocol'].includes(getDocumentFamily(name)));
+    const documents: Record<string, string> = {};
+    for (let i = 0; i < names.length; i += DOWNLOAD_CONCURRENCY) {
+        await Promise.all(names.slice(i, i + DOWNLOAD_CONCURRENCY).map(async (name) => {
+            try {
+                documents[name] = await downloadDocumentText(name);
+            } catch (error: any) {
+                console.warn(`Could not download ${name}: ${error.message}`);
+            }
+        }));
+    }
+    return documents;
+};
+
+const printIssues = (issues: ConsistencyIssue[]) => {
+    const byCheck = new Map<string, ConsistencyIssue[]>();
+    for (const issue of issues) byCheck.set(issue.check, [...(byCheck.get(issue.check) || []), issue]);
+
+    for (const [check, group] of byCheck) {
+        console.log(`\n${group[0].severity === 'error' ? 'ERROR' : 'WARN '} ${check} (${group.length})`);
+        for (const issue of verbose ? group : group.slice(0, ISSUES_PER_CHECK)) {
+            console.log(`      ${issue.subject}: ${issue.message}`);
+        }
+        if (!verbose && group.length > ISSUES_PER_CHECK) console.log(`      ... and ${group.length - ISSUES_PER_CHECK} more (--verbose)`);
+    }
+};
+
+const main = async () => {
+    const catalog = await loadCatalog();
+    const files = listingFile ? readListing(listingFile) : await listBucket();
+    const csv = readIfExists(CSV_PATH);
+
+    const report = checkCatalogConsistency({
+        products: catalog.data.products,
+        useCases: catalog.data.useCases,
+        files,
+        guide: readIfExists(GUIDE_PATH),
+        enrichment: csv === undefined ? undefined : parseCsv(csv),
+        documents: scanContents ? await downloadDocuments(files) : undefined,
+    });
+
+    if (json) {
+        console.log(JSON.stringify(report, null, 2));
+    } else {
+        const { products, skus, files: fileCount, errors, warnings } = report.counts;
+        console.log(`Catalog version ${catalog.version}: ${products} products, ${skus} SKUs, ${fileCount} bucket files${listingFile ? ` (from ${listingFile})` : ''}`);
+        printIssues(report.issues);
+        console.log(`\n${errors} errors, ${warnings} warnings`);
+    }
+    process.exit(report.counts.errors > 0 ? 1 : 0);
+};
+
+main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+});